@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { hashWalletAddress, verifyProof } from '../index.mjs';
+
+const USAGE = `Usage: shadowpay-verify --proof <proof.json> --vk <vk.json> [--crs <dir>] [--expect name=value ...] [--wallet <address>] [--not-before YYYYMMDD]
+
+  --proof   proof serialized by NoirProofService.serializeProof
+  --vk      verification key exported by /api/proof/verification-keys
+  --crs     directory holding a downloaded Barretenberg CRS (for offline use)
+  --expect  claimed policy value, e.g. --expect minimumAge=18 --expect maxRiskScore=5
+  --wallet  wallet a selective_disclosure proof must be bound to
+  --not-before  reject proofs whose as-of date is earlier, e.g. --not-before 20250101
+
+A proof only shows that some policy values hold, so at least one --expect or
+--wallet is required; the decoded public inputs are printed either way.
+
+Exits 0 when the proof is valid, 1 when it is not, 2 on usage or input errors.`;
+
+function parseClaims(values) {
+  const claims = {};
+  for (const value of values ?? []) {
+    const [name, raw] = value.split('=');
+    if (!name || !raw || !/^(\d+|0x[0-9a-fA-F]+)$/.test(raw)) {
+      throw new Error(`Invalid --expect value "${value}": expected name=integer or name=0xhex`);
+    }
+    claims[name] = raw;
+  }
+  return claims;
+}
+
+async function main() {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        proof: { type: 'string' },
+        vk: { type: 'string' },
+        crs: { type: 'string' },
+        expect: { type: 'string', multiple: true },
+        wallet: { type: 'string' },
+        'not-before': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }).values;
+  } catch (error) {
+    console.error(error.message);
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (args.help || !args.proof || !args.vk) {
+    console.error(USAGE);
+    return args.help ? 0 : 2;
+  }
+
+  try {
+    const [proof, vk] = await Promise.all([
+      readFile(args.proof, 'utf8').then(JSON.parse),
+      readFile(args.vk, 'utf8').then(JSON.parse),
+    ]);
+    const claims = parseClaims(args.expect);
+    if (args.wallet) {
+      claims.walletHash = hashWalletAddress(args.wallet);
+    }
+    if (Object.keys(claims).length === 0) {
+      throw new Error('Nothing to check the proof against: pass --expect name=value or --wallet');
+    }
+    const notBefore = args['not-before'];
+    if (notBefore !== undefined && !/^\d{8}$/.test(notBefore)) {
+      throw new Error(`Invalid --not-before value "${notBefore}": expected YYYYMMDD`);
+    }
+    const result = await verifyProof(proof, vk, {
+      claims,
+      crsPath: args.crs,
+      notBeforeDate: notBefore === undefined ? undefined : Number(notBefore),
+    });
+
+    console.log(JSON.stringify(result, null, 2));
+    console.log(result.isValid ? 'VALID' : 'INVALID');
+    return result.isValid ? 0 : 1;
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    return 2;
+  }
+}
+
+process.exitCode = await main();
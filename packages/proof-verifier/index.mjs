@@ -0,0 +1,201 @@
+import { createHash } from 'node:crypto';
+import { createRequire } from 'node:module';
+import { BarretenbergVerifier } from '@aztec/bb.js';
+
+/**
+ * Public inputs in circuit ABI order, keyed by the policy value each one
+ * carries. Shared with NoirProofService, which builds proofs in this order.
+ *
+ * @type {Record<string, string[]>}
+ */
+export const PUBLIC_INPUT_CLAIMS = createRequire(import.meta.url)('./public-input-claims.json');
+
+/**
+ * Same wallet commitment as NoirProofService: the first 31 bytes of SHA-256
+ * over the address string, as 0x-prefixed hex.
+ *
+ * @param {string} walletAddress
+ */
+export function hashWalletAddress(walletAddress) {
+  return `0x${createHash('sha256').update(walletAddress, 'utf8').digest('hex').slice(0, 62)}`;
+}
+
+/**
+ * Parses a key exported by NoirProofService.getVerificationKey and checks
+ * that the key bytes match the published hash.
+ *
+ * @param {unknown} exported
+ * @returns {{ circuitType: string, circuitVersion: string, noirVersion: string, vkHash: string, key: Uint8Array }}
+ */
+export function parseVerificationKey(exported) {
+  const vk = /** @type {Record<string, unknown>} */ (exported ?? {});
+  if (vk.format !== 'shadowpay-vk' || typeof vk.verificationKey !== 'string' || typeof vk.vkHash !== 'string') {
+    throw new Error('Not a ShadowPay verification key export');
+  }
+  if (typeof vk.circuitType !== 'string' || !(vk.circuitType in PUBLIC_INPUT_CLAIMS)) {
+    throw new Error(`Unknown circuit type in verification key: ${String(vk.circuitType)}`);
+  }
+
+  const key = new Uint8Array(Buffer.from(vk.verificationKey, 'base64'));
+  const actualHash = createHash('sha256').update(key).digest('hex');
+  if (actualHash !== vk.vkHash) {
+    throw new Error(`Verification key hash mismatch: expected ${vk.vkHash}, got ${actualHash}`);
+  }
+
+  return {
+    circuitType: vk.circuitType,
+    circuitVersion: String(vk.circuitVersion ?? 'unknown'),
+    noirVersion: String(vk.noirVersion ?? 'unknown'),
+    vkHash: vk.vkHash,
+    key,
+  };
+}
+
+/**
+ * Parses a proof serialized by NoirProofService.serializeProof.
+ *
+ * @param {unknown} serialized
+ * @returns {{ circuitType?: string, circuitVersion?: string, proof: Uint8Array, publicInputs: string[] }}
+ */
+export function parseProof(serialized) {
+  const parsed = /** @type {Record<string, unknown>} */ (serialized ?? {});
+  if (!Array.isArray(parsed.proof) || !Array.isArray(parsed.publicInputs)) {
+    throw new Error('Proof must contain proof bytes and publicInputs');
+  }
+  return {
+    circuitType: typeof parsed.circuitType === 'string' ? parsed.circuitType : undefined,
+    circuitVersion: typeof parsed.circuitVersion === 'string' ? parsed.circuitVersion : undefined,
+    proof: new Uint8Array(parsed.proof),
+    publicInputs: parsed.publicInputs.map(String),
+  };
+}
+
+/** @param {Uint8Array} proof */
+export function isMockProof(proof) {
+  try {
+    return JSON.parse(new TextDecoder().decode(proof))?.mockProof === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Names each public input by the policy value it carries.
+ *
+ * @param {string} circuitType
+ * @param {string[]} publicInputs
+ * @returns {Record<string, string> | null} null when the count does not match the circuit
+ */
+export function decodePublicInputs(circuitType, publicInputs) {
+  const names = PUBLIC_INPUT_CLAIMS[circuitType];
+  if (!names || publicInputs.length !== names.length) return null;
+  return Object.fromEntries(names.map((name, index) => [name, publicInputs[index]]));
+}
+
+/**
+ * @param {string} circuitType
+ * @param {string[]} publicInputs
+ * @param {Record<string, number | string>} [claims]
+ * @returns {string | null} why the public inputs do not match, or null
+ */
+export function checkClaims(circuitType, publicInputs, claims) {
+  if (!claims) return null;
+
+  const names = PUBLIC_INPUT_CLAIMS[circuitType];
+  if (publicInputs.length !== names.length) {
+    return `Expected ${names.length} public inputs for ${circuitType}, got ${publicInputs.length}`;
+  }
+
+  // A misspelt claim would otherwise go unchecked
+  const unknown = Object.keys(claims).filter(name => !names.includes(name));
+  if (unknown.length > 0) {
+    return `${circuitType} proofs carry no ${unknown.join(', ')} (public inputs: ${names.join(', ')})`;
+  }
+
+  for (const [index, name] of names.entries()) {
+    if (claims[name] === undefined) continue;
+    let actual;
+    try {
+      actual = BigInt(publicInputs[index]);
+    } catch {
+      return `Public input ${name} is not a number: ${publicInputs[index]}`;
+    }
+    if (actual !== BigInt(claims[name])) {
+      return `Public input ${name} is ${actual}, expected ${claims[name]}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rejects proofs whose public as-of date (YYYYMMDD) is earlier than
+ * `notBeforeDate`. Circuits without an as-of date are unaffected.
+ *
+ * @param {string} circuitType
+ * @param {string[]} publicInputs
+ * @param {number} [notBeforeDate]
+ * @returns {string | null}
+ */
+export function checkAsOfDate(circuitType, publicInputs, notBeforeDate) {
+  const names = PUBLIC_INPUT_CLAIMS[circuitType];
+  const index = names.indexOf('asOfDate');
+  if (notBeforeDate === undefined || index < 0) return null;
+
+  if (!(Number(publicInputs[index]) >= notBeforeDate)) {
+    return `Proof is stale: as-of date ${publicInputs[index]} is before ${notBeforeDate}`;
+  }
+  return null;
+}
+
+/**
+ * Verifies a serialized proof against an exported verification key without
+ * contacting ShadowPay. Pass `crsPath` pointing at a pre-downloaded
+ * Barretenberg CRS to run fully offline.
+ *
+ * @param {unknown} serializedProof
+ * @param {unknown} exportedKey
+ * @param {{ claims?: Record<string, number | string>, crsPath?: string, notBeforeDate?: number }} [options]
+ */
+export async function verifyProof(serializedProof, exportedKey, options = {}) {
+  const vk = parseVerificationKey(exportedKey);
+  const proof = parseProof(serializedProof);
+  const result = {
+    circuitType: vk.circuitType,
+    circuitVersion: vk.circuitVersion,
+    vkHash: vk.vkHash,
+    publicInputs: decodePublicInputs(vk.circuitType, proof.publicInputs),
+  };
+
+  if (proof.circuitType && proof.circuitType !== vk.circuitType) {
+    return { ...result, isValid: false, error: `Proof is for ${proof.circuitType}, key is for ${vk.circuitType}` };
+  }
+  if (proof.circuitVersion && vk.circuitVersion !== 'unknown' && proof.circuitVersion !== vk.circuitVersion) {
+    return {
+      ...result,
+      isValid: false,
+      error: `Proof was generated with circuit version ${proof.circuitVersion}, key is for ${vk.circuitVersion}`,
+    };
+  }
+  if (isMockProof(proof.proof)) {
+    return { ...result, isValid: false, error: 'Mock proofs cannot be verified' };
+  }
+
+  const claimError = checkClaims(vk.circuitType, proof.publicInputs, options.claims)
+    ?? checkAsOfDate(vk.circuitType, proof.publicInputs, options.notBeforeDate);
+  if (claimError) {
+    return { ...result, isValid: false, error: claimError };
+  }
+
+  const verifier = new BarretenbergVerifier({ threads: 1, crsPath: options.crsPath });
+  try {
+    const isValid = await verifier.verifyUltraHonkProof(
+      { proof: proof.proof, publicInputs: proof.publicInputs },
+      vk.key
+    );
+    return { ...result, isValid };
+  } catch (error) {
+    return { ...result, isValid: false, error: error instanceof Error ? error.message : 'Verification failed' };
+  } finally {
+    await verifier.destroy();
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Registers freshly compiled circuits after `nargo compile`:
+ *
+ *   bun scripts/register-circuits.ts [circuit...]
+ *
+ * Each artifact in `circuits/<circuit>/target/` is copied to the immutable
+ * `circuits/<circuit>/versions/<hash>.json`, recorded in
+ * `circuits/registry.json` as the current version, and mirrored to
+ * `public/circuits/` for browser proving. Earlier versions stay registered.
+ * Its ABI replaces the bundled one in `src/lib/circuit-abis.json` that
+ * witnesses are validated against, and the offline verifier's
+ * `public-input-claims.json` is rewritten from the bundled ABIs.
+ */
+import { copyFile, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { CircuitAbi, derivePublicInputClaims } from '../src/lib/circuit-abi';
+import { CircuitArtifact, CircuitRegistry, describeArtifact } from '../src/lib/circuit-registry';
+import { ALL_CIRCUIT_TYPES, CircuitType } from '../src/lib/noir-proof-service';
+
+const CIRCUITS_DIR = process.env.CIRCUITS_DIR ?? path.join(process.cwd(), 'circuits');
+const PUBLIC_DIR = path.join(process.cwd(), 'public', 'circuits');
+const ABIS_PATH = path.join(process.cwd(), 'src', 'lib', 'circuit-abis.json');
+const CLAIMS_PATH = path.join(process.cwd(), 'packages', 'proof-verifier', 'public-input-claims.json');
+
+async function readRegistry(): Promise<CircuitRegistry> {
+  try {
+    return CircuitRegistry.parse(await readFile(path.join(CIRCUITS_DIR, 'registry.json'), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new CircuitRegistry();
+    throw error;
+  }
+}
+
+async function deriveVkHash(artifact: CircuitArtifact): Promise<string | null> {
+  try {
+    const { UltraHonkBackend } = await import('@aztec/bb.js');
+    const backend = new UltraHonkBackend(artifact.bytecode);
+    const vk = await backend.getVerificationKey();
+    await backend.destroy();
+    const digest = await crypto.subtle.digest('SHA-256', vk as BufferSource);
+    return Buffer.from(digest).toString('hex');
+  } catch (error) {
+    console.warn(`  could not derive a verification key, vkHash left empty: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+async function register(registry: CircuitRegistry, circuitType: CircuitType): Promise<CircuitArtifact | null> {
+  const targetPath = path.join(CIRCUITS_DIR, circuitType, 'target', `${circuitType}.json`);
+  let artifact: CircuitArtifact;
+  try {
+    artifact = JSON.parse(await readFile(targetPath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.log(`${circuitType}: not compiled, skipped`);
+      return null;
+    }
+    throw error;
+  }
+
+  const version = String(artifact.hash);
+  const artifactPath = `${circuitType}/versions/${version}.json`;
+  const known = registry.get(circuitType, version);
+
+  await mkdir(path.join(CIRCUITS_DIR, circuitType, 'versions'), { recursive: true });
+  await copyFile(targetPath, path.join(CIRCUITS_DIR, artifactPath));
+
+  const vkHash = known?.vkHash ?? await deriveVkHash(artifact);
+  registry.register(circuitType, await describeArtifact(artifact, artifactPath, vkHash));
+  console.log(`${circuitType}: ${known ? 'current' : 'registered'} version ${version}`);
+  return artifact;
+}
+
+async function main(): Promise<void> {
+  const requested = process.argv.slice(2) as CircuitType[];
+  const unknown = requested.filter(name => !ALL_CIRCUIT_TYPES.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown circuits: ${unknown.join(', ')}`);
+  }
+
+  const registry = await readRegistry();
+  const abis = JSON.parse(await readFile(ABIS_PATH, 'utf8')) as Record<CircuitType, CircuitAbi>;
+  let registered = 0;
+  for (const circuitType of requested.length > 0 ? requested : ALL_CIRCUIT_TYPES) {
+    const artifact = await register(registry, circuitType);
+    if (!artifact) continue;
+    abis[circuitType] = { parameters: artifact.abi.parameters, return_type: artifact.abi.return_type ?? null };
+    registered++;
+  }
+
+  const json = `${JSON.stringify(registry.toJSON(), null, 2)}\n`;
+  await writeFile(path.join(CIRCUITS_DIR, 'registry.json'), json, 'utf8');
+
+  // Browser proving fetches the same layout from /circuits
+  await mkdir(PUBLIC_DIR, { recursive: true });
+  for (const circuitType of ALL_CIRCUIT_TYPES) {
+    for (const { artifact } of registry.versions(circuitType)) {
+      await mkdir(path.join(PUBLIC_DIR, path.dirname(artifact)), { recursive: true });
+      await copyFile(path.join(CIRCUITS_DIR, artifact), path.join(PUBLIC_DIR, artifact));
+    }
+  }
+  await writeFile(path.join(PUBLIC_DIR, 'registry.json'), json, 'utf8');
+  await writeFile(ABIS_PATH, `${JSON.stringify(abis, null, 2)}\n`, 'utf8');
+
+  const claims = Object.fromEntries(
+    ALL_CIRCUIT_TYPES.map(circuitType => [circuitType, derivePublicInputClaims(abis[circuitType])])
+  );
+  await writeFile(CLAIMS_PATH, `${formatClaims(claims)}\n`, 'utf8');
+
+  if (registered === 0) {
+    console.warn('No compiled circuits found. Run `nargo compile` in each circuit directory first.');
+  }
+}
+
+// One circuit per line, so changes to the file read circuit by circuit
+function formatClaims(claims: Record<string, string[]>): string {
+  const lines = Object.entries(claims).map(([circuitType, names]) =>
+    `  ${JSON.stringify(circuitType)}: [${names.map(name => JSON.stringify(name)).join(', ')}]`
+  );
+  return `{\n${lines.join(',\n')}\n}`;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
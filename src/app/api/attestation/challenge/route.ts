@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService, WalletOwnershipError } from '@/lib';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: { walletAddress?: string } = await request.json();
+
+    if (!body.walletAddress || typeof body.walletAddress !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: walletAddress' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const verifier = service.getWalletOwnershipVerifier();
+
+    if (!verifier) {
+      return NextResponse.json(
+        { error: 'Wallet ownership checks are not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const challenge = await verifier.issueChallenge(body.walletAddress);
+
+    return NextResponse.json({
+      success: true,
+      data: challenge,
+    });
+  } catch (error) {
+    if (error instanceof WalletOwnershipError) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Challenge generation failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
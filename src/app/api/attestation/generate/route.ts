@@ -1,9 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createComplianceService, AttestationRequest } from '@/lib';
+import {
+  createServerComplianceService,
+  AttestationRequest,
+  ProofGenerationError,
+  ProofInputError,
+  SolanaCluster,
+  SOLANA_CLUSTERS,
+  CredentialError,
+  WalletOwnershipError,
+  WitnessValidationError,
+  isSolanaCluster,
+  toDateNumber
+} from '@/lib';
+
+function isValidBirthDate(value: unknown): boolean {
+  try {
+    return typeof value === 'string' && toDateNumber(value) > 0;
+  } catch {
+    return false;
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body: AttestationRequest = await request.json();
+    const body: AttestationRequest & { network?: SolanaCluster } = await request.json();
 
     if (!body.walletAddress || typeof body.walletAddress !== 'string') {
       return NextResponse.json(
@@ -12,32 +32,74 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (typeof body.age !== 'number' || body.age < 0) {
+    if (body.credential === undefined && body.birthDate === undefined &&
+        (typeof body.age !== 'number' || body.age < 0)) {
       return NextResponse.json(
-        { error: 'Invalid or missing field: age' },
+        { error: 'Invalid or missing field: age (or provide birthDate or a KYC credential)' },
         { status: 400 }
       );
     }
 
-    const rangeApiKey = process.env.RANGE_API_KEY;
-    const useMock = !rangeApiKey || process.env.USE_MOCK_RANGE === 'true';
+    if (body.birthDate !== undefined &&
+        !isValidBirthDate(body.birthDate)) {
+      return NextResponse.json(
+        { error: 'Invalid field: birthDate must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
 
-    const service = createComplianceService({
-      rangeApiKey: rangeApiKey ?? 'mock',
-      useMockRange: useMock,
-      maxRiskThreshold: Number(process.env.MAX_RISK_THRESHOLD) || 5,
-      defaultMinimumAge: Number(process.env.DEFAULT_MINIMUM_AGE) || 18,
-      defaultMinBalanceUsd: Number(process.env.DEFAULT_MIN_BALANCE) || 0,
-    });
+    if (body.credential !== undefined &&
+        (typeof body.credential?.birthDate !== 'string' || typeof body.credential?.signature !== 'string')) {
+      return NextResponse.json(
+        { error: 'Invalid field: credential must contain issuer, subject, birthDate and signature' },
+        { status: 400 }
+      );
+    }
+
+    if (body.countryCode !== undefined &&
+        (!Number.isInteger(body.countryCode) || body.countryCode < 1 || body.countryCode > 999)) {
+      return NextResponse.json(
+        { error: 'Invalid field: countryCode must be an ISO 3166-1 numeric code' },
+        { status: 400 }
+      );
+    }
+
+    if (body.ownership !== undefined &&
+        (typeof body.ownership?.nonce !== 'string' || typeof body.ownership?.signature !== 'string')) {
+      return NextResponse.json(
+        { error: 'Invalid field: ownership must contain nonce and base64 signature' },
+        { status: 400 }
+      );
+    }
+
+    if (body.network !== undefined && !isSolanaCluster(body.network)) {
+      return NextResponse.json(
+        { error: `Invalid network: must be one of ${SOLANA_CLUSTERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService(body.network);
 
     const attestation = await service.generateAttestation(body);
+    const document = await service.issueAttestationDocument(attestation);
 
+    const generatedProofs = Object.values(attestation.proofs).filter(proof => proof !== undefined);
     const serializedProofs = {
       age: attestation.proofs.age ? Array.from(attestation.proofs.age.proof) : null,
+      birthDateAge: attestation.proofs.birthDateAge
+        ? Array.from(attestation.proofs.birthDateAge.proof)
+        : null,
       risk: attestation.proofs.risk ? Array.from(attestation.proofs.risk.proof) : null,
       selectiveDisclosure: attestation.proofs.selectiveDisclosure 
         ? Array.from(attestation.proofs.selectiveDisclosure.proof) 
         : null,
+      credentialAge: attestation.proofs.credentialAge
+        ? Array.from(attestation.proofs.credentialAge.proof)
+        : null,
+      jurisdiction: attestation.proofs.jurisdiction
+        ? Array.from(attestation.proofs.jurisdiction.proof)
+        : null,
     };
 
     return NextResponse.json({
@@ -46,16 +108,51 @@ export async function POST(request: NextRequest) {
         isCompliant: attestation.isCompliant,
         attestationId: attestation.attestationId,
         timestamp: attestation.timestamp,
+        network: attestation.network,
+        ownershipVerified: attestation.ownershipVerified,
+        ageSource: attestation.ageSource,
+        credentialIssuer: attestation.credentialIssuer,
+        realProofs: generatedProofs.length > 0 && generatedProofs.every(p => p.isRealProof),
         publicInputs: attestation.publicInputs,
+        policyVerdict: attestation.policyVerdict,
         proofs: serializedProofs,
         complianceCheck: {
           riskScore: attestation.complianceCheck.riskScore,
           riskLevel: attestation.complianceCheck.riskLevel,
           isSanctioned: attestation.complianceCheck.isSanctioned,
         },
+        document,
       },
     });
   } catch (error) {
+    if (error instanceof WalletOwnershipError) {
+      return NextResponse.json(
+        { error: 'Wallet ownership not proven', message: error.message },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof CredentialError) {
+      return NextResponse.json(
+        { error: 'Credential rejected', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ProofInputError || error instanceof WitnessValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid attestation request', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ProofGenerationError) {
+      return NextResponse.json(
+        { error: 'Real proof generation failed', circuitType: error.circuitType, message: error.message },
+        { status: 503 }
+      );
+    }
+
     return NextResponse.json(
       { 
         error: 'Attestation generation failed', 
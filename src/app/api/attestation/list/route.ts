@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService } from '@/lib';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const wallet = params.get('wallet');
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: wallet' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const registry = service.getAttestationRegistry();
+
+    if (!registry) {
+      return NextResponse.json(
+        { error: 'Attestation registry is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const records = await registry.listByWallet(wallet, { activeOnly: params.get('activeOnly') === 'true' });
+    const attestations = records.map(record => ({ ...registry.describe(record), document: record.document }));
+
+    return NextResponse.json({
+      success: true,
+      data: { wallet, attestations },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to list attestations', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService, RevocationError } from '@/lib';
+
+interface RevokeRequestBody {
+  attestationId?: string;
+  reason?: string;
+  revoker?: string;
+  signature?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: RevokeRequestBody = await request.json();
+
+    if (!body.attestationId || typeof body.attestationId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: attestationId' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.reason || typeof body.reason !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: reason' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.revoker !== 'string' || typeof body.signature !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: revoker, signature' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const registry = service.getAttestationRegistry();
+
+    if (!registry) {
+      return NextResponse.json(
+        { error: 'Attestation registry is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await registry.get(body.attestationId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: `Unknown attestation: ${body.attestationId}` },
+        { status: 404 }
+      );
+    }
+    if (existing.revokedAt !== undefined) {
+      return NextResponse.json(
+        { error: `Attestation already revoked: ${body.attestationId}` },
+        { status: 409 }
+      );
+    }
+
+    await service.revokeAttestation({
+      attestationId: body.attestationId,
+      reason: body.reason,
+      revoker: body.revoker,
+      signature: body.signature,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await registry.status(body.attestationId),
+    });
+  } catch (error) {
+    if (error instanceof RevocationError) {
+      return NextResponse.json(
+        { error: 'Revocation not authorised', message: error.message },
+        { status: 403 }
+      );
+    }
+    return NextResponse.json(
+      { 
+        error: 'Attestation revocation failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
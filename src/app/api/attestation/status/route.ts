@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService } from '@/lib';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const attestationId = params.get('attestationId');
+    const wallet = params.get('wallet');
+
+    if (!attestationId && !wallet) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: attestationId or wallet' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const registry = service.getAttestationRegistry();
+
+    if (!registry) {
+      return NextResponse.json(
+        { error: 'Attestation registry is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    if (attestationId) {
+      const status = await registry.status(attestationId);
+      if (!status) {
+        return NextResponse.json(
+          { error: `Unknown attestation: ${attestationId}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, data: status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await registry.walletStatus(wallet!, params.get('policy') ?? undefined),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Attestation status check failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Batch check for payroll runs: returns which wallets hold an active,
+ * compliant attestation and why the others were rejected.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: { wallets?: string[]; policy?: string } = await request.json();
+
+    if (!Array.isArray(body.wallets) || body.wallets.length === 0 || body.wallets.some(w => typeof w !== 'string')) {
+      return NextResponse.json(
+        { error: 'Missing required field: wallets' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const registry = service.getAttestationRegistry();
+
+    if (!registry) {
+      return NextResponse.json(
+        { error: 'Attestation registry is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const results = [];
+    for (const wallet of body.wallets) {
+      results.push(await registry.walletStatus(wallet, body.policy));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        eligible: results.filter(r => r.eligible).map(r => r.walletAddress),
+        rejected: results.filter(r => !r.eligible).map(r => ({ walletAddress: r.walletAddress, reason: r.reason })),
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Attestation status check failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService, SignedAttestation } from '@/lib';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: { document?: SignedAttestation } = await request.json();
+
+    if (!body.document || typeof body.document !== 'object') {
+      return NextResponse.json(
+        { error: 'Missing required field: document' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const verification = await service.verifyAttestationDocument(body.document);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        attestationId: body.document.payload?.id,
+        subject: body.document.payload?.subject,
+        ...verification,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Attestation verification failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
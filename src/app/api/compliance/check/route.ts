@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createComplianceService } from '@/lib';
+import { createServerComplianceService, SOLANA_CLUSTERS, isSolanaCluster } from '@/lib';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { address } = body;
+    const { address, role, policy, network } = body;
 
     if (!address || typeof address !== 'string') {
       return NextResponse.json(
@@ -13,20 +13,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const rangeApiKey = process.env.RANGE_API_KEY;
-    const useMock = !rangeApiKey || process.env.USE_MOCK_RANGE === 'true';
+    if (role !== undefined && role !== 'sender' && role !== 'recipient') {
+      return NextResponse.json(
+        { error: 'Invalid role: must be sender or recipient' },
+        { status: 400 }
+      );
+    }
 
-    const service = createComplianceService({
-      rangeApiKey: rangeApiKey ?? 'mock',
-      useMockRange: useMock,
-      maxRiskThreshold: Number(process.env.MAX_RISK_THRESHOLD) || 5,
-    });
+    if (network !== undefined && !isSolanaCluster(network)) {
+      return NextResponse.json(
+        { error: `Invalid network: must be one of ${SOLANA_CLUSTERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    const result = await service.quickComplianceCheck(address);
+    const service = await createServerComplianceService(network);
+
+    const result = await service.quickComplianceCheck(
+      address,
+      role,
+      typeof policy === 'string' ? policy : undefined
+    );
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: { ...result, network: service.getNetwork() },
       timestamp: Date.now(),
     });
   } catch (error) {
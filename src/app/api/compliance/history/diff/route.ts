@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService } from '@/lib';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const address = params.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const history = service.getRiskHistory();
+
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Risk history is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const diff = await history.diff(address, params.get('from') ?? undefined, params.get('to') ?? undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to diff risk history', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
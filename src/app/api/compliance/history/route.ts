@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService } from '@/lib';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const address = params.get('address');
+    const limit = params.get('limit');
+    const since = params.get('since');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const history = service.getRiskHistory();
+
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Risk history is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const entries = await history.list(address, {
+      limit: limit ? Number(limit) : undefined,
+      since: since ? Number(since) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        address,
+        trend: await history.trend(address),
+        entries,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to load risk history', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { createServerWalletMonitor } from '@/lib';
+
+export async function POST() {
+  try {
+    const monitor = await createServerWalletMonitor();
+    const result = await monitor.runOnce();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Monitoring run failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
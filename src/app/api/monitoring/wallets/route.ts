@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerWalletMonitor, MonitoredWalletRole } from '@/lib';
+
+interface WalletRequestBody {
+  wallets: Array<{
+    address: string;
+    role: MonitoredWalletRole;
+    label?: string;
+  }>;
+}
+
+const VALID_ROLES: MonitoredWalletRole[] = ['employee', 'counterparty'];
+
+export async function GET() {
+  try {
+    const monitor = await createServerWalletMonitor();
+    const wallets = await monitor.listWallets();
+
+    return NextResponse.json({
+      success: true,
+      data: { wallets },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to list monitored wallets', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: WalletRequestBody = await request.json();
+
+    if (!Array.isArray(body.wallets) || body.wallets.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required field: wallets' },
+        { status: 400 }
+      );
+    }
+
+    for (const wallet of body.wallets) {
+      if (!wallet.address || typeof wallet.address !== 'string' || !VALID_ROLES.includes(wallet.role)) {
+        return NextResponse.json(
+          { error: `Invalid wallet entry: address and role (${VALID_ROLES.join(', ')}) are required` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const monitor = await createServerWalletMonitor();
+    const added = [];
+    for (const wallet of body.wallets) {
+      added.push(await monitor.addWallet(wallet.address, wallet.role, wallet.label));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { wallets: added },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to add monitored wallets', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    const monitor = await createServerWalletMonitor();
+    const removed = await monitor.removeWallet(address);
+
+    return NextResponse.json({
+      success: true,
+      data: { removed },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to remove monitored wallet', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
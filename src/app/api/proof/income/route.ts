@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService, IncomeProofRequest, ProofGenerationError, SalaryReceiptError } from '@/lib';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<IncomeProofRequest> = await request.json();
+    const receipt = body.receipt;
+
+    if (!receipt || typeof receipt.recipient !== 'string' || typeof receipt.amount !== 'number' ||
+        typeof receipt.salt !== 'string' || typeof receipt.commitment !== 'string' ||
+        typeof receipt.issuer !== 'string' || typeof receipt.signature !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid or missing field: receipt must be a signed salary receipt from a payroll transfer' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.minAmount !== 'number' || body.minAmount < 0) {
+      return NextResponse.json(
+        { error: 'Invalid or missing field: minAmount' },
+        { status: 400 }
+      );
+    }
+
+    if (body.maxAmount !== undefined && (typeof body.maxAmount !== 'number' || body.maxAmount < body.minAmount)) {
+      return NextResponse.json(
+        { error: 'Invalid field: maxAmount must be at least minAmount' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const proof = await service.generateIncomeProof({
+      receipt,
+      minAmount: body.minAmount,
+      maxAmount: body.maxAmount,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        circuitType: 'salary_band',
+        commitment: receipt.commitment,
+        signedCommitment: {
+          commitment: receipt.commitment,
+          token: receipt.token,
+          transactionId: receipt.transactionId,
+          paidAt: receipt.paidAt,
+          issuer: receipt.issuer,
+          signature: receipt.signature,
+        },
+        token: receipt.token,
+        minAmount: body.minAmount,
+        maxAmount: body.maxAmount ?? null,
+        publicInputs: proof.publicInputs,
+        isRealProof: proof.isRealProof,
+        proof: Array.from(proof.proof),
+      },
+    });
+  } catch (error) {
+    if (error instanceof SalaryReceiptError) {
+      return NextResponse.json(
+        { error: 'Invalid salary receipt', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ProofGenerationError) {
+      return NextResponse.json(
+        { error: 'Real proof generation failed', circuitType: error.circuitType, message: error.message },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Income proof generation failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerComplianceService, createServerNoirProofService, SignedSalaryCommitment } from '@/lib';
+
+interface IncomeVerifyRequestBody {
+  proof?: number[];
+  publicInputs?: string[];
+  signedCommitment?: SignedSalaryCommitment;
+  walletAddress?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: IncomeVerifyRequestBody = await request.json();
+
+    if (!Array.isArray(body.proof) || !Array.isArray(body.publicInputs)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: proof, publicInputs' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.signedCommitment || typeof body.signedCommitment !== 'object') {
+      return NextResponse.json(
+        { error: 'Missing required field: signedCommitment' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.walletAddress || typeof body.walletAddress !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: walletAddress' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.minAmount !== 'number' || body.minAmount < 0) {
+      return NextResponse.json(
+        { error: 'Invalid or missing field: minAmount' },
+        { status: 400 }
+      );
+    }
+
+    if (body.maxAmount !== undefined && (typeof body.maxAmount !== 'number' || body.maxAmount < body.minAmount)) {
+      return NextResponse.json(
+        { error: 'Invalid field: maxAmount must be at least minAmount' },
+        { status: 400 }
+      );
+    }
+
+    const service = await createServerComplianceService();
+    const proofBytes = new Uint8Array(body.proof);
+    const result = await service.verifyIncomeProof({
+      proof: {
+        proof: proofBytes,
+        publicInputs: body.publicInputs,
+        isRealProof: !createServerNoirProofService().isMockProof(proofBytes),
+      },
+      commitment: body.signedCommitment,
+      walletAddress: body.walletAddress,
+      minAmount: body.minAmount,
+      maxAmount: body.maxAmount,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        isValid: result.isValid,
+        circuitType: 'salary_band',
+        commitment: body.signedCommitment.commitment,
+        issuer: body.signedCommitment.issuer,
+        error: result.error,
+        timestamp: Date.now(),
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Income proof verification failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerNoirProofService, ALL_CIRCUIT_TYPES, CircuitType } from '@/lib';
+
+export async function GET(request: NextRequest) {
+  try {
+    const circuitType = request.nextUrl.searchParams.get('circuitType') as CircuitType | null;
+    const version = request.nextUrl.searchParams.get('version') ?? undefined;
+
+    if (circuitType && !ALL_CIRCUIT_TYPES.includes(circuitType)) {
+      return NextResponse.json(
+        { error: `Invalid circuit type. Must be one of: ${ALL_CIRCUIT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (version && !circuitType) {
+      return NextResponse.json(
+        { error: 'version requires circuitType' },
+        { status: 400 }
+      );
+    }
+
+    const service = createServerNoirProofService();
+    const keys = circuitType
+      ? [await service.getVerificationKey(circuitType, version)]
+      : await service.exportVerificationKeys();
+
+    return NextResponse.json({
+      success: true,
+      data: { keys },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Verification key export failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,46 +1,106 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createNoirProofService, CircuitType } from '@/lib';
+import {
+  createServerNoirProofService,
+  getPublicInputClaims,
+  hashWalletAddress,
+  isDateNumber,
+  ALL_CIRCUIT_TYPES,
+  CircuitType,
+  PolicyClaims
+} from '@/lib';
+
+const HASH_CLAIMS: Array<keyof PolicyClaims> = [
+  'walletHash',
+  'issuerKeyHash',
+  'jurisdictionHash',
+  'rosterRoot',
+  'nullifier',
+  'salaryCommitment',
+];
 
 interface VerifyRequestBody {
   circuitType: CircuitType;
   proof: number[];
   publicInputs: string[];
+  expectedPublicInputs: PolicyClaims;
+  walletAddress?: string;
+  notBeforeDate?: number;
+  circuitVersion?: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: VerifyRequestBody = await request.json();
 
-    if (!body.circuitType || !body.proof || !body.publicInputs) {
+    if (!body.circuitType || !body.proof || !body.publicInputs || !body.expectedPublicInputs) {
+      return NextResponse.json(
+        { error: 'Missing required fields: circuitType, proof, publicInputs, expectedPublicInputs' },
+        { status: 400 }
+      );
+    }
+
+    if (!ALL_CIRCUIT_TYPES.includes(body.circuitType)) {
       return NextResponse.json(
-        { error: 'Missing required fields: circuitType, proof, publicInputs' },
+        { error: `Invalid circuit type. Must be one of: ${ALL_CIRCUIT_TYPES.join(', ')}` },
         { status: 400 }
       );
     }
 
-    const validCircuits: CircuitType[] = ['age_verification', 'risk_threshold', 'selective_disclosure'];
-    if (!validCircuits.includes(body.circuitType)) {
+    // A bare salary commitment proves nothing about who paid it
+    if (body.circuitType === 'salary_band') {
       return NextResponse.json(
-        { error: `Invalid circuit type. Must be one of: ${validCircuits.join(', ')}` },
+        { error: 'Salary band proofs must be verified with /api/proof/income/verify against a signed salary commitment' },
         { status: 400 }
       );
     }
 
-    const service = createNoirProofService();
+    const expectedPublicInputs: PolicyClaims = { ...body.expectedPublicInputs };
+    if (typeof body.walletAddress === 'string') {
+      expectedPublicInputs.walletHash = await hashWalletAddress(body.walletAddress);
+    }
+
+    if (body.notBeforeDate !== undefined && !isDateNumber(body.notBeforeDate)) {
+      return NextResponse.json(
+        { error: 'Invalid field: notBeforeDate must be a YYYYMMDD integer' },
+        { status: 400 }
+      );
+    }
+
+    // A minimum as-of date can stand in for an exact one
+    const requiredClaims = getPublicInputClaims(body.circuitType)
+      .filter(claim => claim !== 'asOfDate' || body.notBeforeDate === undefined);
+    const missingClaims = requiredClaims.filter(claim => HASH_CLAIMS.includes(claim)
+      ? typeof expectedPublicInputs[claim] !== 'string'
+      : !Number.isInteger(expectedPublicInputs[claim]));
+    if (missingClaims.length > 0) {
+      return NextResponse.json(
+        { error: `Missing or invalid expectedPublicInputs: ${missingClaims.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const service = createServerNoirProofService();
+    const proofBytes = new Uint8Array(body.proof);
     
     const proof = {
-      proof: new Uint8Array(body.proof),
+      proof: proofBytes,
       publicInputs: body.publicInputs,
-      isRealProof: false,
+      isRealProof: !service.isMockProof(proofBytes),
+      circuitVersion: typeof body.circuitVersion === 'string' ? body.circuitVersion : undefined,
     };
 
-    const result = await service.verifyProof(body.circuitType, proof);
+    const result = await service.verifyProof(body.circuitType, proof, {
+      expectedPublicInputs,
+      notBeforeDate: body.notBeforeDate,
+    });
 
     return NextResponse.json({
       success: true,
       data: {
         isValid: result.isValid,
+        isRealProof: proof.isRealProof,
         circuitType: body.circuitType,
+        circuitVersion: proof.circuitVersion,
         error: result.error,
         timestamp: Date.now(),
       },
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerNoirProofService, createServerRosterService, RosterError } from '@/lib';
+
+interface ClaimRequestBody {
+  rosterRoot?: string;
+  payPeriod?: number;
+  proof?: number[];
+  publicInputs?: string[];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ClaimRequestBody = await request.json();
+
+    if (typeof body.rosterRoot !== 'string' || typeof body.payPeriod !== 'number' ||
+        !Array.isArray(body.proof) || !Array.isArray(body.publicInputs)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: rosterRoot, payPeriod, proof, publicInputs' },
+        { status: 400 }
+      );
+    }
+
+    const service = createServerRosterService();
+    const proofBytes = new Uint8Array(body.proof);
+    const record = await service.claim(body.rosterRoot, body.payPeriod, {
+      proof: proofBytes,
+      publicInputs: body.publicInputs,
+      isRealProof: !createServerNoirProofService().isMockProof(proofBytes),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: record,
+    });
+  } catch (error) {
+    if (error instanceof RosterError) {
+      return NextResponse.json(
+        { error: 'Roster claim rejected', code: error.code, message: error.message },
+        { status: error.code === 'already_claimed' ? 409 : error.code === 'unknown_roster' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Roster claim failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerRosterService, RosterError, RosterMember } from '@/lib';
+
+/**
+ * Returns an employee's Merkle path on the roster. The employee proves
+ * membership on their own device with `RosterService.proveMembership`, so
+ * their nullifier secret never reaches this server.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: {
+      employees?: RosterMember[];
+      walletAddress?: string;
+      nullifierSecret?: unknown;
+    } = await request.json();
+
+    if (body.nullifierSecret !== undefined) {
+      return NextResponse.json(
+        { error: 'nullifierSecret must not be sent to the server; prove membership on the employee device' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.employees) ||
+        body.employees.some(e => typeof e?.wallet !== 'string' || typeof e?.nullifierCommitment !== 'string')) {
+      return NextResponse.json(
+        { error: 'Invalid or missing field: employees must be a list with wallet addresses and nullifier commitments' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.walletAddress || typeof body.walletAddress !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: walletAddress' },
+        { status: 400 }
+      );
+    }
+
+    const service = createServerRosterService();
+    const roster = await service.buildRoster(body.employees);
+    const membership = await roster.getMembershipPath(body.walletAddress);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...membership,
+        rosterSize: roster.size,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RosterError) {
+      return NextResponse.json(
+        { error: 'Wallet is not on the roster', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Roster path lookup failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerRosterService, RosterError } from '@/lib';
+
+interface PublishRequestBody {
+  rosterRoot?: string;
+  employer?: string;
+  signature?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: PublishRequestBody = await request.json();
+
+    if (typeof body.rosterRoot !== 'string' || !/^0x[0-9a-fA-F]{1,64}$/.test(body.rosterRoot)) {
+      return NextResponse.json(
+        { error: 'Invalid or missing field: rosterRoot must be a hex field element' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.employer !== 'string' || typeof body.signature !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: employer, signature' },
+        { status: 400 }
+      );
+    }
+
+    const service = createServerRosterService();
+    const record = await service.publishRoot({
+      rosterRoot: body.rosterRoot,
+      employer: body.employer,
+      signature: body.signature,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: record,
+    });
+  } catch (error) {
+    if (error instanceof RosterError) {
+      return NextResponse.json(
+        { error: 'Roster publication not authorised', message: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Roster publication failed', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createComplianceService, SupportedToken } from '@/lib';
+import { createServerComplianceService, SupportedToken, SolanaCluster, SOLANA_CLUSTERS, isSolanaCluster } from '@/lib';
 
 interface TransferRequestBody {
   senderAddress: string;
@@ -7,6 +7,8 @@ interface TransferRequestBody {
   amount: number;
   token: SupportedToken;
   requireCompliance?: boolean;
+  policy?: string;
+  network?: SolanaCluster;
 }
 
 export async function POST(request: NextRequest) {
@@ -30,14 +32,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const rangeApiKey = process.env.RANGE_API_KEY;
-    const useMock = !rangeApiKey || process.env.USE_MOCK_RANGE === 'true';
+    if (body.network !== undefined && !isSolanaCluster(body.network)) {
+      return NextResponse.json(
+        { error: `Invalid network: must be one of ${SOLANA_CLUSTERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    const service = createComplianceService({
-      rangeApiKey: rangeApiKey ?? 'mock',
-      useMockRange: useMock,
-      maxRiskThreshold: Number(process.env.MAX_RISK_THRESHOLD) || 5,
-    });
+    const service = await createServerComplianceService(body.network);
 
     const result = await service.executePrivateTransfer({
       senderAddress: body.senderAddress,
@@ -45,6 +47,7 @@ export async function POST(request: NextRequest) {
       amount: body.amount,
       token: body.token,
       requireCompliance: body.requireCompliance ?? true,
+      policy: body.policy,
     });
 
     if (!result.success) {
@@ -53,6 +56,8 @@ export async function POST(request: NextRequest) {
           success: false, 
           error: result.error,
           recipientCompliance: result.recipientCompliance,
+          policyVerdict: result.policyVerdict,
+          network: result.network,
         },
         { status: 400 }
       );
@@ -62,6 +67,10 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         transferResult: result.transferResult,
+        salaryReceipt: result.salaryReceipt,
+        recipientOverride: result.recipientCompliance?.override,
+        policyVerdict: result.policyVerdict,
+        network: result.network,
         timestamp: Date.now(),
       },
     });
@@ -1,18 +1,25 @@
 'use client';
 
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { createContext, useContext, useMemo, useState, useEffect } from 'react';
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
-import { clusterApiUrl } from '@solana/web3.js';
+import { NetworkConfig, resolveNetwork } from '../../lib/network';
 
 import '@solana/wallet-adapter-react-ui/styles.css';
 
+const NetworkContext = createContext<NetworkConfig>(resolveNetwork());
+
+export function useNetwork(): NetworkConfig {
+  return useContext(NetworkContext);
+}
+
 export default function AppWalletProvider({ children }: { children: React.ReactNode }) {
   const [mounted, setMounted] = useState(false);
-  const network = WalletAdapterNetwork.Devnet;
-  const endpoint = useMemo(() => clusterApiUrl(network), [network]);
+  const network = useMemo(
+    () => resolveNetwork(process.env.NEXT_PUBLIC_SOLANA_CLUSTER, process.env.NEXT_PUBLIC_SOLANA_RPC_URL),
+    []
+  );
 
   const wallets = useMemo(
     () => [
@@ -27,14 +34,16 @@ export default function AppWalletProvider({ children }: { children: React.ReactN
   }, []);
 
   if (!mounted) {
-    return <>{children}</>;
+    return <NetworkContext.Provider value={network}>{children}</NetworkContext.Provider>;
   }
 
   return (
-    <ConnectionProvider endpoint={endpoint}>
-      <WalletProvider wallets={wallets} autoConnect={false}>
-        <WalletModalProvider>{children}</WalletModalProvider>
-      </WalletProvider>
-    </ConnectionProvider>
+    <NetworkContext.Provider value={network}>
+      <ConnectionProvider endpoint={network.rpcUrl}>
+        <WalletProvider wallets={wallets} autoConnect={false}>
+          <WalletModalProvider>{children}</WalletModalProvider>
+        </WalletProvider>
+      </ConnectionProvider>
+    </NetworkContext.Provider>
   );
 }
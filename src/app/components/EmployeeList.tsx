@@ -47,6 +47,15 @@ export function EmployeeList({ employees, onParseCSV, onClear, onCheckCompliance
     }
   };
 
+  const getTrendDisplay = (trend: Employee['riskTrend']) => {
+    switch (trend) {
+      case 'rising': return { icon: '▲', color: 'text-red-400' };
+      case 'falling': return { icon: '▼', color: 'text-emerald-400' };
+      case 'stable': return { icon: '■', color: 'text-zinc-500' };
+      default: return { icon: '•', color: 'text-zinc-600' };
+    }
+  };
+
   const totalAmount = employees.reduce((s, e) => s + e.amount, 0);
 
   return (
@@ -135,6 +144,19 @@ export function EmployeeList({ employees, onParseCSV, onClear, onCheckCompliance
                     </div>
                   </div>
                 </div>
+                {emp.riskScore !== undefined && (
+                  <div
+                    className="ml-auto mr-4 text-right"
+                    title={`Risk trend: ${emp.riskTrend ?? 'new'}`}
+                  >
+                    <div className={`text-xs font-mono ${getTrendDisplay(emp.riskTrend).color}`}>
+                      {getTrendDisplay(emp.riskTrend).icon} {emp.riskScore}/10
+                    </div>
+                    <div className="text-[10px] font-mono uppercase text-zinc-600">
+                      {emp.riskTrend ?? 'new'}
+                    </div>
+                  </div>
+                )}
                 <div className="text-right">
                   <div className="text-sm font-mono text-emerald-400">{emp.amount} SOL</div>
                   <div className={`text-[10px] font-mono uppercase ${
@@ -0,0 +1,22 @@
+'use client';
+
+import { useNetwork } from './AppWalletProvider';
+
+export function NetworkBadge() {
+  const { cluster, rpcUrl } = useNetwork();
+  const isMainnet = cluster === 'mainnet-beta';
+
+  return (
+    <div
+      title={rpcUrl}
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border ${
+        isMainnet ? 'bg-orange-500/10 border-orange-500/20' : 'bg-zinc-900 border-zinc-800'
+      }`}
+    >
+      <span className={`w-2 h-2 rounded-full ${isMainnet ? 'bg-orange-500' : 'bg-cyan-500'}`} />
+      <span className={`text-xs font-mono uppercase ${isMainnet ? 'text-orange-400' : 'text-zinc-400'}`}>
+        {cluster}
+      </span>
+    </div>
+  );
+}
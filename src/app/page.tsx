@@ -13,6 +13,9 @@ import {
   calculatePrivacyScore,
   createKeypairSigner 
 } from '../lib/privacy-utils';
+import type { SalaryReceipt } from '../lib/compliance-service';
+import { NetworkBadge } from './components/NetworkBadge';
+import type { Employee } from './types';
 
 let logIdCounter = 0;
 function generateLogId(): string {
@@ -27,14 +30,6 @@ interface LogEntry {
   type: 'info' | 'success' | 'error' | 'warning' | 'system';
 }
 
-interface Employee {
-  id: string;
-  wallet: string;
-  amount: number;
-  name: string;
-  status: 'pending' | 'processing' | 'paid' | 'failed';
-}
-
 interface ScheduledWithdrawal {
   id: string;
   amount: number;
@@ -110,6 +105,9 @@ export default function ShadowPay() {
   const [withdrawAmount, setWithdrawAmount] = useState('');
   const [isWithdrawing, setIsWithdrawing] = useState(false);
   const [showSalary, setShowSalary] = useState(false);
+  const [salaryReceiptInput, setSalaryReceiptInput] = useState('');
+  const [incomeMinimum, setIncomeMinimum] = useState('');
+  const [isProvingIncome, setIsProvingIncome] = useState(false);
   const [usePrivateWithdraw, setUsePrivateWithdraw] = useState(true);
   const [scheduledWithdrawals, setScheduledWithdrawals] = useState<ScheduledWithdrawal[]>([]);
   const [splitPreview, setSplitPreview] = useState<number[]>([]);
@@ -346,15 +344,40 @@ export default function ShadowPay() {
     const total = parsed.reduce((s, e) => s + e.amount, 0);
     log(`[CSV] Parsed ${parsed.length} employees, total: ${total.toFixed(2)} SOL`, 'success');
     
-    if (demoMode) {
-      log('[RANGE] Checking employee wallet compliance...', 'info');
-      for (let i = 0; i < parsed.length; i++) {
-        await new Promise(r => setTimeout(r, 300));
-        const riskScore = Math.floor(Math.random() * 3);
-        log(`[RANGE] ✓ ${parsed[i].name} wallet compliant (risk: ${riskScore}/10)`, 'success');
+    log('[RANGE] Checking employee wallet compliance...', 'info');
+    setComplianceStatus('checking');
+    let allCompliant = true;
+    for (const emp of parsed) {
+      setEmployees(prev => prev.map(e => e.id === emp.id ? { ...e, complianceStatus: 'checking' } : e));
+      try {
+        const response = await fetch('/api/compliance/check', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ address: emp.wallet, role: 'recipient' }),
+        });
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.message ?? body.error);
+        const { isCompliant, riskScore, riskTrend } = body.data;
+        setEmployees(prev => prev.map(e => e.id === emp.id
+          ? { ...e, complianceStatus: isCompliant ? 'compliant' : 'non-compliant', riskScore, riskTrend }
+          : e));
+        if (isCompliant) {
+          log(`[RANGE] ✓ ${emp.name} wallet compliant (risk: ${riskScore}/10, ${riskTrend})`, 'success');
+        } else {
+          allCompliant = false;
+          log(`[RANGE] ✗ ${emp.name} wallet non-compliant (risk: ${riskScore}/10, ${riskTrend})`, 'error');
+        }
+      } catch (err) {
+        allCompliant = false;
+        setEmployees(prev => prev.map(e => e.id === emp.id ? { ...e, complianceStatus: 'unchecked' } : e));
+        log(`[RANGE] ${emp.name} compliance check failed: ${err instanceof Error ? err.message : 'Unknown'}`, 'error');
       }
+    }
+    if (allCompliant) {
       log('[RANGE] All recipients verified - no sanctioned wallets detected', 'system');
       setComplianceStatus('compliant');
+    } else {
+      setComplianceStatus('failed');
     }
   };
 
@@ -462,6 +485,50 @@ export default function ShadowPay() {
     fetchBalances();
   };
 
+  // Prove the latest salary meets a threshold without revealing the amount
+  const generateIncomeProof = async () => {
+    const minAmount = parseFloat(incomeMinimum);
+    if (isNaN(minAmount) || minAmount < 0) {
+      log('[INCOME] Invalid minimum amount', 'error');
+      return;
+    }
+
+    // Receipts come signed from the payroll transfer; the browser cannot mint one
+    let receipt: SalaryReceipt;
+    try {
+      receipt = JSON.parse(salaryReceiptInput);
+    } catch {
+      log('[INCOME] Paste the signed salary receipt from your payroll transfer', 'error');
+      return;
+    }
+    if (!demoMode && receipt.recipient !== publicKey?.toBase58()) {
+      log('[INCOME] Salary receipt belongs to a different wallet', 'error');
+      return;
+    }
+
+    setIsProvingIncome(true);
+    log('[INCOME] ═══════════════════════════════════════', 'system');
+    log(`[INCOME] Proving salary ≥ ${minAmount} ${receipt.token} from payroll commitment...`, 'info');
+
+    try {
+      const response = await fetch('/api/proof/income', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ receipt, minAmount }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.message ?? body.error);
+
+      log(`[NOIR] Commitment: ${body.data.commitment.slice(0, 18)}... signed by ${body.data.signedCommitment.issuer.slice(0, 8)}...`, 'info');
+      log(`[NOIR] ✓ salary_band proof generated (${body.data.isRealProof ? 'UltraHonk' : 'mock'})`, 'success');
+      log('[INCOME] Share the proof with a lender or landlord. Exact salary stays hidden.', 'system');
+    } catch (err) {
+      log(`[INCOME] ✗ ${err instanceof Error ? err.message : 'Proof generation failed'}`, 'error');
+    } finally {
+      setIsProvingIncome(false);
+    }
+  };
+
   // Real withdrawal (or demo mode simulation)
   const handleWithdraw = async () => {
     const amount = parseFloat(withdrawAmount);
@@ -1022,6 +1089,7 @@ export default function ShadowPay() {
                 <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
                 <span className="text-xs font-mono text-emerald-400">NO LOGGING</span>
               </div>
+              <NetworkBadge />
               <WalletMultiButton className="!bg-zinc-900 !border !border-zinc-800 hover:!border-emerald-500 !rounded-lg !font-mono !text-xs !h-10" />
             </div>
           </div>
@@ -1239,6 +1307,21 @@ export default function ShadowPay() {
                             <div className="text-[10px] font-mono text-zinc-600">{emp.wallet.slice(0, 8)}...{emp.wallet.slice(-4)}</div>
                           </div>
                         </div>
+                        {emp.riskScore !== undefined && (
+                          <div className="ml-auto mr-4 text-right" title={`Risk trend: ${emp.riskTrend ?? 'new'}`}>
+                            <div className={`text-xs font-mono ${
+                              emp.riskTrend === 'rising' ? 'text-red-400' :
+                              emp.riskTrend === 'falling' ? 'text-emerald-400' :
+                              emp.riskTrend === 'stable' ? 'text-zinc-500' :
+                              'text-zinc-600'
+                            }`}>
+                              {emp.riskTrend === 'rising' ? '▲' : emp.riskTrend === 'falling' ? '▼' : emp.riskTrend === 'stable' ? '■' : '•'} {emp.riskScore}/10
+                            </div>
+                            <div className={`text-[10px] font-mono uppercase ${emp.complianceStatus === 'non-compliant' ? 'text-red-500' : 'text-zinc-600'}`}>
+                              {emp.complianceStatus === 'non-compliant' ? 'non-compliant' : emp.riskTrend ?? 'new'}
+                            </div>
+                          </div>
+                        )}
                         <div className="text-right">
                           <div className="text-sm font-mono text-emerald-400">{emp.amount} SOL</div>
                           <div className={`text-[10px] font-mono uppercase ${
@@ -1300,7 +1383,10 @@ export default function ShadowPay() {
               </div>
             </div>
           </div>
-          <WalletMultiButton className="!bg-zinc-900 !border !border-zinc-800 hover:!border-cyan-500 !rounded-lg !font-mono !text-xs !h-10" />
+          <div className="flex items-center gap-4">
+            <NetworkBadge />
+            <WalletMultiButton className="!bg-zinc-900 !border !border-zinc-800 hover:!border-cyan-500 !rounded-lg !font-mono !text-xs !h-10" />
+          </div>
         </div>
       </header>
 
@@ -1345,6 +1431,30 @@ export default function ShadowPay() {
                 </button>
               </div>
 
+              <textarea
+                value={salaryReceiptInput}
+                onChange={(e) => setSalaryReceiptInput(e.target.value)}
+                placeholder="Signed salary receipt (JSON)"
+                rows={3}
+                className="w-full mb-3 px-4 py-2 rounded-lg bg-black border border-zinc-800 text-white font-mono text-xs focus:border-cyan-500 focus:outline-none transition-colors"
+              />
+              <div className="flex gap-3 mb-6">
+                <input
+                  type="number"
+                  value={incomeMinimum}
+                  onChange={(e) => setIncomeMinimum(e.target.value)}
+                  placeholder="Min salary (SOL)"
+                  className="flex-1 px-4 py-2 rounded-lg bg-black border border-zinc-800 text-white font-mono text-sm focus:border-cyan-500 focus:outline-none transition-colors"
+                />
+                <button
+                  onClick={generateIncomeProof}
+                  disabled={isProvingIncome || !incomeMinimum || !salaryReceiptInput}
+                  className="px-4 py-2 rounded-lg border border-zinc-800 text-zinc-400 hover:border-cyan-500 hover:text-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="text-xs font-mono uppercase">{isProvingIncome ? 'Proving...' : 'Income Proof'}</span>
+                </button>
+              </div>
+
               <div className="flex items-center gap-3 p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
                 <svg className="w-5 h-5 text-emerald-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                   <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
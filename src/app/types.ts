@@ -13,6 +13,7 @@ export interface Employee {
   status: 'pending' | 'processing' | 'paid' | 'failed';
   complianceStatus?: 'unchecked' | 'checking' | 'compliant' | 'non-compliant';
   riskScore?: number;
+  riskTrend?: 'new' | 'rising' | 'falling' | 'stable';
 }
 
 export interface ScheduledWithdrawal {
@@ -0,0 +1,7 @@
+export async function register() {
+  // Start the wallet monitor's schedule when the server boots, not on the first monitoring request
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { createServerWalletMonitor } = await import('./lib/server-config');
+    await createServerWalletMonitor().catch(error => console.warn('Wallet monitor failed to start:', error));
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { AttestationIssuer, SignedAttestation, loadIssuerKeyFile, verifySignedAttestation } from './attestation-document';
+import type { AttestationResult } from './compliance-service';
+import { NoirProofService, hashWalletAddress } from './noir-proof-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function attestation(
+  proofService: NoirProofService,
+  thresholds = { minimumAge: 18, maxRiskScore: 5, minBalanceUsd: 0 },
+  provenWallet = 'WalletA',
+  isCompliant = true
+): Promise<AttestationResult> {
+  const walletHash = await hashWalletAddress(provenWallet);
+  return {
+    isCompliant,
+    attestationId: 'att_test_0001',
+    walletAddress: 'WalletA',
+    timestamp: 1_700_000_000_000,
+    proofs: {
+      age: await proofService.generateAgeProof({ age: 25, minimumAge: 18 }),
+      risk: await proofService.generateRiskProof({ riskScore: 2, maxAllowedRisk: 5 }),
+      selectiveDisclosure: await proofService.generateSelectiveDisclosureProof({
+        age: 25,
+        riskScore: 2,
+        isSanctioned: false,
+        walletBalanceUsd: 100,
+        minimumAge: 18,
+        maxRiskScore: 5,
+        minBalanceUsd: 0,
+        walletHash,
+      }),
+    },
+    complianceCheck: {} as never,
+    network: 'devnet',
+    ownershipVerified: true,
+    ageSource: 'self_reported',
+    publicInputs: { ...thresholds, walletHash },
+    policyVerdict: { policy: 'payroll', passed: true, rules: [], evaluatedAt: 1_700_000_000_000 },
+  };
+}
+
+describe('AttestationIssuer', () => {
+  let now: number;
+  let proofService: NoirProofService;
+  let issuer: AttestationIssuer;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    proofService = new NoirProofService({ useRealProofs: false });
+    issuer = new AttestationIssuer({
+      secretKey: Keypair.generate().secretKey,
+      ttlMs: DAY_MS,
+      proofService,
+      now: () => now,
+    });
+  });
+
+  it('should issue a signed document bound to the wallet, policy and expiry', async () => {
+    const document = await issuer.issue(await attestation(proofService));
+
+    expect(document.format).toBe('shadowpay-attestation');
+    expect(document.payload.issuer).toBe(issuer.getPublicKey());
+    expect(document.payload.subject).toBe('WalletA');
+    expect(document.payload.policy).toBe('payroll');
+    expect(document.payload.expiresAt).toBe(now + DAY_MS);
+    expect(document.payload.proofs.map(p => p.circuitType)).toEqual([
+      'age_verification',
+      'risk_threshold',
+      'selective_disclosure',
+    ]);
+    expect(document.payload.proofs[0].circuitVersion).toBeDefined();
+    expect(document.payload.proofs[0].proofHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should verify the signature, expiry and every embedded proof', async () => {
+    const document = await issuer.issue(await attestation(proofService));
+
+    const result = await verifySignedAttestation(document, {
+      trustedIssuers: [issuer.getPublicKey()],
+      proofService,
+      now: () => now + 1000,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.isCompliant).toBe(true);
+    expect(result.proofs.every(p => p.isValid)).toBe(true);
+  });
+
+  it('should reject a document whose payload was altered', async () => {
+    const document = await issuer.issue(await attestation(proofService));
+    const tampered: SignedAttestation = { ...document, payload: { ...document.payload, subject: 'WalletB' } };
+
+    const result = await verifySignedAttestation(tampered, { proofService, now: () => now });
+
+    expect(result.isValid).toBe(false);
+    expect(result.signatureValid).toBe(false);
+  });
+
+  it('should reject expired documents and untrusted issuers', async () => {
+    const document = await issuer.issue(await attestation(proofService));
+
+    const result = await verifySignedAttestation(document, {
+      trustedIssuers: [Keypair.generate().publicKey.toBase58()],
+      proofService,
+      now: () => now + DAY_MS,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.signatureValid).toBe(true);
+    expect(result.expired).toBe(true);
+    expect(result.trustedIssuer).toBe(false);
+  });
+
+  it('should reject a signed document for a non-compliant wallet', async () => {
+    const document = await issuer.issue(await attestation(proofService, undefined, undefined, false));
+
+    const result = await verifySignedAttestation(document, { proofService, now: () => now });
+
+    expect(result.signatureValid).toBe(true);
+    expect(result.isCompliant).toBe(false);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['Attestation does not certify the subject as compliant']);
+  });
+
+  it('should reject proofs that do not back the attested public inputs', async () => {
+    const document = await issuer.issue(
+      await attestation(proofService, { minimumAge: 21, maxRiskScore: 5, minBalanceUsd: 0 })
+    );
+
+    const result = await verifySignedAttestation(document, { proofService, now: () => now });
+
+    expect(result.signatureValid).toBe(true);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('age_verification: Public input minimumAge is 18, expected 21');
+  });
+
+  it('should reject a selective disclosure proof bound to another wallet', async () => {
+    const document = await issuer.issue(await attestation(proofService, undefined, 'WalletB'));
+
+    const result = await verifySignedAttestation(document, { proofService, now: () => now });
+
+    expect(result.signatureValid).toBe(true);
+    expect(result.isValid).toBe(false);
+    expect(result.proofs.find(p => p.circuitType === 'selective_disclosure')?.error).toContain('walletHash');
+  });
+});
+
+describe('loadIssuerKeyFile', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'attestation-issuer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should generate a key once and reload it afterwards', async () => {
+    const filePath = path.join(dir, 'keys', 'issuer.json');
+
+    const created = await loadIssuerKeyFile(filePath);
+    const loaded = await loadIssuerKeyFile(filePath);
+
+    expect(created).toHaveLength(64);
+    expect(Array.from(loaded)).toEqual(Array.from(created));
+  });
+
+  it('should hand every concurrent first caller the same key', async () => {
+    const filePath = path.join(dir, 'issuer.json');
+
+    const keys = await Promise.all(Array.from({ length: 5 }, () => loadIssuerKeyFile(filePath)));
+
+    expect(new Set(keys.map(key => Buffer.from(key).toString('hex'))).size).toBe(1);
+    expect(await fs.readdir(dir)).toEqual(['issuer.json']);
+  });
+});
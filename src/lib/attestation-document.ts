@@ -0,0 +1,336 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import type { AttestationStatus } from './attestation-registry';
+import { canonicalJson } from './canonical-json';
+import type { AttestationResult } from './compliance-service';
+import type { SolanaCluster } from './network';
+import {
+  CircuitType,
+  GeneratedProof,
+  NoirProofService,
+  createNoirProofService,
+  hashWalletAddress
+} from './noir-proof-service';
+
+export const ATTESTATION_FORMAT = 'shadowpay-attestation';
+export const DEFAULT_ATTESTATION_TTL_MS = 24 * 60 * 60 * 1000;
+export const SALARY_RECEIPT_FORMAT = 'shadowpay-salary-receipt';
+
+export interface AttestationProofReference {
+  circuitType: CircuitType;
+  circuitVersion: string;
+  proofHash: string;
+  proof: string;
+  publicInputs: string[];
+  isRealProof: boolean;
+}
+
+export interface AttestationClaims {
+  id: string;
+  issuer: string;
+  subject: string;
+  network: SolanaCluster;
+  issuedAt: number;
+  expiresAt: number;
+  policy: string | null;
+  isCompliant: boolean;
+  publicInputs: AttestationResult['publicInputs'];
+  proofs: AttestationProofReference[];
+}
+
+export interface SignedAttestation {
+  format: typeof ATTESTATION_FORMAT;
+  version: 1;
+  algorithm: 'Ed25519';
+  payload: AttestationClaims;
+  signature: string;
+}
+
+/**
+ * The shareable half of a salary receipt: the issuer's signature over the
+ * salary commitment of a completed payroll transfer. Amount and salt stay
+ * with the employee.
+ */
+export interface SignedSalaryCommitment {
+  commitment: string;
+  token: string;
+  transactionId?: string;
+  paidAt: number;
+  issuer: string;
+  signature: string;
+}
+
+export interface ProofCheck {
+  circuitType: CircuitType;
+  isValid: boolean;
+  error?: string;
+}
+
+export interface AttestationVerification {
+  isValid: boolean;
+  /** What the issuer attested; a document for a non-compliant wallet is never valid. */
+  isCompliant: boolean;
+  signatureValid: boolean;
+  trustedIssuer: boolean;
+  expired: boolean;
+  proofs: ProofCheck[];
+  errors: string[];
+  registryStatus?: AttestationStatus;
+}
+
+export interface AttestationIssuerConfig {
+  secretKey: Uint8Array;
+  ttlMs?: number;
+  proofService?: NoirProofService;
+  now?: () => number;
+}
+
+export interface VerifyAttestationOptions {
+  trustedIssuers?: string[];
+  proofService?: NoirProofService;
+  now?: () => number;
+}
+
+const PROOF_CIRCUITS: Record<keyof AttestationResult['proofs'], CircuitType> = {
+  age: 'age_verification',
+  birthDateAge: 'birthdate_age',
+  risk: 'risk_threshold',
+  selectiveDisclosure: 'selective_disclosure',
+  credentialAge: 'credential_age',
+  jurisdiction: 'jurisdiction',
+};
+
+/**
+ * Signs attestations as Ed25519 documents. The issuer key uses the Solana
+ * keypair layout, so the issuer ID is its base58 public key.
+ */
+export class AttestationIssuer {
+  private keypair: Keypair;
+  private ttlMs: number;
+  private proofService: NoirProofService;
+  private now: () => number;
+
+  constructor(config: AttestationIssuerConfig) {
+    this.keypair = Keypair.fromSecretKey(config.secretKey);
+    this.ttlMs = config.ttlMs ?? DEFAULT_ATTESTATION_TTL_MS;
+    this.proofService = config.proofService ?? createNoirProofService();
+    this.now = config.now ?? Date.now;
+  }
+
+  getPublicKey(): string {
+    return this.keypair.publicKey.toBase58();
+  }
+
+  async issue(attestation: AttestationResult): Promise<SignedAttestation> {
+    const proofs: AttestationProofReference[] = [];
+    for (const [key, circuitType] of Object.entries(PROOF_CIRCUITS) as Array<[keyof AttestationResult['proofs'], CircuitType]>) {
+      const proof = attestation.proofs[key];
+      if (proof) {
+        proofs.push(await this.proofReference(circuitType, proof));
+      }
+    }
+
+    const issuedAt = this.now();
+    const payload: AttestationClaims = {
+      id: attestation.attestationId,
+      issuer: this.getPublicKey(),
+      subject: attestation.walletAddress,
+      network: attestation.network,
+      issuedAt,
+      expiresAt: issuedAt + this.ttlMs,
+      policy: attestation.policyVerdict?.policy ?? null,
+      isCompliant: attestation.isCompliant,
+      publicInputs: attestation.publicInputs,
+      proofs,
+    };
+
+    const signature = nacl.sign.detached(signingBytes(payload), this.keypair.secretKey);
+    return {
+      format: ATTESTATION_FORMAT,
+      version: 1,
+      algorithm: 'Ed25519',
+      payload,
+      signature: Buffer.from(signature).toString('base64'),
+    };
+  }
+
+  /** Signs the commitment of a payroll transfer that has completed. */
+  signSalaryCommitment(claims: Omit<SignedSalaryCommitment, 'issuer' | 'signature'>): SignedSalaryCommitment {
+    const unsigned = { ...claims, issuer: this.getPublicKey() };
+    const signature = nacl.sign.detached(salaryCommitmentBytes(unsigned), this.keypair.secretKey);
+    return { ...unsigned, signature: Buffer.from(signature).toString('base64') };
+  }
+
+  private async proofReference(circuitType: CircuitType, proof: GeneratedProof): Promise<AttestationProofReference> {
+    return {
+      circuitType,
+      circuitVersion: proof.circuitVersion ?? await this.proofService.getCircuitVersion(circuitType),
+      proofHash: sha256Hex(proof.proof),
+      proof: Buffer.from(proof.proof).toString('base64'),
+      publicInputs: proof.publicInputs,
+      isRealProof: proof.isRealProof,
+    };
+  }
+}
+
+/**
+ * Checks the issuer signature, the issuer against `trustedIssuers` (when
+ * given), the expiry, the attested compliance, and every embedded proof
+ * against the attested public inputs and the subject's wallet hash. All checks run so the caller sees
+ * every failure at once.
+ */
+export async function verifySignedAttestation(
+  document: SignedAttestation,
+  options: VerifyAttestationOptions = {}
+): Promise<AttestationVerification> {
+  const proofService = options.proofService ?? createNoirProofService();
+  const now = (options.now ?? Date.now)();
+  const errors: string[] = [];
+
+  if (document?.format !== ATTESTATION_FORMAT || document.version !== 1 || !document.payload) {
+    return {
+      isValid: false,
+      isCompliant: false,
+      signatureValid: false,
+      trustedIssuer: false,
+      expired: false,
+      proofs: [],
+      errors: ['Not a ShadowPay attestation document'],
+    };
+  }
+
+  const { payload } = document;
+  const signatureValid = verifySignature(document);
+  if (!signatureValid) errors.push('Invalid issuer signature');
+
+  const trustedIssuer = !options.trustedIssuers || options.trustedIssuers.includes(payload.issuer);
+  if (!trustedIssuer) errors.push(`Untrusted issuer: ${payload.issuer}`);
+
+  const expired = now >= payload.expiresAt;
+  if (expired) errors.push(`Attestation expired at ${new Date(payload.expiresAt).toISOString()}`);
+
+  const isCompliant = payload.isCompliant === true;
+  if (!isCompliant) errors.push('Attestation does not certify the subject as compliant');
+
+  const expectedPublicInputs = { ...payload.publicInputs, walletHash: await hashWalletAddress(payload.subject) };
+  const proofs: ProofCheck[] = [];
+  for (const reference of payload.proofs) {
+    const check = await checkProof(reference, expectedPublicInputs, proofService);
+    if (!check.isValid) errors.push(`${reference.circuitType}: ${check.error ?? 'invalid proof'}`);
+    proofs.push(check);
+  }
+  if (proofs.length === 0) errors.push('Attestation contains no proofs');
+
+  return {
+    isValid: errors.length === 0,
+    isCompliant,
+    signatureValid,
+    trustedIssuer,
+    expired,
+    proofs,
+    errors,
+  };
+}
+
+async function checkProof(
+  reference: AttestationProofReference,
+  publicInputs: AttestationClaims['publicInputs'],
+  proofService: NoirProofService
+): Promise<ProofCheck> {
+  const { circuitType } = reference;
+  const proof = new Uint8Array(Buffer.from(reference.proof, 'base64'));
+
+  if (sha256Hex(proof) !== reference.proofHash) {
+    return { circuitType, isValid: false, error: 'Proof bytes do not match proofHash' };
+  }
+
+  const result = await proofService.verifyProof(
+    circuitType,
+    {
+      proof,
+      publicInputs: reference.publicInputs,
+      isRealProof: reference.isRealProof,
+      // Older circuit versions stay registered, so the proof is checked against the version that produced it
+      circuitVersion: reference.circuitVersion === 'unknown' ? undefined : reference.circuitVersion,
+    },
+    { expectedPublicInputs: publicInputs }
+  );
+  return { circuitType, ...result };
+}
+
+function verifySignature(document: SignedAttestation): boolean {
+  try {
+    const issuer = new PublicKey(document.payload.issuer);
+    const signature = new Uint8Array(Buffer.from(document.signature, 'base64'));
+    return nacl.sign.detached.verify(signingBytes(document.payload), signature, issuer.toBytes());
+  } catch {
+    return false;
+  }
+}
+
+/** Checks the issuer's signature on a salary commitment; the caller decides whether to trust the issuer. */
+export function verifySalaryCommitmentSignature(signed: SignedSalaryCommitment): boolean {
+  try {
+    // A full salary receipt also carries the amount and salt, which are not signed
+    const { commitment, token, transactionId, paidAt } = signed;
+    const claims = { commitment, token, transactionId, paidAt, issuer: signed.issuer };
+    const issuer = new PublicKey(signed.issuer);
+    const bytes = new Uint8Array(Buffer.from(signed.signature, 'base64'));
+    return bytes.length === nacl.sign.signatureLength &&
+      nacl.sign.detached.verify(salaryCommitmentBytes(claims), bytes, issuer.toBytes());
+  } catch {
+    return false;
+  }
+}
+
+// The format tag keeps a salary signature from passing as an attestation signature
+function salaryCommitmentBytes(claims: Omit<SignedSalaryCommitment, 'signature'>): Uint8Array {
+  return new TextEncoder().encode(canonicalJson({ format: SALARY_RECEIPT_FORMAT, ...claims }));
+}
+
+/** Serializes the payload with sorted keys so signatures survive re-encoding. */
+function signingBytes(payload: AttestationClaims): Uint8Array {
+  return new TextEncoder().encode(canonicalJson(payload));
+}
+
+function sha256Hex(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Loads an issuer secret key stored as a Solana keypair file (a JSON array of
+ * 64 bytes), generating and saving a new one if the file does not exist.
+ */
+export async function loadIssuerKeyFile(filePath: string): Promise<Uint8Array> {
+  try {
+    return await readIssuerKeyFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const keypair = Keypair.generate();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(Array.from(keypair.secretKey)), { encoding: 'utf8', mode: 0o600 });
+  try {
+    // Linking fails if the file exists, so only one complete key is ever installed
+    await fs.link(tempPath, filePath);
+    return keypair.secretKey;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    return readIssuerKeyFile(filePath);
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+async function readIssuerKeyFile(filePath: string): Promise<Uint8Array> {
+  return Uint8Array.from(JSON.parse(await fs.readFile(filePath, 'utf8')) as number[]);
+}
+
+export function createAttestationIssuer(config: AttestationIssuerConfig): AttestationIssuer {
+  return new AttestationIssuer(config);
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { AttestationRegistry, FileAttestationStore, RevocationError, revocationMessage } from './attestation-registry';
+import type { AttestationResult } from './compliance-service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function signRevocation(signer: Keypair, attestationId: string, reason: string) {
+  const message = new TextEncoder().encode(revocationMessage(attestationId, reason));
+  return {
+    attestationId,
+    reason,
+    revoker: signer.publicKey.toBase58(),
+    signature: Buffer.from(nacl.sign.detached(message, signer.secretKey)).toString('base64'),
+  };
+}
+
+function attestation(id: string, walletAddress: string, timestamp: number, overrides: Partial<AttestationResult> = {}): AttestationResult {
+  return {
+    isCompliant: true,
+    attestationId: id,
+    walletAddress,
+    timestamp,
+    proofs: {},
+    complianceCheck: {} as never,
+    network: 'devnet',
+    ownershipVerified: false,
+    ageSource: 'self_reported',
+    publicInputs: { minimumAge: 18, maxRiskScore: 5, minBalanceUsd: 0, walletHash: '0x1234' },
+    ...overrides,
+  };
+}
+
+describe('AttestationRegistry', () => {
+  let now: number;
+  let registry: AttestationRegistry;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    registry = new AttestationRegistry({ defaultTtlMs: HOUR_MS, now: () => now });
+  });
+
+  it('should store attestations and look them up by ID and wallet', async () => {
+    await registry.register(attestation('att_1', 'WalletA', now));
+    await registry.register(attestation('att_2', 'WalletA', now + 1000));
+    await registry.register(attestation('att_3', 'WalletB', now));
+
+    const record = await registry.get('att_1');
+    const walletA = await registry.listByWallet('WalletA');
+
+    expect(record?.expiresAt).toBe(now + HOUR_MS);
+    expect(walletA.map(r => r.id)).toEqual(['att_2', 'att_1']);
+  });
+
+  it('should expire attestations automatically', async () => {
+    await registry.register(attestation('att_1', 'WalletA', now));
+
+    expect((await registry.status('att_1'))?.status).toBe('active');
+
+    now += HOUR_MS;
+
+    expect((await registry.status('att_1'))?.status).toBe('expired');
+    expect(await registry.listByWallet('WalletA', { activeOnly: true })).toEqual([]);
+  });
+
+  it('should revoke attestations with a reason', async () => {
+    await registry.register(attestation('att_1', 'WalletA', now));
+
+    const revoked = await registry.revoke('att_1', 'Wallet linked to mixer', 'compliance-team');
+    const status = await registry.status('att_1');
+
+    expect(revoked.revokedBy).toBe('compliance-team');
+    expect(status?.status).toBe('revoked');
+    expect(status?.revocationReason).toBe('Wallet linked to mixer');
+    await expect(registry.revoke('att_1', 'again')).rejects.toThrow('Attestation already revoked');
+    await expect(registry.revoke('att_missing', 'nope')).rejects.toThrow('Unknown attestation');
+  });
+
+  it('should keep revocation when the signed document is registered later', async () => {
+    const result = attestation('att_1', 'WalletA', now);
+    await registry.register(result);
+    await registry.revoke('att_1', 'Revoked before signing');
+
+    await registry.register(result);
+
+    expect((await registry.status('att_1'))?.status).toBe('revoked');
+  });
+
+  it('should report payroll eligibility per wallet', async () => {
+    await registry.register(attestation('att_1', 'WalletA', now));
+    await registry.register(attestation('att_2', 'WalletB', now));
+    await registry.revoke('att_2', 'Sanctioned counterparty');
+    await registry.register(attestation('att_3', 'WalletC', now - 2 * HOUR_MS));
+
+    const active = await registry.walletStatus('WalletA');
+    const revoked = await registry.walletStatus('WalletB');
+    const expired = await registry.walletStatus('WalletC');
+    const missing = await registry.walletStatus('WalletD');
+
+    expect(active.eligible).toBe(true);
+    expect(revoked).toMatchObject({ eligible: false, reason: 'Attestation revoked: Sanctioned counterparty' });
+    expect(expired.eligible).toBe(false);
+    expect(expired.reason).toContain('Attestation expired');
+    expect(missing).toEqual({ walletAddress: 'WalletD', eligible: false, reason: 'No attestation issued' });
+  });
+
+  it('should only revoke on a request signed by the issuer or an authorised revoker', async () => {
+    const issuer = Keypair.generate();
+    const complianceTeam = Keypair.generate();
+    await registry.register(attestation('att_1', 'WalletA', now));
+    await registry.register(attestation('att_2', 'WalletA', now));
+
+    const stranger = signRevocation(Keypair.generate(), 'att_1', 'Mixer');
+    const forged = { ...signRevocation(issuer, 'att_1', 'Mixer'), reason: 'Something else' };
+
+    await expect(registry.revokeSigned(stranger, issuer.publicKey.toBase58())).rejects.toThrow(RevocationError);
+    await expect(registry.revokeSigned(forged, issuer.publicKey.toBase58())).rejects.toThrow('invalid signature');
+    expect((await registry.status('att_1'))?.status).toBe('active');
+
+    const byIssuer = await registry.revokeSigned(signRevocation(issuer, 'att_1', 'Mixer'), issuer.publicKey.toBase58());
+    const byTeam = await registry.revokeSigned(
+      signRevocation(complianceTeam, 'att_2', 'Offboarded'),
+      issuer.publicKey.toBase58(),
+      [complianceTeam.publicKey.toBase58()]
+    );
+
+    expect(byIssuer.revokedBy).toBe(issuer.publicKey.toBase58());
+    expect(byTeam.revokedBy).toBe(complianceTeam.publicKey.toBase58());
+  });
+
+  it('should only accept attestations issued under the requested policy', async () => {
+    await registry.register(attestation('att_1', 'WalletA', now, {
+      policyVerdict: { policy: 'contractor', passed: true, rules: [], evaluatedAt: now },
+    }));
+
+    expect((await registry.walletStatus('WalletA', 'contractor')).eligible).toBe(true);
+    expect((await registry.walletStatus('WalletA', 'payroll')).reason).toBe('No attestation issued under policy payroll');
+  });
+});
+
+describe('FileAttestationStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'attestation-registry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist registrations and revocations across instances', async () => {
+    const filePath = path.join(dir, 'attestations.json');
+    const writer = new AttestationRegistry({ store: new FileAttestationStore(filePath) });
+    await writer.register(attestation('att_1', 'WalletA', Date.now()));
+    await writer.revoke('att_1', 'Employee offboarded');
+
+    const reader = new AttestationRegistry({ store: new FileAttestationStore(filePath) });
+
+    expect((await reader.status('att_1'))?.status).toBe('revoked');
+    expect(await reader.listByWallet('WalletA')).toHaveLength(1);
+  });
+
+  it('should keep every record when instances register concurrently', async () => {
+    const filePath = path.join(dir, 'attestations.json');
+    const first = new AttestationRegistry({ store: new FileAttestationStore(filePath) });
+    const second = new AttestationRegistry({ store: new FileAttestationStore(filePath) });
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      (i % 2 === 0 ? first : second).register(attestation(`att_${i}`, 'WalletA', Date.now()))
+    ));
+
+    expect(await first.listByWallet('WalletA')).toHaveLength(10);
+    expect((await fs.readdir(dir)).filter(f => f.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('should keep a revocation that runs alongside a re-registration', async () => {
+    const filePath = path.join(dir, 'attestations.json');
+    const issuer = new AttestationRegistry({ store: new FileAttestationStore(filePath) });
+    const revoker = new AttestationRegistry({ store: new FileAttestationStore(filePath) });
+    const result = attestation('att_1', 'WalletA', Date.now());
+    await issuer.register(result);
+
+    await Promise.all([issuer.register(result), revoker.revoke('att_1', 'Employee offboarded'), issuer.register(result)]);
+
+    expect((await issuer.status('att_1'))?.status).toBe('revoked');
+  });
+});
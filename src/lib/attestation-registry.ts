@@ -0,0 +1,282 @@
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import type { SignedAttestation } from './attestation-document';
+import type { AttestationResult } from './compliance-service';
+import { readJsonFile, updateJsonFile } from './json-file';
+import type { SolanaCluster } from './network';
+
+export type AttestationStatus = 'active' | 'expired' | 'revoked';
+
+export interface AttestationRecord {
+  id: string;
+  walletAddress: string;
+  network: SolanaCluster;
+  issuedAt: number;
+  expiresAt: number;
+  policy: string | null;
+  isCompliant: boolean;
+  publicInputs: AttestationResult['publicInputs'];
+  document?: SignedAttestation;
+  revokedAt?: number;
+  revokedBy?: string;
+  revocationReason?: string;
+}
+
+export interface AttestationStatusResult {
+  attestationId: string;
+  walletAddress: string;
+  status: AttestationStatus;
+  isCompliant: boolean;
+  policy: string | null;
+  issuedAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+  revocationReason?: string;
+}
+
+export interface WalletAttestationStatus {
+  walletAddress: string;
+  eligible: boolean;
+  reason: string;
+  attestation?: AttestationStatusResult;
+}
+
+/** A revocation signed by the attestation's issuer or another authorised revoker. */
+export interface RevocationRequest {
+  attestationId: string;
+  reason: string;
+  /** Base58 Ed25519 public key of the signer. */
+  revoker: string;
+  /** Base64 signature over `revocationMessage(attestationId, reason)`. */
+  signature: string;
+}
+
+export class RevocationError extends Error {
+  readonly attestationId: string;
+
+  constructor(attestationId: string, message: string) {
+    super(`Cannot revoke ${attestationId}: ${message}`);
+    this.name = 'RevocationError';
+    this.attestationId = attestationId;
+  }
+}
+
+export interface AttestationStore {
+  get(id: string): Promise<AttestationRecord | undefined>;
+  /**
+   * Replaces a record with `update(current)` in one step, so concurrent
+   * updates to the same record never overwrite each other. Nothing is
+   * written when `update` throws.
+   */
+  update(id: string, update: (record: AttestationRecord | undefined) => AttestationRecord): Promise<AttestationRecord>;
+  listByWallet(walletAddress: string): Promise<AttestationRecord[]>;
+}
+
+export interface AttestationRegistryConfig {
+  store?: AttestationStore;
+  defaultTtlMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class MemoryAttestationStore implements AttestationStore {
+  private records: Map<string, AttestationRecord> = new Map();
+
+  async get(id: string): Promise<AttestationRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async update(id: string, update: (record: AttestationRecord | undefined) => AttestationRecord): Promise<AttestationRecord> {
+    const current = this.records.get(id);
+    const record = update(current && structuredClone(current));
+    this.records.set(id, structuredClone(record));
+    return structuredClone(record);
+  }
+
+  async listByWallet(walletAddress: string): Promise<AttestationRecord[]> {
+    return Array.from(this.records.values())
+      .filter(r => r.walletAddress === walletAddress)
+      .map(r => structuredClone(r));
+  }
+}
+
+export class FileAttestationStore implements AttestationStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(id: string): Promise<AttestationRecord | undefined> {
+    return (await this.load())[id];
+  }
+
+  update(id: string, update: (record: AttestationRecord | undefined) => AttestationRecord): Promise<AttestationRecord> {
+    return updateJsonFile<Record<string, AttestationRecord>, AttestationRecord>(this.filePath, {}, records => {
+      records[id] = update(records[id]);
+      return records[id];
+    });
+  }
+
+  async listByWallet(walletAddress: string): Promise<AttestationRecord[]> {
+    return Object.values(await this.load()).filter(r => r.walletAddress === walletAddress);
+  }
+
+  private load(): Promise<Record<string, AttestationRecord>> {
+    return readJsonFile<Record<string, AttestationRecord>>(this.filePath, {});
+  }
+}
+
+/**
+ * Keeps every issued attestation so it can be looked up, revoked and checked
+ * later. Expiry is evaluated on read, so nothing has to sweep the store.
+ */
+export class AttestationRegistry {
+  private store: AttestationStore;
+  private defaultTtlMs: number;
+  private now: () => number;
+
+  constructor(config?: AttestationRegistryConfig) {
+    this.store = config?.store ?? new MemoryAttestationStore();
+    this.defaultTtlMs = config?.defaultTtlMs ?? DEFAULT_TTL_MS;
+    this.now = config?.now ?? Date.now;
+  }
+
+  /**
+   * Records an attestation, or updates it when the same ID is registered again
+   * with its signed document. A signed document's expiry takes precedence.
+   */
+  async register(attestation: AttestationResult, document?: SignedAttestation): Promise<AttestationRecord> {
+    return this.store.update(attestation.attestationId, existing => ({
+      ...existing,
+      id: attestation.attestationId,
+      walletAddress: attestation.walletAddress,
+      network: attestation.network,
+      issuedAt: document?.payload.issuedAt ?? existing?.issuedAt ?? attestation.timestamp,
+      expiresAt: document?.payload.expiresAt ?? existing?.expiresAt ?? attestation.timestamp + this.defaultTtlMs,
+      policy: attestation.policyVerdict?.policy ?? null,
+      isCompliant: attestation.isCompliant,
+      publicInputs: attestation.publicInputs,
+      document: document ?? existing?.document,
+    }));
+  }
+
+  async get(id: string): Promise<AttestationRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  async listByWallet(walletAddress: string, options?: { activeOnly?: boolean }): Promise<AttestationRecord[]> {
+    const records = (await this.store.listByWallet(walletAddress)).sort((a, b) => b.issuedAt - a.issuedAt);
+    return options?.activeOnly ? records.filter(r => this.statusOf(r) === 'active') : records;
+  }
+
+  async revoke(id: string, reason: string, revokedBy?: string): Promise<AttestationRecord> {
+    return this.store.update(id, record => {
+      if (!record) {
+        throw new Error(`Unknown attestation: ${id}`);
+      }
+      if (record.revokedAt !== undefined) {
+        throw new Error(`Attestation already revoked: ${id}`);
+      }
+      return { ...record, revokedAt: this.now(), revokedBy, revocationReason: reason };
+    });
+  }
+
+  /**
+   * Revokes an attestation on a signed request. Only the attestation's issuer
+   * (`issuer` when no signed document was registered) or one of `revokers` may
+   * sign, and the signer is recorded as `revokedBy`.
+   */
+  async revokeSigned(request: RevocationRequest, issuer: string | null, revokers: string[] = []): Promise<AttestationRecord> {
+    const record = await this.store.get(request.attestationId);
+    if (!record) {
+      throw new Error(`Unknown attestation: ${request.attestationId}`);
+    }
+
+    const recordIssuer = record.document?.payload.issuer ?? issuer;
+    if (request.revoker !== recordIssuer && !revokers.includes(request.revoker)) {
+      throw new RevocationError(request.attestationId, `${request.revoker} is not authorised to revoke it`);
+    }
+    if (!verifyRevocationSignature(request)) {
+      throw new RevocationError(request.attestationId, 'invalid signature');
+    }
+
+    return this.revoke(request.attestationId, request.reason, request.revoker);
+  }
+
+  async status(id: string): Promise<AttestationStatusResult | undefined> {
+    const record = await this.store.get(id);
+    return record && this.describe(record);
+  }
+
+  /**
+   * Decides whether a wallet currently holds a usable attestation: active,
+   * compliant and, when `policy` is given, issued under that policy.
+   */
+  async walletStatus(walletAddress: string, policy?: string): Promise<WalletAttestationStatus> {
+    const records = (await this.listByWallet(walletAddress))
+      .filter(r => policy === undefined || r.policy === policy);
+    const latest = records[0];
+
+    if (!latest) {
+      return {
+        walletAddress,
+        eligible: false,
+        reason: policy ? `No attestation issued under policy ${policy}` : 'No attestation issued',
+      };
+    }
+
+    const usable = records.find(r => this.statusOf(r) === 'active' && r.isCompliant);
+    if (usable) {
+      return { walletAddress, eligible: true, reason: 'Active attestation', attestation: this.describe(usable) };
+    }
+
+    const attestation = this.describe(latest);
+    const reason = attestation.status === 'revoked'
+      ? `Attestation revoked: ${attestation.revocationReason}`
+      : attestation.status === 'expired'
+        ? `Attestation expired at ${new Date(attestation.expiresAt).toISOString()}`
+        : 'Latest attestation is not compliant';
+    return { walletAddress, eligible: false, reason, attestation };
+  }
+
+  describe(record: AttestationRecord): AttestationStatusResult {
+    return {
+      attestationId: record.id,
+      walletAddress: record.walletAddress,
+      status: this.statusOf(record),
+      isCompliant: record.isCompliant,
+      policy: record.policy,
+      issuedAt: record.issuedAt,
+      expiresAt: record.expiresAt,
+      revokedAt: record.revokedAt,
+      revocationReason: record.revocationReason,
+    };
+  }
+
+  private statusOf(record: AttestationRecord): AttestationStatus {
+    if (record.revokedAt !== undefined) return 'revoked';
+    return this.now() >= record.expiresAt ? 'expired' : 'active';
+  }
+}
+
+export function revocationMessage(attestationId: string, reason: string): string {
+  return [`Revoke ShadowPay attestation ${attestationId}`, '', `Reason: ${reason}`].join('\n');
+}
+
+function verifyRevocationSignature(request: RevocationRequest): boolean {
+  try {
+    const publicKey = new PublicKey(request.revoker).toBytes();
+    const signature = new Uint8Array(Buffer.from(request.signature, 'base64'));
+    const message = new TextEncoder().encode(revocationMessage(request.attestationId, request.reason));
+    return signature.length === nacl.sign.signatureLength && nacl.sign.detached.verify(message, signature, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+export function createAttestationRegistry(config?: AttestationRegistryConfig): AttestationRegistry {
+  return new AttestationRegistry(config);
+}
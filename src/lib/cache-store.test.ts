@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TtlCache, MemoryCacheStore, FileCacheStore } from './cache-store';
+
+describe('TtlCache', () => {
+  let now: number;
+  let cache: TtlCache<string>;
+
+  beforeEach(() => {
+    now = 1_000;
+    cache = new TtlCache<string>({ ttlMs: 100, now: () => now });
+  });
+
+  it('should return cached values within the TTL', async () => {
+    await cache.set('key', 'value');
+    now += 99;
+
+    expect(await cache.get('key')).toBe('value');
+  });
+
+  it('should expire values after the TTL', async () => {
+    await cache.set('key', 'value');
+    now += 100;
+
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('should only call the loader once for cached keys', async () => {
+    let calls = 0;
+    const loader = async () => `value-${++calls}`;
+
+    expect(await cache.getOrLoad('key', loader)).toBe('value-1');
+    expect(await cache.getOrLoad('key', loader)).toBe('value-1');
+    expect(calls).toBe(1);
+  });
+
+  it('should deduplicate concurrent loads for the same key', async () => {
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      await new Promise(r => setTimeout(r, 10));
+      return 'value';
+    };
+
+    const results = await Promise.all([
+      cache.getOrLoad('key', loader),
+      cache.getOrLoad('key', loader),
+      cache.getOrLoad('key', loader),
+    ]);
+
+    expect(results).toEqual(['value', 'value', 'value']);
+    expect(calls).toBe(1);
+  });
+
+  it('should only abort a shared load once every caller has aborted', async () => {
+    const signals: AbortSignal[] = [];
+    let release: (value: string) => void = () => {};
+    const loader = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>(resolve => { release = resolve; });
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = cache.getOrLoad('key', loader, first.signal);
+    const b = cache.getOrLoad('key', loader, second.signal);
+    await new Promise(r => setTimeout(r, 0));
+    first.abort();
+
+    await expect(a).rejects.toThrow();
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toThrow();
+    expect(signals[0].aborted).toBe(true);
+    release('late');
+  });
+
+  it('should not store values when TTL is zero', async () => {
+    const uncached = new TtlCache<string>({ ttlMs: 0 });
+    let calls = 0;
+    const loader = async () => `value-${++calls}`;
+
+    await uncached.getOrLoad('key', loader);
+    await uncached.getOrLoad('key', loader);
+
+    expect(calls).toBe(2);
+  });
+
+  it('should not cache failed loads', async () => {
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      if (calls === 1) throw new Error('Network error');
+      return 'value';
+    };
+
+    await expect(cache.getOrLoad('key', loader)).rejects.toThrow('Network error');
+    expect(await cache.getOrLoad('key', loader)).toBe('value');
+  });
+
+  it('should drop invalidated keys', async () => {
+    await cache.set('key', 'value');
+    await cache.invalidate('key');
+
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('should hand a taken key to one caller only', async () => {
+    await cache.set('key', 'value');
+
+    const taken = await Promise.all([cache.take('key'), cache.take('key')]);
+
+    expect(taken.sort()).toEqual(['value', undefined]);
+    expect(await cache.get('key')).toBeUndefined();
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should store and clear entries', async () => {
+    const store = new MemoryCacheStore<number>();
+    await store.set('a', { value: 1, expiresAt: 10 });
+
+    expect((await store.get('a'))?.value).toBe(1);
+    await store.clear();
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore<number>(2);
+    await store.set('a', { value: 1, expiresAt: 10 });
+    await store.set('b', { value: 2, expiresAt: 10 });
+    await store.get('a');
+    await store.set('c', { value: 3, expiresAt: 10 });
+
+    expect(await store.get('b')).toBeUndefined();
+    expect((await store.get('a'))?.value).toBe(1);
+    expect((await store.get('c'))?.value).toBe(3);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    const filePath = path.join(dir, 'nested', 'cache.json');
+    const writer = new FileCacheStore<{ score: number }>(filePath);
+    await writer.set('addr', { value: { score: 3 }, expiresAt: 500 });
+
+    const reader = new FileCacheStore<{ score: number }>(filePath);
+    const entry = await reader.get('addr');
+
+    expect(entry?.value.score).toBe(3);
+    expect(entry?.expiresAt).toBe(500);
+  });
+
+  it('should drop expired entries when writing', async () => {
+    const filePath = path.join(dir, 'cache.json');
+    let now = 0;
+    const store = new FileCacheStore<number>(filePath, () => now);
+    await store.set('old', { value: 1, expiresAt: 100 });
+
+    now = 200;
+    await store.set('new', { value: 2, expiresAt: 300 });
+
+    const saved = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(Object.keys(saved)).toEqual(['new']);
+  });
+
+  it('should keep entries written by other instances', async () => {
+    const filePath = path.join(dir, 'cache.json');
+    const first = new FileCacheStore<number>(filePath);
+    const second = new FileCacheStore<number>(filePath);
+    const expiresAt = Date.now() + 60_000;
+
+    await first.get('a');
+    await Promise.all([
+      first.set('a', { value: 1, expiresAt }),
+      second.set('b', { value: 2, expiresAt }),
+    ]);
+
+    expect((await first.get('b'))?.value).toBe(2);
+    expect((await second.get('a'))?.value).toBe(1);
+  });
+
+  it('should take an entry once across instances', async () => {
+    const filePath = path.join(dir, 'cache.json');
+    const first = new FileCacheStore<number>(filePath);
+    const second = new FileCacheStore<number>(filePath);
+    await first.set('nonce', { value: 1, expiresAt: Date.now() + 60_000 });
+
+    const taken = await Promise.all([first.take('nonce'), second.take('nonce')]);
+
+    expect(taken.filter(Boolean)).toHaveLength(1);
+    expect(await second.get('nonce')).toBeUndefined();
+  });
+
+  it('should start empty when the file is missing', async () => {
+    const store = new FileCacheStore<string>(path.join(dir, 'missing.json'));
+
+    expect(await store.get('anything')).toBeUndefined();
+  });
+});
@@ -0,0 +1,218 @@
+import { readJsonFile, updateJsonFile } from './json-file';
+
+export interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Removes an entry and returns it, so only one caller can ever receive it. */
+  take(key: string): Promise<CacheEntry<T> | undefined>;
+  clear(): Promise<void>;
+}
+
+export interface TtlCacheConfig<T> {
+  ttlMs: number;
+  store?: CacheStore<T>;
+  now?: () => number;
+}
+
+/** In-memory store. With `maxEntries`, the least recently used entry is evicted first. */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = Infinity) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async take(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    return entry;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Shares entries through a JSON file. Every write re-reads the file and drops
+ * expired entries, so instances in other processes keep each other's entries
+ * and the file does not grow without bound.
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+  private filePath: string;
+  private now: () => number;
+
+  constructor(filePath: string, now: () => number = Date.now) {
+    this.filePath = filePath;
+    this.now = now;
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entries = await readJsonFile<Record<string, CacheEntry<T>>>(this.filePath, {});
+    return entries[key];
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.update(entries => {
+      entries[key] = entry;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(entries => {
+      delete entries[key];
+    });
+  }
+
+  take(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.update(entries => {
+      const entry = entries[key];
+      delete entries[key];
+      return entry;
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.update(entries => {
+      for (const key of Object.keys(entries)) delete entries[key];
+    });
+  }
+
+  private update<R>(mutate: (entries: Record<string, CacheEntry<T>>) => R): Promise<R> {
+    return updateJsonFile<Record<string, CacheEntry<T>>, R>(this.filePath, {}, entries => {
+      const now = this.now();
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry.expiresAt <= now) delete entries[key];
+      }
+      return mutate(entries);
+    });
+  }
+}
+
+interface InFlightLoad<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting on the load. */
+  waiting: number;
+}
+
+export class TtlCache<T> {
+  private ttlMs: number;
+  private store: CacheStore<T>;
+  private now: () => number;
+  private inFlight: Map<string, InFlightLoad<T>> = new Map();
+
+  constructor(config: TtlCacheConfig<T>) {
+    this.ttlMs = config.ttlMs;
+    this.store = config.store ?? new MemoryCacheStore<T>();
+    this.now = config.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = await this.store.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= this.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (this.ttlMs <= 0) return;
+    await this.store.set(key, { value, expiresAt: this.now() + this.ttlMs });
+  }
+
+  /**
+   * Returns the cached value or loads it, sharing one load between concurrent
+   * callers. A caller's `signal` only stops that caller waiting; the signal
+   * passed to `loader` aborts once every caller waiting on the load has.
+   */
+  async getOrLoad(key: string, loader: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+
+    let load = this.inFlight.get(key);
+    if (!load) {
+      const controller = new AbortController();
+      const promise = (async () => {
+        const cached = await this.get(key);
+        if (cached !== undefined) return cached;
+
+        const value = await loader(controller.signal);
+        await this.set(key, value);
+        return value;
+      })();
+
+      const started: InFlightLoad<T> = { promise, controller, waiting: 0 };
+      this.inFlight.set(key, started);
+      void promise.catch(() => undefined).finally(() => this.forget(key, started));
+      load = started;
+    }
+
+    return this.wait(key, load, signal);
+  }
+
+  async invalidate(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  /** Removes a key and returns its value if it had not expired. Concurrent takes get it at most once. */
+  async take(key: string): Promise<T | undefined> {
+    const entry = await this.store.take(key);
+    return entry && entry.expiresAt > this.now() ? entry.value : undefined;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private wait(key: string, load: InFlightLoad<T>, signal?: AbortSignal): Promise<T> {
+    load.waiting++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal!.reason);
+        if (--load.waiting === 0) {
+          // Nobody wants the result any more, so later callers start afresh
+          this.forget(key, load);
+          load.controller.abort(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      load.promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private forget(key: string, load: InFlightLoad<T>): void {
+    if (this.inFlight.get(key) === load) this.inFlight.delete(key);
+  }
+}
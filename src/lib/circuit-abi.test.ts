@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BN254_FIELD_MODULUS,
+  CircuitAbi,
+  WitnessValidationError,
+  encodePublicInputs,
+  formatAbi,
+  getCircuitAbi,
+  validateParameters,
+  validateWitness
+} from './circuit-abi';
+import { CircuitArtifact, CircuitRegistry, describeArtifact } from './circuit-registry';
+import { ALL_CIRCUIT_TYPES, NoirProofService, getPublicInputClaims } from './noir-proof-service';
+import VERIFIER_CLAIMS from '../../packages/proof-verifier/public-input-claims.json';
+
+const ABI: CircuitAbi = {
+  parameters: [
+    { name: 'amount', type: { kind: 'integer', sign: 'unsigned', width: 64 }, visibility: 'private' },
+    { name: 'delta', type: { kind: 'integer', sign: 'signed', width: 8 }, visibility: 'private' },
+    { name: 'root', type: { kind: 'field' }, visibility: 'public' },
+    { name: 'flags', type: { kind: 'array', length: 2, type: { kind: 'boolean' } }, visibility: 'public' },
+    { name: 'limit', type: { kind: 'integer', sign: 'unsigned', width: 32 }, visibility: 'public' },
+  ],
+  return_type: null,
+};
+
+const WITNESS = { amount: 5000, delta: -3, root: '0x1234', flags: [true, false], limit: 9000 };
+
+describe('validateWitness', () => {
+  it('should accept a witness that matches the ABI', () => {
+    expect(() => validateWitness(ABI, WITNESS)).not.toThrow();
+    expect(() => validateWitness(ABI, { ...WITNESS, amount: '18446744073709551615', root: '42' })).not.toThrow();
+  });
+
+  it('should enforce integer widths and signedness', () => {
+    expect(() => validateWitness(ABI, { ...WITNESS, amount: -1 })).toThrow('Invalid amount: -1 is out of range for u64');
+    expect(() => validateWitness(ABI, { ...WITNESS, amount: '18446744073709551616' })).toThrow('out of range for u64');
+    expect(() => validateWitness(ABI, { ...WITNESS, amount: 1.5 })).toThrow('1.5 is out of range for u64');
+    expect(() => validateWitness(ABI, { ...WITNESS, delta: -129 })).toThrow('Invalid delta: -129 is out of range for i8');
+    expect(() => validateWitness(ABI, { ...WITNESS, delta: 127 })).not.toThrow();
+  });
+
+  it('should keep fields below the BN254 modulus', () => {
+    expect(() => validateWitness(ABI, { ...WITNESS, root: BN254_FIELD_MODULUS.toString() })).toThrow('is not a Field element');
+    expect(() => validateWitness(ABI, { ...WITNESS, root: '0xzz' })).toThrow('Invalid root');
+  });
+
+  it('should report missing, unexpected and malformed parameters by path', () => {
+    const missing = { amount: 5000, delta: -3, root: '0x1234', flags: [true, false] };
+
+    expect(() => validateWitness(ABI, missing)).toThrow('Invalid limit: missing u32');
+    expect(() => validateWitness(ABI, { ...WITNESS, extra: 1 })).toThrow('Invalid extra: not a parameter of the circuit');
+    expect(() => validateWitness(ABI, { ...WITNESS, flags: [true] })).toThrow('expected 2 elements, got 1 elements');
+
+    try {
+      validateWitness(ABI, { ...WITNESS, flags: [true, 1] as unknown as boolean[] });
+      throw new Error('expected a validation error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(WitnessValidationError);
+      expect((error as WitnessValidationError).parameter).toBe('flags[1]');
+    }
+  });
+});
+
+describe('validateParameters', () => {
+  it('should check only the parameters it is given', () => {
+    expect(() => validateParameters(ABI, { amount: 5000, root: '0x1234' })).not.toThrow();
+    expect(() => validateParameters(ABI, { amount: -1 })).toThrow('Invalid amount: -1 is out of range for u64');
+    expect(() => validateParameters(ABI, { extra: 1 })).toThrow('Invalid extra: not a parameter of the circuit');
+  });
+});
+
+describe('encodePublicInputs', () => {
+  it('should flatten public parameters in ABI order', () => {
+    expect(encodePublicInputs(ABI, WITNESS)).toEqual(['0x1234', '1', '0', '9000']);
+  });
+
+  it('should render the bundled ABIs as Noir signatures', () => {
+    expect(formatAbi(getCircuitAbi('age_verification'))).toBe('(age: u8, minimum_age: pub u8)');
+  });
+
+  it('should map each public parameter to its policy claim', () => {
+    expect(getPublicInputClaims('risk_threshold')).toEqual(['maxRiskScore']);
+    expect(getPublicInputClaims('jurisdiction')).toEqual(['jurisdictionHash', 'walletHash']);
+  });
+
+  it('should ship the offline verifier the claims derived from the bundled ABIs', () => {
+    for (const circuitType of ALL_CIRCUIT_TYPES) {
+      expect(VERIFIER_CLAIMS[circuitType]).toEqual(getPublicInputClaims(circuitType));
+    }
+  });
+});
+
+describe('NoirProofService ABI checks', () => {
+  it('should refuse to prove with an artifact compiled for a different ABI', async () => {
+    const artifact: CircuitArtifact = JSON.parse(await fs.readFile(
+      path.join(process.cwd(), 'circuits', 'age_verification', 'target', 'age_verification.json'),
+      'utf8'
+    ));
+    artifact.abi = {
+      ...artifact.abi,
+      parameters: artifact.abi.parameters.map(p => ({ ...p, type: { kind: 'integer', sign: 'unsigned', width: 16 } })),
+    };
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'circuit-abi-'));
+    await fs.mkdir(path.join(dir, 'age_verification'));
+    await fs.writeFile(path.join(dir, 'age_verification', 'stale.json'), JSON.stringify(artifact));
+    const registry = new CircuitRegistry();
+    registry.register('age_verification', await describeArtifact(artifact, 'age_verification/stale.json'));
+
+    const strict = new NoirProofService({ circuitsDir: dir, registry, requireRealProofs: true, provingPool: null });
+    const attempt = strict.generateAgeProof({ age: 25, minimumAge: 18 });
+
+    await expect(attempt).rejects.toThrow('artifact takes (age: u16, minimum_age: pub u16), expected (age: u8, minimum_age: pub u8)');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,262 @@
+import type { CircuitType, PolicyClaims, ProofInput } from './noir-proof-service';
+import BUNDLED_ABIS from './circuit-abis.json';
+
+/** Order of the BN254 scalar field that Noir `Field` values live in. */
+export const BN254_FIELD_MODULUS =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+export type AbiType =
+  | { kind: 'field' }
+  | { kind: 'boolean' }
+  | { kind: 'integer'; sign: 'unsigned' | 'signed'; width: number }
+  | { kind: 'array'; length: number; type: AbiType }
+  | { kind: 'string'; length: number }
+  | { kind: 'struct'; path: string; fields: Array<{ name: string; type: AbiType }> }
+  | { kind: 'tuple'; fields: AbiType[] };
+
+export interface AbiParameter {
+  name: string;
+  type: AbiType;
+  visibility: 'public' | 'private' | 'databus';
+}
+
+/** The `abi` section of a nargo artifact. */
+export interface CircuitAbi {
+  parameters: AbiParameter[];
+  return_type?: { abi_type: AbiType; visibility: string } | null;
+  [key: string]: unknown;
+}
+
+export class WitnessValidationError extends Error {
+  /** Path of the offending value, e.g. `siblings[3]`. */
+  readonly parameter: string;
+
+  constructor(parameter: string, message: string) {
+    super(`Invalid ${parameter}: ${message}`);
+    this.name = 'WitnessValidationError';
+    this.parameter = parameter;
+  }
+}
+
+const CIRCUIT_ABIS = BUNDLED_ABIS as unknown as Record<CircuitType, CircuitAbi>;
+
+// The policy claim carried by each public parameter name used in the circuits
+const PUBLIC_PARAMETER_CLAIMS: Record<string, keyof PolicyClaims> = {
+  minimum_age: 'minimumAge',
+  as_of_date: 'asOfDate',
+  max_allowed_risk: 'maxRiskScore',
+  max_risk_score: 'maxRiskScore',
+  min_balance_usd: 'minBalanceUsd',
+  wallet_hash: 'walletHash',
+  issuer_key_hash: 'issuerKeyHash',
+  list_hash: 'jurisdictionHash',
+  roster_root: 'rosterRoot',
+  pay_period: 'payPeriod',
+  nullifier: 'nullifier',
+  salary_commitment: 'salaryCommitment',
+  min_salary: 'minSalary',
+  max_salary: 'maxSalary',
+};
+
+/**
+ * The ABI witnesses for a circuit are built against. It ships with the code
+ * (see `circuits:register`), so witnesses are checked the same way whether or
+ * not compiled artifacts are available.
+ */
+export function getCircuitAbi(circuitType: CircuitType): CircuitAbi {
+  const abi = CIRCUIT_ABIS[circuitType];
+  if (!abi) {
+    throw new Error(`No ABI bundled for circuit ${circuitType}`);
+  }
+  return abi;
+}
+
+/**
+ * The policy claim each public input of a circuit carries, in ABI order.
+ * `circuits:register` writes the same lists to the offline verifier, so both
+ * decode proofs the same way.
+ */
+export function derivePublicInputClaims(abi: CircuitAbi): Array<keyof PolicyClaims> {
+  return abi.parameters
+    .filter(p => p.visibility === 'public')
+    .map(p => {
+      const claim = PUBLIC_PARAMETER_CLAIMS[p.name];
+      if (!claim) {
+        throw new Error(`Public parameter ${p.name} has no policy claim; add it to PUBLIC_PARAMETER_CLAIMS`);
+      }
+      return claim;
+    });
+}
+
+/**
+ * Checks a witness against a circuit ABI: every parameter is present, no
+ * others are, and each value fits its type. Integers must be in range for
+ * their width and signedness, and fields below the BN254 modulus. Numeric
+ * values may be numbers, bigints, or decimal or 0x-prefixed hex strings.
+ */
+export function validateWitness(abi: CircuitAbi, witness: ProofInput): void {
+  const names = new Set(abi.parameters.map(p => p.name));
+  for (const key of Object.keys(witness)) {
+    if (!names.has(key)) {
+      throw new WitnessValidationError(key, 'not a parameter of the circuit');
+    }
+  }
+  for (const parameter of abi.parameters) {
+    validateValue(parameter.name, parameter.type, witness[parameter.name]);
+  }
+}
+
+/**
+ * Checks values against the same-named parameters of a circuit ABI, for
+ * inputs that have to be well-formed before the rest of the witness can be
+ * derived from them. Parameters that are not given are not checked.
+ */
+export function validateParameters(abi: CircuitAbi, values: ProofInput): void {
+  for (const [name, value] of Object.entries(values)) {
+    const parameter = abi.parameters.find(p => p.name === name);
+    if (!parameter) {
+      throw new WitnessValidationError(name, 'not a parameter of the circuit');
+    }
+    validateValue(name, parameter.type, value);
+  }
+}
+
+/**
+ * Flattens the public parameters of a witness into public inputs, in ABI
+ * order. Strings are passed through unchanged and numbers rendered in
+ * decimal, matching how the values were supplied.
+ */
+export function encodePublicInputs(abi: CircuitAbi, witness: ProofInput): string[] {
+  if (abi.return_type) {
+    throw new Error('Circuits with public return values are not supported');
+  }
+  return abi.parameters
+    .filter(p => p.visibility === 'public')
+    .flatMap(p => flatten(p.type, witness[p.name]));
+}
+
+/** Renders an ABI as a Noir-like signature, e.g. `(age: u8, minimum_age: pub u8)`. */
+export function formatAbi(abi: CircuitAbi): string {
+  const parameters = abi.parameters.map(p =>
+    `${p.name}: ${p.visibility === 'public' ? 'pub ' : ''}${formatType(p.type)}`
+  );
+  const returns = abi.return_type ? ` -> ${formatType(abi.return_type.abi_type)}` : '';
+  return `(${parameters.join(', ')})${returns}`;
+}
+
+/** Whether two ABIs take the same parameters with the same types and visibility. */
+export function sameAbiInterface(a: CircuitAbi, b: CircuitAbi): boolean {
+  return formatAbi(a) === formatAbi(b);
+}
+
+function formatType(type: AbiType): string {
+  switch (type.kind) {
+    case 'field':
+      return 'Field';
+    case 'boolean':
+      return 'bool';
+    case 'integer':
+      return `${type.sign === 'signed' ? 'i' : 'u'}${type.width}`;
+    case 'array':
+      return `[${formatType(type.type)}; ${type.length}]`;
+    case 'string':
+      return `str<${type.length}>`;
+    case 'struct':
+      return `${type.path} { ${type.fields.map(f => `${f.name}: ${formatType(f.type)}`).join(', ')} }`;
+    case 'tuple':
+      return `(${type.fields.map(formatType).join(', ')})`;
+  }
+}
+
+function validateValue(path: string, type: AbiType, value: unknown): void {
+  if (value === undefined) {
+    throw new WitnessValidationError(path, `missing ${formatType(type)}`);
+  }
+
+  switch (type.kind) {
+    case 'field': {
+      const n = toBigInt(value);
+      if (n === null || n < 0n || n >= BN254_FIELD_MODULUS) {
+        throw new WitnessValidationError(path, `${display(value)} is not a Field element`);
+      }
+      return;
+    }
+    case 'integer': {
+      const n = toBigInt(value);
+      const bits = BigInt(type.width);
+      const [min, max] = type.sign === 'signed'
+        ? [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n]
+        : [0n, (1n << bits) - 1n];
+      if (n === null || n < min || n > max) {
+        throw new WitnessValidationError(path, `${display(value)} is out of range for ${formatType(type)}`);
+      }
+      return;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new WitnessValidationError(path, `${display(value)} is not a bool`);
+      }
+      return;
+    case 'string':
+      if (typeof value !== 'string' || value.length !== type.length) {
+        throw new WitnessValidationError(path, `expected a string of ${type.length} characters`);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value) || value.length !== type.length) {
+        const got = Array.isArray(value) ? `${value.length} elements` : display(value);
+        throw new WitnessValidationError(path, `expected ${type.length} elements, got ${got}`);
+      }
+      value.forEach((element, i) => validateValue(`${path}[${i}]`, type.type, element));
+      return;
+    case 'tuple':
+      if (!Array.isArray(value) || value.length !== type.fields.length) {
+        throw new WitnessValidationError(path, `expected a tuple of ${type.fields.length} values`);
+      }
+      type.fields.forEach((field, i) => validateValue(`${path}.${i}`, field, value[i]));
+      return;
+    case 'struct': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new WitnessValidationError(path, `expected a ${type.path} struct`);
+      }
+      const fields = new Set(type.fields.map(f => f.name));
+      for (const key of Object.keys(value)) {
+        if (!fields.has(key)) {
+          throw new WitnessValidationError(`${path}.${key}`, `not a field of ${type.path}`);
+        }
+      }
+      for (const field of type.fields) {
+        validateValue(`${path}.${field.name}`, field.type, (value as Record<string, unknown>)[field.name]);
+      }
+      return;
+    }
+  }
+}
+
+function flatten(type: AbiType, value: unknown): string[] {
+  switch (type.kind) {
+    case 'array':
+      return (value as unknown[]).flatMap(element => flatten(type.type, element));
+    case 'tuple':
+      return type.fields.flatMap((field, i) => flatten(field, (value as unknown[])[i]));
+    case 'struct':
+      return type.fields.flatMap(field => flatten(field.type, (value as Record<string, unknown>)[field.name]));
+    case 'string':
+      return Array.from(value as string, c => String(c.charCodeAt(0)));
+    case 'boolean':
+      return [value ? '1' : '0'];
+    default:
+      return [String(value)];
+  }
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isSafeInteger(value) ? BigInt(value) : null;
+  if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value)) return BigInt(value);
+  return null;
+}
+
+function display(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CircuitArtifact, CircuitIntegrityError, CircuitRegistry, CircuitVersion, describeArtifact } from './circuit-registry';
+import { NoirProofService, ProofGenerationError } from './noir-proof-service';
+
+const CIRCUITS_DIR = path.join(process.cwd(), 'circuits');
+
+describe('CircuitRegistry', () => {
+  let artifact: CircuitArtifact;
+  let entry: CircuitVersion;
+
+  beforeAll(async () => {
+    artifact = JSON.parse(await fs.readFile(
+      path.join(CIRCUITS_DIR, 'age_verification', 'target', 'age_verification.json'),
+      'utf8'
+    ));
+    entry = await describeArtifact(artifact, 'age_verification/versions/test.json');
+  });
+
+  it('should accept the artifact it was registered from', async () => {
+    const registry = new CircuitRegistry();
+    registry.register('age_verification', entry);
+
+    await registry.verifyArtifact('age_verification', entry, artifact);
+
+    expect(registry.current('age_verification')?.version).toBe(String(artifact.hash));
+    expect(entry.bytecodeHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should reject artifacts whose bytecode, ABI or Noir version changed', async () => {
+    const registry = new CircuitRegistry();
+    const middle = artifact.bytecode.length >> 1;
+    const flipped = artifact.bytecode[middle] === 'A' ? 'B' : 'A';
+    const bytecode = artifact.bytecode.slice(0, middle) + flipped + artifact.bytecode.slice(middle + 1);
+    const abi = { ...artifact.abi, parameters: artifact.abi.parameters.map(p => ({ ...p, visibility: 'public' as const })) };
+
+    await expect(registry.verifyArtifact('age_verification', entry, { ...artifact, bytecode })).rejects.toThrow('bytecode hash is');
+    await expect(registry.verifyArtifact('age_verification', entry, { ...artifact, abi })).rejects.toThrow('ABI does not match');
+    await expect(registry.verifyArtifact('age_verification', entry, { ...artifact, noir_version: '0.36.0' }))
+      .rejects.toThrow(CircuitIntegrityError);
+  });
+
+  it('should keep earlier versions registered when a new one becomes current', () => {
+    const registry = new CircuitRegistry();
+    registry.register('age_verification', entry);
+    registry.register('age_verification', { ...entry, version: '42', artifact: 'age_verification/versions/42.json' });
+
+    expect(registry.current('age_verification')?.version).toBe('42');
+    expect(registry.get('age_verification', entry.version)).toEqual(entry);
+    expect(registry.versions('age_verification')).toHaveLength(2);
+  });
+
+  it('should reject a verification key that does not match the recorded hash', () => {
+    const registry = new CircuitRegistry();
+    const withVk = { ...entry, vkHash: 'a'.repeat(64) };
+
+    expect(() => registry.verifyVerificationKeyHash('age_verification', withVk, 'b'.repeat(64))).toThrow('verification key hash');
+    expect(() => registry.verifyVerificationKeyHash('age_verification', entry, 'b'.repeat(64))).not.toThrow();
+  });
+
+  it('should match the committed registry against the compiled artifacts', async () => {
+    const registry = CircuitRegistry.parse(await fs.readFile(path.join(CIRCUITS_DIR, 'registry.json'), 'utf8'));
+
+    for (const circuitType of ['age_verification', 'risk_threshold', 'selective_disclosure'] as const) {
+      const current = registry.current(circuitType)!;
+      const compiled = JSON.parse(await fs.readFile(path.join(CIRCUITS_DIR, current.artifact), 'utf8'));
+      await registry.verifyArtifact(circuitType, current, compiled);
+    }
+  });
+});
+
+describe('NoirProofService with a circuit registry', () => {
+  it('should refuse artifacts that fail the integrity check', async () => {
+    const registry = new CircuitRegistry();
+    registry.register('age_verification', {
+      ...await describeArtifact(
+        JSON.parse(await fs.readFile(path.join(CIRCUITS_DIR, 'age_verification', 'target', 'age_verification.json'), 'utf8')),
+        'age_verification/target/age_verification.json'
+      ),
+      bytecodeHash: '0'.repeat(64),
+    });
+    const service = new NoirProofService({ registry, requireRealProofs: true, provingPool: null });
+
+    const attempt = service.generateAgeProof({ age: 25, minimumAge: 18 });
+
+    await expect(attempt).rejects.toThrow(ProofGenerationError);
+    await expect(attempt).rejects.toThrow('failed its integrity check');
+  });
+
+  it('should not load circuits missing from the registry', async () => {
+    const service = new NoirProofService({ registry: new CircuitRegistry(), requireRealProofs: true, provingPool: null });
+
+    await expect(service.generateAgeProof({ age: 25, minimumAge: 18 })).rejects.toThrow('Circuit age_verification not available');
+    expect(await service.getCircuitVersion('age_verification')).toBe('unknown');
+  });
+
+  it('should name the circuit version a proof cannot be verified against', async () => {
+    const service = new NoirProofService({ registry: new CircuitRegistry() });
+
+    const result = await service.verifyProof('age_verification', {
+      proof: new Uint8Array(64),
+      publicInputs: ['18'],
+      isRealProof: true,
+      circuitVersion: '12345',
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('No verifier available for age_verification version 12345');
+  });
+});
@@ -0,0 +1,143 @@
+import { canonicalJson } from './canonical-json';
+import type { CircuitAbi } from './circuit-abi';
+import type { CircuitType } from './noir-proof-service';
+
+export const CIRCUIT_REGISTRY_FORMAT = 'shadowpay-circuits';
+
+/** The JSON `nargo compile` writes to `target/<circuit>.json`. */
+export interface CircuitArtifact {
+  noir_version?: string;
+  hash?: string | number;
+  bytecode: string;
+  abi: CircuitAbi;
+}
+
+export interface CircuitVersion {
+  /** nargo program hash, recorded as `circuitVersion` in attestations and VK exports. */
+  version: string;
+  noirVersion: string;
+  /** Artifact path relative to the registry file. */
+  artifact: string;
+  /** SHA-256 of the decoded ACIR bytecode. */
+  bytecodeHash: string;
+  /** SHA-256 of the verification key, once one has been derived. */
+  vkHash: string | null;
+  abi: CircuitAbi;
+}
+
+export interface RegisteredCircuit {
+  current: string;
+  versions: CircuitVersion[];
+}
+
+export interface CircuitRegistryDocument {
+  format: typeof CIRCUIT_REGISTRY_FORMAT;
+  circuits: Partial<Record<CircuitType, RegisteredCircuit>>;
+}
+
+export class CircuitIntegrityError extends Error {
+  readonly circuitType: CircuitType;
+  readonly version: string;
+
+  constructor(circuitType: CircuitType, version: string, message: string) {
+    super(`Circuit ${circuitType}@${version} failed its integrity check: ${message}`);
+    this.name = 'CircuitIntegrityError';
+    this.circuitType = circuitType;
+    this.version = version;
+  }
+}
+
+/**
+ * Every compiled version of every circuit, with the hashes its artifact
+ * must match. Older versions stay registered so proofs in existing
+ * attestations can still be verified after a circuit changes.
+ */
+export class CircuitRegistry {
+  private document: CircuitRegistryDocument;
+
+  constructor(document?: CircuitRegistryDocument) {
+    if (document && document.format !== CIRCUIT_REGISTRY_FORMAT) {
+      throw new Error(`Not a circuit registry: expected format ${CIRCUIT_REGISTRY_FORMAT}`);
+    }
+    this.document = document ?? { format: CIRCUIT_REGISTRY_FORMAT, circuits: {} };
+  }
+
+  static parse(raw: string): CircuitRegistry {
+    return new CircuitRegistry(JSON.parse(raw) as CircuitRegistryDocument);
+  }
+
+  current(circuitType: CircuitType): CircuitVersion | undefined {
+    const circuit = this.document.circuits[circuitType];
+    return circuit && this.get(circuitType, circuit.current);
+  }
+
+  get(circuitType: CircuitType, version: string): CircuitVersion | undefined {
+    return this.document.circuits[circuitType]?.versions.find(v => v.version === version);
+  }
+
+  versions(circuitType: CircuitType): CircuitVersion[] {
+    return [...(this.document.circuits[circuitType]?.versions ?? [])];
+  }
+
+  /** Adds or replaces a version. The newest registration becomes current unless `makeCurrent` is false. */
+  register(circuitType: CircuitType, entry: CircuitVersion, makeCurrent: boolean = true): void {
+    const circuit = this.document.circuits[circuitType] ?? { current: entry.version, versions: [] };
+    circuit.versions = [...circuit.versions.filter(v => v.version !== entry.version), entry];
+    if (makeCurrent) circuit.current = entry.version;
+    this.document.circuits[circuitType] = circuit;
+  }
+
+  /** Checks a loaded artifact against its registered version, hash, Noir version and ABI. */
+  async verifyArtifact(circuitType: CircuitType, entry: CircuitVersion, artifact: CircuitArtifact): Promise<void> {
+    const fail = (message: string) => new CircuitIntegrityError(circuitType, entry.version, message);
+
+    if (String(artifact.hash) !== entry.version) {
+      throw fail(`artifact hash is ${artifact.hash}`);
+    }
+    if (artifact.noir_version !== entry.noirVersion) {
+      throw fail(`compiled with Noir ${artifact.noir_version}, registered with ${entry.noirVersion}`);
+    }
+    const bytecodeHash = await hashBytecode(artifact.bytecode);
+    if (bytecodeHash !== entry.bytecodeHash) {
+      throw fail(`bytecode hash is ${bytecodeHash}, expected ${entry.bytecodeHash}`);
+    }
+    if (canonicalJson(artifact.abi) !== canonicalJson(entry.abi)) {
+      throw fail('ABI does not match the registered ABI');
+    }
+  }
+
+  verifyVerificationKeyHash(circuitType: CircuitType, entry: CircuitVersion, vkHash: string): void {
+    if (entry.vkHash && entry.vkHash !== vkHash) {
+      throw new CircuitIntegrityError(circuitType, entry.version, `verification key hash is ${vkHash}, expected ${entry.vkHash}`);
+    }
+  }
+
+  toJSON(): CircuitRegistryDocument {
+    return this.document;
+  }
+}
+
+/** Builds the registry entry for a freshly compiled artifact. */
+export async function describeArtifact(
+  artifact: CircuitArtifact,
+  artifactPath: string,
+  vkHash: string | null = null
+): Promise<CircuitVersion> {
+  if (artifact.hash === undefined || !artifact.noir_version) {
+    throw new Error(`Artifact ${artifactPath} is missing its hash or noir_version`);
+  }
+  return {
+    version: String(artifact.hash),
+    noirVersion: artifact.noir_version,
+    artifact: artifactPath,
+    bytecodeHash: await hashBytecode(artifact.bytecode),
+    vkHash,
+    abi: artifact.abi,
+  };
+}
+
+async function hashBytecode(bytecode: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(bytecode), c => c.charCodeAt(0));
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
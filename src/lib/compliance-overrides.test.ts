@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ComplianceOverrideRegistry, MemoryAuditSink, loadOverridesFile } from './compliance-overrides';
+import { ComplianceCheckResult } from './range-client';
+
+const HOUR = 60 * 60 * 1000;
+
+function failingResult(isSanctioned = false): ComplianceCheckResult {
+  return {
+    isCompliant: false,
+    riskScore: isSanctioned ? 10 : 7,
+    riskLevel: isSanctioned ? 'CRITICAL RISK (Directly malicious)' : 'High risk',
+    isSanctioned,
+    reasoning: '2 hops from mixer.',
+    rawResponse: {
+      riskScore: isSanctioned ? 10 : 7,
+      riskLevel: isSanctioned ? 'CRITICAL RISK (Directly malicious)' : 'High risk',
+      numHops: 2,
+      maliciousAddressesFound: [],
+      reasoning: '2 hops from mixer.',
+    },
+  };
+}
+
+describe('ComplianceOverrideRegistry', () => {
+  let now: number;
+  let audit: MemoryAuditSink;
+  let registry: ComplianceOverrideRegistry;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    audit = new MemoryAuditSink();
+    registry = new ComplianceOverrideRegistry({ auditSink: audit, now: () => now });
+  });
+
+  describe('add', () => {
+    it('should create overrides and audit them', async () => {
+      const override = await registry.add({
+        address: 'EmployeeWallet',
+        reason: 'Range false positive, verified payslip history',
+        approver: 'compliance@shadowpay.dev',
+        scope: 'recipient',
+        expiresAt: now + HOUR,
+      });
+
+      expect(override.id).toMatch(/^ovr_/);
+      expect(audit.getEvents()[0].action).toBe('created');
+    });
+
+    it('should require reason, approver and future expiry', async () => {
+      const base = { address: 'A', reason: 'r', approver: 'a', scope: 'all' as const, expiresAt: now + HOUR };
+
+      await expect(registry.add({ ...base, reason: ' ' })).rejects.toThrow('requires a reason');
+      await expect(registry.add({ ...base, approver: '' })).rejects.toThrow('requires an approver');
+      await expect(registry.add({ ...base, expiresAt: now })).rejects.toThrow('must be in the future');
+    });
+  });
+
+  describe('apply', () => {
+    it('should clear failures within scope and record usage', async () => {
+      const override = await registry.add({
+        address: 'EmployeeWallet',
+        reason: 'False positive',
+        approver: 'cfo',
+        scope: 'recipient',
+        expiresAt: now + HOUR,
+      });
+
+      const result = await registry.apply('EmployeeWallet', failingResult(), 'recipient', 'private_transfer');
+
+      expect(result.isCompliant).toBe(true);
+      expect(result.override?.overrideId).toBe(override.id);
+      expect(result.override?.originalRiskScore).toBe(7);
+      expect(audit.getEvents().map(e => e.action)).toEqual(['created', 'applied']);
+      expect(audit.getEvents()[1].context).toBe('private_transfer');
+    });
+
+    it('should not apply outside its scope', async () => {
+      await registry.add({ address: 'W', reason: 'r', approver: 'a', scope: 'recipient', expiresAt: now + HOUR });
+
+      const asSender = await registry.apply('W', failingResult(), 'sender', 'quick_check');
+      const noRole = await registry.apply('W', failingResult(), undefined, 'quick_check');
+
+      expect(asSender.isCompliant).toBe(false);
+      expect(noRole.isCompliant).toBe(false);
+    });
+
+    it('should not apply after expiry or revocation', async () => {
+      const expiring = await registry.add({ address: 'W', reason: 'r', approver: 'a', scope: 'all', expiresAt: now + HOUR });
+      now += HOUR;
+      expect((await registry.apply('W', failingResult(), 'recipient', 'quick_check')).isCompliant).toBe(false);
+
+      const revoked = await registry.add({ address: 'W', reason: 'r', approver: 'a', scope: 'all', expiresAt: now + HOUR });
+      await registry.revoke(revoked.id, 'cfo', 'No longer employed');
+      expect((await registry.apply('W', failingResult(), 'recipient', 'quick_check')).isCompliant).toBe(false);
+
+      expect(registry.get(expiring.id)?.revokedAt).toBeUndefined();
+      expect(audit.getEvents().filter(e => e.action === 'revoked')).toHaveLength(1);
+    });
+
+    it('should not clear sanctions unless explicitly covered', async () => {
+      await registry.add({ address: 'W', reason: 'r', approver: 'a', scope: 'all', expiresAt: now + HOUR });
+      expect((await registry.apply('W', failingResult(true), 'recipient', 'quick_check')).isCompliant).toBe(false);
+
+      await registry.add({
+        address: 'W2', reason: 'r', approver: 'a', scope: 'all', expiresAt: now + HOUR, coversSanctioned: true,
+      });
+      expect((await registry.apply('W2', failingResult(true), 'recipient', 'quick_check')).isCompliant).toBe(true);
+    });
+
+    it('should leave compliant results untouched', async () => {
+      await registry.add({ address: 'W', reason: 'r', approver: 'a', scope: 'all', expiresAt: now + HOUR });
+      const passing = { ...failingResult(), isCompliant: true };
+
+      const result = await registry.apply('W', passing, 'recipient', 'quick_check');
+
+      expect(result).toBe(passing);
+      expect(audit.getEvents().filter(e => e.action === 'applied')).toHaveLength(0);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should reject unknown and already revoked overrides', async () => {
+      await expect(registry.revoke('ovr_missing', 'cfo')).rejects.toThrow('Unknown override');
+
+      const override = await registry.add({ address: 'W', reason: 'r', approver: 'a', scope: 'all', expiresAt: now + HOUR });
+      await registry.revoke(override.id, 'cfo');
+      await expect(registry.revoke(override.id, 'cfo')).rejects.toThrow('already revoked');
+    });
+  });
+});
+
+describe('loadOverridesFile', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'compliance-overrides-'));
+    filePath = path.join(dir, 'overrides.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reject entries without a wallet, reason or expiry', async () => {
+    const valid = {
+      id: 'ovr_1', address: 'W', reason: 'r', approver: 'a', scope: 'all', createdAt: 1, expiresAt: Date.now() + HOUR,
+    };
+
+    await fs.writeFile(filePath, JSON.stringify([valid, { ...valid, id: 'ovr_2', address: undefined }]));
+    await expect(loadOverridesFile(filePath)).rejects.toThrow('Invalid override at index 1: missing wallet address');
+
+    await fs.writeFile(filePath, JSON.stringify([{ ...valid, reason: ' ' }]));
+    await expect(loadOverridesFile(filePath)).rejects.toThrow('missing reason');
+
+    await fs.writeFile(filePath, JSON.stringify([{ ...valid, expiresAt: 'tomorrow' }]));
+    await expect(loadOverridesFile(filePath)).rejects.toThrow('must be timestamps');
+
+    await fs.writeFile(filePath, JSON.stringify({ overrides: [valid] }));
+    await expect(loadOverridesFile(filePath)).rejects.toThrow('expected a list of overrides');
+
+    expect(await loadOverridesFile(path.join(dir, 'missing.json'))).toEqual([]);
+  });
+
+  it('should persist added and revoked overrides for the next registry', async () => {
+    const writer = new ComplianceOverrideRegistry({ overrides: await loadOverridesFile(filePath), filePath });
+    const kept = await writer.add({ address: 'W', reason: 'r', approver: 'a', scope: 'all', expiresAt: Date.now() + HOUR });
+    const revoked = await writer.add({ address: 'W2', reason: 'r', approver: 'a', scope: 'all', expiresAt: Date.now() + HOUR });
+    await writer.revoke(revoked.id, 'cfo');
+
+    const reader = new ComplianceOverrideRegistry({ overrides: await loadOverridesFile(filePath), filePath });
+
+    expect(reader.findActive('W')?.id).toBe(kept.id);
+    expect(reader.get(revoked.id)?.revokedBy).toBe('cfo');
+    expect(reader.findActive('W2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,272 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readJsonFile, updateJsonFile } from './json-file';
+import type { ComplianceCheckResult } from './range-client';
+
+export type ComplianceRole = 'sender' | 'recipient';
+export type OverrideScope = ComplianceRole | 'all';
+export type OverrideAuditAction = 'created' | 'revoked' | 'applied';
+
+export interface ComplianceOverride {
+  id: string;
+  address: string;
+  reason: string;
+  approver: string;
+  scope: OverrideScope;
+  createdAt: number;
+  expiresAt: number;
+  coversSanctioned?: boolean;
+  revokedAt?: number;
+  revokedBy?: string;
+}
+
+export type ComplianceOverrideInput = Omit<ComplianceOverride, 'id' | 'createdAt' | 'revokedAt' | 'revokedBy'>;
+
+export interface AppliedOverride {
+  overrideId: string;
+  reason: string;
+  approver: string;
+  scope: OverrideScope;
+  expiresAt: number;
+  originalRiskScore: number;
+  originalReasoning: string;
+}
+
+export interface OverrideAuditEvent {
+  action: OverrideAuditAction;
+  overrideId: string;
+  address: string;
+  actor: string;
+  timestamp: number;
+  context?: string;
+  details?: string;
+}
+
+export interface OverrideAuditSink {
+  record(event: OverrideAuditEvent): Promise<void>;
+}
+
+export interface OverrideRegistryConfig {
+  overrides?: ComplianceOverride[];
+  /** File `overrides` were loaded from; `add` and `revoke` write their changes back to it. */
+  filePath?: string;
+  auditSink?: OverrideAuditSink;
+  now?: () => number;
+}
+
+const OVERRIDE_SCOPES: OverrideScope[] = ['sender', 'recipient', 'all'];
+
+export class MemoryAuditSink implements OverrideAuditSink {
+  private events: OverrideAuditEvent[] = [];
+
+  async record(event: OverrideAuditEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  getEvents(): OverrideAuditEvent[] {
+    return [...this.events];
+  }
+}
+
+export class FileAuditSink implements OverrideAuditSink {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async record(event: OverrideAuditEvent): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(event)}\n`, 'utf8');
+  }
+}
+
+export class ComplianceOverrideRegistry {
+  private overrides: Map<string, ComplianceOverride> = new Map();
+  private filePath?: string;
+  private auditSink: OverrideAuditSink;
+  private now: () => number;
+
+  constructor(config?: OverrideRegistryConfig) {
+    this.filePath = config?.filePath;
+    this.auditSink = config?.auditSink ?? new MemoryAuditSink();
+    this.now = config?.now ?? Date.now;
+    config?.overrides?.forEach(o => this.overrides.set(o.id, o));
+  }
+
+  async add(input: ComplianceOverrideInput): Promise<ComplianceOverride> {
+    this.validateInput(input);
+
+    const override: ComplianceOverride = {
+      ...input,
+      id: this.generateOverrideId(),
+      createdAt: this.now(),
+    };
+    await this.save(override);
+
+    await this.auditSink.record({
+      action: 'created',
+      overrideId: override.id,
+      address: override.address,
+      actor: override.approver,
+      timestamp: override.createdAt,
+      details: `${override.scope}: ${override.reason}`,
+    });
+
+    return override;
+  }
+
+  async revoke(overrideId: string, revokedBy: string, reason?: string): Promise<ComplianceOverride> {
+    const override = this.overrides.get(overrideId);
+    if (!override) {
+      throw new Error(`Unknown override: ${overrideId}`);
+    }
+    if (override.revokedAt) {
+      throw new Error(`Override already revoked: ${overrideId}`);
+    }
+
+    const revoked = { ...override, revokedAt: this.now(), revokedBy };
+    await this.save(revoked);
+
+    await this.auditSink.record({
+      action: 'revoked',
+      overrideId,
+      address: override.address,
+      actor: revokedBy,
+      timestamp: revoked.revokedAt,
+      details: reason,
+    });
+
+    return revoked;
+  }
+
+  get(overrideId: string): ComplianceOverride | undefined {
+    return this.overrides.get(overrideId);
+  }
+
+  list(address?: string): ComplianceOverride[] {
+    const all = Array.from(this.overrides.values());
+    return address ? all.filter(o => o.address === address) : all;
+  }
+
+  findActive(address: string, role?: ComplianceRole): ComplianceOverride | undefined {
+    const now = this.now();
+    return this.list(address).find(o =>
+      !o.revokedAt &&
+      o.expiresAt > now &&
+      (o.scope === 'all' || o.scope === role)
+    );
+  }
+
+  async apply(
+    address: string,
+    result: ComplianceCheckResult,
+    role: ComplianceRole | undefined,
+    context: string
+  ): Promise<ComplianceCheckResult> {
+    if (result.isCompliant) return result;
+
+    const override = this.findActive(address, role);
+    if (!override) return result;
+    if (result.isSanctioned && !override.coversSanctioned) return result;
+
+    await this.auditSink.record({
+      action: 'applied',
+      overrideId: override.id,
+      address,
+      actor: override.approver,
+      timestamp: this.now(),
+      context,
+      details: `Risk score ${result.riskScore}: ${result.reasoning}`,
+    });
+
+    return {
+      ...result,
+      isCompliant: true,
+      reasoning: `Override ${override.id} approved by ${override.approver}: ${override.reason}`,
+      override: {
+        overrideId: override.id,
+        reason: override.reason,
+        approver: override.approver,
+        scope: override.scope,
+        expiresAt: override.expiresAt,
+        originalRiskScore: result.riskScore,
+        originalReasoning: result.reasoning,
+      },
+    };
+  }
+
+  private async save(override: ComplianceOverride): Promise<void> {
+    if (this.filePath) {
+      await updateJsonFile<ComplianceOverride[], void>(this.filePath, [], overrides => {
+        const index = overrides.findIndex(o => o.id === override.id);
+        if (index === -1) {
+          overrides.push(override);
+        } else {
+          overrides[index] = override;
+        }
+      });
+    }
+    this.overrides.set(override.id, override);
+  }
+
+  private validateInput(input: ComplianceOverrideInput): void {
+    if (!input.address) {
+      throw new Error('Override requires an address');
+    }
+    if (!input.reason?.trim()) {
+      throw new Error('Override requires a reason');
+    }
+    if (!input.approver?.trim()) {
+      throw new Error('Override requires an approver');
+    }
+    if (input.expiresAt <= this.now()) {
+      throw new Error('Override expiry must be in the future');
+    }
+  }
+
+  private generateOverrideId(): string {
+    const timestamp = this.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 10);
+    return `ovr_${timestamp}_${random}`;
+  }
+}
+
+export async function loadOverridesFile(filePath: string): Promise<ComplianceOverride[]> {
+  const overrides = await readJsonFile<unknown>(filePath, []);
+  if (!Array.isArray(overrides)) {
+    throw new Error('Invalid overrides file: expected a list of overrides');
+  }
+  overrides.forEach(validateOverride);
+  return overrides as ComplianceOverride[];
+}
+
+function validateOverride(entry: unknown, index: number): void {
+  const override = (entry ?? {}) as Partial<ComplianceOverride>;
+  const fail = (reason: string) => {
+    throw new Error(`Invalid override at index ${index}: ${reason}`);
+  };
+
+  if (typeof override.id !== 'string' || !override.id) {
+    fail('missing id');
+  }
+  if (typeof override.address !== 'string' || !override.address.trim()) {
+    fail('missing wallet address');
+  }
+  if (typeof override.reason !== 'string' || !override.reason.trim()) {
+    fail('missing reason');
+  }
+  if (typeof override.approver !== 'string' || !override.approver.trim()) {
+    fail('missing approver');
+  }
+  if (!OVERRIDE_SCOPES.includes(override.scope as OverrideScope)) {
+    fail(`scope must be one of ${OVERRIDE_SCOPES.join(', ')}`);
+  }
+  if (!Number.isFinite(override.createdAt) || !Number.isFinite(override.expiresAt)) {
+    fail('createdAt and expiresAt must be timestamps in milliseconds');
+  }
+}
+
+export function createOverrideRegistry(config?: OverrideRegistryConfig): ComplianceOverrideRegistry {
+  return new ComplianceOverrideRegistry(config);
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'bun:test';
+import path from 'path';
+import { PolicyEngine, PolicyDocument, loadPolicyFile, parsePolicyDocument } from './compliance-policy';
+import { ComplianceCheckResult } from './range-client';
+
+function complianceResult(overrides: Partial<ComplianceCheckResult> = {}): ComplianceCheckResult {
+  return {
+    isCompliant: true,
+    riskScore: 2,
+    riskLevel: 'Low risk',
+    isSanctioned: false,
+    reasoning: 'Low exposure.',
+    rawResponse: {
+      riskScore: 2,
+      riskLevel: 'Low risk',
+      numHops: 3,
+      maliciousAddressesFound: [{
+        address: 'MixerAddr',
+        distance: 3,
+        name_tag: 'Mixer',
+        entity: null,
+        category: 'mixer',
+      }],
+      reasoning: 'Low exposure.',
+    },
+    ...overrides,
+  };
+}
+
+const DOCUMENT: PolicyDocument = {
+  version: 'test-1',
+  defaultPolicy: 'retail',
+  policies: {
+    retail: {
+      maxRiskScore: 5,
+      minimumAge: 18,
+      transferCaps: { SOL: 100 },
+    },
+    institutional: {
+      maxRiskScore: 3,
+      blockedCategories: ['mixer'],
+      minMaliciousHopDistance: 4,
+      minBalanceUsd: 50000,
+    },
+    contractor: {
+      excludedCountries: [192, 364, 408],
+    },
+  },
+};
+
+describe('PolicyEngine', () => {
+  const engine = new PolicyEngine(DOCUMENT, () => 1000);
+
+  describe('evaluate', () => {
+    it('should pass every rule for a compliant context', () => {
+      const verdict = engine.evaluate('retail', {
+        compliance: complianceResult(),
+        age: 30,
+        transfer: { amount: 10, token: 'SOL' },
+      });
+
+      expect(verdict.passed).toBe(true);
+      expect(verdict.policyVersion).toBe('test-1');
+      expect(verdict.rules.map(r => r.rule)).toEqual([
+        'max_risk_score',
+        'not_sanctioned',
+        'minimum_age',
+        'transfer_cap',
+      ]);
+    });
+
+    it('should explain which rules failed', () => {
+      const verdict = engine.evaluate('institutional', {
+        compliance: complianceResult(),
+        walletBalanceUsd: 1000,
+      });
+
+      expect(verdict.passed).toBe(false);
+      const failed = verdict.rules.filter(r => r.status === 'fail');
+      expect(failed.map(r => r.rule)).toEqual([
+        'blocked_categories',
+        'min_malicious_hop_distance',
+        'min_balance_usd',
+      ]);
+      expect(failed[0].actual).toBe('mixer@MixerAddr');
+      expect(failed[1].message).toBe('Failed: expected >= 4 hops, got 3 hops');
+    });
+
+    it('should enforce per-token transfer caps', () => {
+      const verdict = engine.evaluate('retail', {
+        compliance: complianceResult(),
+        transfer: { amount: 150, token: 'SOL' },
+      });
+
+      expect(verdict.passed).toBe(false);
+      expect(verdict.rules.find(r => r.rule === 'transfer_cap')?.status).toBe('fail');
+    });
+
+    it('should skip rules without context and not pass them', () => {
+      const verdict = engine.evaluate('retail', {});
+
+      expect(verdict.passed).toBe(false);
+      expect(verdict.rules.every(r => r.status === 'skipped')).toBe(true);
+    });
+
+    it('should take unchecked wallet rules from an attestation under the same policy', () => {
+      const context = { compliance: complianceResult(), transfer: { amount: 10, token: 'SOL' as const } };
+
+      const attested = engine.evaluate('retail', { ...context, attestation: { attestationId: 'att_1', policy: 'retail' } });
+      const otherPolicy = engine.evaluate('retail', { ...context, attestation: { attestationId: 'att_2', policy: 'contractor' } });
+
+      expect(attested.passed).toBe(true);
+      expect(attested.rules.find(r => r.rule === 'minimum_age')?.actual).toBe('attested by att_1');
+      expect(otherPolicy.passed).toBe(false);
+      expect(otherPolicy.rules.find(r => r.rule === 'minimum_age')?.status).toBe('skipped');
+    });
+
+    it('should fail sanctioned addresses', () => {
+      const verdict = engine.evaluate('retail', {
+        compliance: complianceResult({ isSanctioned: true }),
+      });
+
+      expect(verdict.rules.find(r => r.rule === 'not_sanctioned')?.status).toBe('fail');
+    });
+
+    it('should honour compliance overrides for risk rules', () => {
+      const verdict = engine.evaluate('institutional', {
+        compliance: complianceResult({
+          riskScore: 7,
+          override: {
+            overrideId: 'ovr_1',
+            reason: 'False positive',
+            approver: 'cfo',
+            scope: 'recipient',
+            expiresAt: 2000,
+            originalRiskScore: 7,
+            originalReasoning: 'Mixer exposure',
+          },
+        }),
+        walletBalanceUsd: 60000,
+      });
+
+      expect(verdict.passed).toBe(true);
+      expect(verdict.rules[0].message).toContain('Overridden by ovr_1');
+    });
+
+    it('should check residency without recording the country', () => {
+      const engine = new PolicyEngine(DOCUMENT);
+
+      const allowed = engine.evaluate('contractor', { countryCode: 276 }).rules.find(r => r.rule === 'jurisdiction');
+      const excluded = engine.evaluate('contractor', { countryCode: 364 }).rules.find(r => r.rule === 'jurisdiction');
+      const missing = engine.evaluate('contractor', {}).rules.find(r => r.rule === 'jurisdiction');
+
+      expect(allowed).toMatchObject({ status: 'pass', actual: 'not listed' });
+      expect(excluded).toMatchObject({ status: 'fail', expected: 'not in 192, 364, 408', actual: 'listed' });
+      expect(missing?.status).toBe('skipped');
+    });
+
+    it('should use the default policy', () => {
+      expect(engine.evaluate(undefined, {}).policy).toBe('retail');
+    });
+
+    it('should reject unknown policies', () => {
+      expect(() => engine.evaluate('missing', {})).toThrow('Unknown compliance policy: missing');
+    });
+  });
+
+  describe('parsing', () => {
+    it('should parse YAML documents', () => {
+      const document = parsePolicyDocument('policies:\n  retail:\n    maxRiskScore: 4\n', 'yaml');
+
+      expect(document.policies.retail.maxRiskScore).toBe(4);
+    });
+
+    it('should reject invalid thresholds', () => {
+      expect(() => parsePolicyDocument('{"policies":{"bad":{"maxRiskScore":11}}}'))
+        .toThrow('Invalid policy "bad": maxRiskScore must be an integer between 1 and 10');
+      expect(() => parsePolicyDocument('{"policies":{"bad":{"transferCaps":{"SOL":0}}}}'))
+        .toThrow('transfer cap for SOL must be a positive number');
+    });
+
+    it('should reject invalid country lists', () => {
+      expect(() => parsePolicyDocument('{"policies":{"bad":{"excludedCountries":[0]}}}'))
+        .toThrow('excludedCountries must contain ISO 3166-1 numeric codes');
+      expect(() => parsePolicyDocument('{"policies":{"bad":{"excludedCountries":[1],"allowedCountries":[2]}}}'))
+        .toThrow('use either excludedCountries or allowedCountries, not both');
+    });
+
+    it('should reject unknown default policies', () => {
+      expect(() => parsePolicyDocument('{"defaultPolicy":"x","policies":{}}')).toThrow('unknown default policy');
+    });
+
+    it('should load the example policy file', async () => {
+      const document = await loadPolicyFile(
+        path.join(__dirname, '..', '..', 'config', 'compliance-policies.example.yaml')
+      );
+
+      expect(Object.keys(document.policies)).toEqual(['retail', 'institutional', 'contractor-EU']);
+    });
+  });
+});
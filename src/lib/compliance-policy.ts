@@ -0,0 +1,296 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ComplianceCheckResult } from './range-client';
+import type { SupportedToken } from './shadowwire-service';
+import { findCategoryEvidence } from './risk-evaluator';
+import { JURISDICTION_LIST_SIZE, JurisdictionRule } from './noir-proof-service';
+
+export interface PolicyRules {
+  description?: string;
+  maxRiskScore?: number;
+  blockSanctioned?: boolean;
+  blockedCategories?: string[];
+  minMaliciousHopDistance?: number;
+  minimumAge?: number;
+  minBalanceUsd?: number;
+  /** ISO 3166-1 numeric codes a payee must not reside in */
+  excludedCountries?: number[];
+  /** ISO 3166-1 numeric codes a payee must reside in */
+  allowedCountries?: number[];
+  transferCaps?: Partial<Record<SupportedToken, number>>;
+}
+
+export interface CompliancePolicy extends PolicyRules {
+  name: string;
+}
+
+export interface PolicyDocument {
+  version?: string;
+  defaultPolicy?: string;
+  policies: Record<string, PolicyRules>;
+}
+
+export type PolicyRuleStatus = 'pass' | 'fail' | 'skipped';
+
+export interface PolicyRuleResult {
+  rule: string;
+  status: PolicyRuleStatus;
+  expected: string;
+  actual: string;
+  message: string;
+}
+
+export interface PolicyVerdict {
+  policy: string;
+  policyVersion?: string;
+  passed: boolean;
+  rules: PolicyRuleResult[];
+  evaluatedAt: number;
+}
+
+export interface PolicyEvaluationContext {
+  compliance?: ComplianceCheckResult;
+  age?: number;
+  walletBalanceUsd?: number;
+  countryCode?: number;
+  transfer?: {
+    amount: number;
+    token: SupportedToken;
+  };
+  /**
+   * An active attestation issued to the wallet under the same policy. It
+   * stands in for the age, balance and residency the attestation proved.
+   */
+  attestation?: {
+    attestationId: string;
+    policy?: string;
+  };
+}
+
+export function parsePolicyDocument(content: string, format: 'json' | 'yaml' = 'json'): PolicyDocument {
+  const parsed = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+  validatePolicyDocument(parsed);
+  return parsed;
+}
+
+export async function loadPolicyFile(filePath: string): Promise<PolicyDocument> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const ext = path.extname(filePath).toLowerCase();
+  return parsePolicyDocument(content, ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json');
+}
+
+export function validatePolicyDocument(document: unknown): asserts document is PolicyDocument {
+  const doc = document as PolicyDocument;
+  if (!doc || typeof doc !== 'object' || !doc.policies || typeof doc.policies !== 'object') {
+    throw new Error('Invalid policy document: missing policies');
+  }
+
+  for (const [name, rules] of Object.entries(doc.policies)) {
+    const fail = (reason: string) => {
+      throw new Error(`Invalid policy "${name}": ${reason}`);
+    };
+
+    if (rules.maxRiskScore !== undefined && !isIntegerInRange(rules.maxRiskScore, 1, 10)) {
+      fail('maxRiskScore must be an integer between 1 and 10');
+    }
+    if (rules.minimumAge !== undefined && !isIntegerInRange(rules.minimumAge, 0, 255)) {
+      fail('minimumAge must be an integer between 0 and 255');
+    }
+    if (rules.minBalanceUsd !== undefined && !isIntegerInRange(rules.minBalanceUsd, 0, 0xffffffff)) {
+      fail('minBalanceUsd must be a non-negative u32 integer');
+    }
+    if (rules.minMaliciousHopDistance !== undefined && !isIntegerInRange(rules.minMaliciousHopDistance, 0, 100)) {
+      fail('minMaliciousHopDistance must be a non-negative integer');
+    }
+    if (rules.blockedCategories !== undefined && !Array.isArray(rules.blockedCategories)) {
+      fail('blockedCategories must be a list');
+    }
+    if (rules.excludedCountries !== undefined && rules.allowedCountries !== undefined) {
+      fail('use either excludedCountries or allowedCountries, not both');
+    }
+    for (const key of ['excludedCountries', 'allowedCountries'] as const) {
+      const codes = rules[key];
+      if (codes === undefined) continue;
+      if (!Array.isArray(codes) || codes.length > JURISDICTION_LIST_SIZE) {
+        fail(`${key} must be a list of at most ${JURISDICTION_LIST_SIZE} country codes`);
+      }
+      if (!codes.every(code => isIntegerInRange(code, 1, 999))) {
+        fail(`${key} must contain ISO 3166-1 numeric codes (1-999)`);
+      }
+    }
+    for (const [token, cap] of Object.entries(rules.transferCaps ?? {})) {
+      if (typeof cap !== 'number' || cap <= 0) {
+        fail(`transfer cap for ${token} must be a positive number`);
+      }
+    }
+  }
+
+  if (doc.defaultPolicy !== undefined && !(doc.defaultPolicy in doc.policies)) {
+    throw new Error(`Invalid policy document: unknown default policy "${doc.defaultPolicy}"`);
+  }
+}
+
+/** The country list a policy's jurisdiction proof must be checked against, if any. */
+export function getJurisdictionRule(rules: PolicyRules): JurisdictionRule | undefined {
+  if (rules.excludedCountries) return { mode: 'exclude', countryCodes: rules.excludedCountries };
+  if (rules.allowedCountries) return { mode: 'allow', countryCodes: rules.allowedCountries };
+  return undefined;
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+export class PolicyEngine {
+  private document: PolicyDocument;
+  private now: () => number;
+
+  constructor(document: PolicyDocument, now: () => number = Date.now) {
+    validatePolicyDocument(document);
+    this.document = document;
+    this.now = now;
+  }
+
+  listPolicies(): string[] {
+    return Object.keys(this.document.policies);
+  }
+
+  getPolicy(name?: string): CompliancePolicy {
+    const policyName = name ?? this.document.defaultPolicy;
+    if (!policyName) {
+      throw new Error('No policy name given and no default policy configured');
+    }
+
+    const rules = this.document.policies[policyName];
+    if (!rules) {
+      throw new Error(`Unknown compliance policy: ${policyName}`);
+    }
+    return { name: policyName, ...rules };
+  }
+
+  evaluate(name: string | undefined, context: PolicyEvaluationContext): PolicyVerdict {
+    const policy = this.getPolicy(name);
+    const rules: PolicyRuleResult[] = [];
+    const compliance = context.compliance;
+    const attestation = context.attestation?.policy === policy.name ? context.attestation : undefined;
+    const attestedOrSkipped = (rule: string, expected: string, message: string) => attestation
+      ? this.compare(rule, true, expected, `attested by ${attestation.attestationId}`, `Proven by attestation ${attestation.attestationId}`)
+      : this.skipped(rule, expected, message);
+
+    if (policy.maxRiskScore !== undefined) {
+      rules.push(compliance
+        ? this.compareRisk(compliance, 'max_risk_score', compliance.riskScore <= policy.maxRiskScore,
+            `<= ${policy.maxRiskScore}`, String(compliance.riskScore), 'Risk score within ceiling')
+        : this.skipped('max_risk_score', `<= ${policy.maxRiskScore}`, 'No compliance check provided'));
+    }
+
+    if (policy.blockSanctioned !== false) {
+      rules.push(compliance
+        ? this.compareRisk(compliance, 'not_sanctioned', !compliance.isSanctioned,
+            'not sanctioned', compliance.isSanctioned ? 'sanctioned' : 'not sanctioned', 'Address is not sanctioned')
+        : this.skipped('not_sanctioned', 'not sanctioned', 'No compliance check provided'));
+    }
+
+    if (policy.blockedCategories && policy.blockedCategories.length > 0) {
+      const hits = compliance ? findCategoryEvidence(compliance.rawResponse, policy.blockedCategories) : [];
+      rules.push(compliance
+        ? this.compareRisk(compliance, 'blocked_categories', hits.length === 0,
+            `none of ${policy.blockedCategories.join(', ')}`,
+            hits.length === 0 ? 'none' : hits.map(h => `${h.category}@${h.address}`).join(', '),
+            'No exposure to blocked categories')
+        : this.skipped('blocked_categories', `none of ${policy.blockedCategories.join(', ')}`, 'No compliance check provided'));
+    }
+
+    if (policy.minMaliciousHopDistance !== undefined) {
+      const evidence = compliance?.rawResponse.maliciousAddressesFound ?? [];
+      const closest = evidence.length > 0 ? Math.min(...evidence.map(m => m.distance)) : null;
+      rules.push(compliance
+        ? this.compareRisk(compliance, 'min_malicious_hop_distance',
+            closest === null || closest >= policy.minMaliciousHopDistance,
+            `>= ${policy.minMaliciousHopDistance} hops`,
+            closest === null ? 'no malicious counterparties' : `${closest} hops`,
+            'Malicious counterparties are far enough away')
+        : this.skipped('min_malicious_hop_distance', `>= ${policy.minMaliciousHopDistance} hops`, 'No compliance check provided'));
+    }
+
+    if (policy.minimumAge !== undefined) {
+      rules.push(context.age !== undefined
+        ? this.compare('minimum_age', context.age >= policy.minimumAge,
+            `>= ${policy.minimumAge}`, String(context.age), 'Age requirement met')
+        : attestedOrSkipped('minimum_age', `>= ${policy.minimumAge}`, 'No age provided'));
+    }
+
+    if (policy.minBalanceUsd !== undefined) {
+      rules.push(context.walletBalanceUsd !== undefined
+        ? this.compare('min_balance_usd', context.walletBalanceUsd >= policy.minBalanceUsd,
+            `>= ${policy.minBalanceUsd}`, String(context.walletBalanceUsd), 'Balance requirement met')
+        : attestedOrSkipped('min_balance_usd', `>= ${policy.minBalanceUsd}`, 'No balance provided'));
+    }
+
+    const jurisdiction = getJurisdictionRule(policy);
+    if (jurisdiction) {
+      const expected = `${jurisdiction.mode === 'exclude' ? 'not in' : 'in'} ${jurisdiction.countryCodes.join(', ')}`;
+      const listed = context.countryCode !== undefined && jurisdiction.countryCodes.includes(context.countryCode);
+      // The country itself is never recorded in the verdict
+      rules.push(context.countryCode !== undefined
+        ? this.compare('jurisdiction', jurisdiction.mode === 'exclude' ? !listed : listed,
+            expected, listed ? 'listed' : 'not listed', 'Residency requirement met')
+        : attestedOrSkipped('jurisdiction', expected, 'No country code provided'));
+    }
+
+    if (context.transfer) {
+      const cap = policy.transferCaps?.[context.transfer.token];
+      if (cap !== undefined) {
+        rules.push(this.compare('transfer_cap', context.transfer.amount <= cap,
+          `<= ${cap} ${context.transfer.token}`, `${context.transfer.amount} ${context.transfer.token}`,
+          'Transfer amount within cap'));
+      }
+    }
+
+    return {
+      policy: policy.name,
+      policyVersion: this.document.version,
+      // A rule that could not be checked does not count as met
+      passed: rules.every(r => r.status === 'pass'),
+      rules,
+      evaluatedAt: this.now(),
+    };
+  }
+
+  private compare(rule: string, passed: boolean, expected: string, actual: string, message: string): PolicyRuleResult {
+    return {
+      rule,
+      status: passed ? 'pass' : 'fail',
+      expected,
+      actual,
+      message: passed ? message : `Failed: expected ${expected}, got ${actual}`,
+    };
+  }
+
+  private compareRisk(
+    compliance: ComplianceCheckResult,
+    rule: string,
+    passed: boolean,
+    expected: string,
+    actual: string,
+    message: string
+  ): PolicyRuleResult {
+    const result = this.compare(rule, passed, expected, actual, message);
+    if (passed || !compliance.override) return result;
+
+    return {
+      ...result,
+      status: 'pass',
+      message: `Overridden by ${compliance.override.overrideId} (approved by ${compliance.override.approver})`,
+    };
+  }
+
+  private skipped(rule: string, expected: string, message: string): PolicyRuleResult {
+    return { rule, status: 'skipped', expected, actual: 'n/a', message };
+  }
+}
+
+export function createPolicyEngine(document: PolicyDocument): PolicyEngine {
+  return new PolicyEngine(document);
+}
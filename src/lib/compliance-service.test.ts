@@ -1,5 +1,21 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { ComplianceService } from './compliance-service';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import path from 'path';
+import { createAttestationIssuer } from './attestation-document';
+import { AttestationRegistry } from './attestation-registry';
+import { todayDateNumber } from './date-utils';
+import { loadPolicyFile } from './compliance-policy';
+import { ComplianceService, SalaryReceipt, SalaryReceiptError } from './compliance-service';
+import { CredentialError, KycCredentialIssuer, KycIssuerKey } from './kyc-credential';
+import { NoirProofService, ProofInputError, commitSalary, hashJurisdictionRule, hashWalletAddress } from './noir-proof-service';
+import { RiskProvider } from './risk-provider';
+import { RiskHistory } from './risk-history';
+import { ShadowWireService, TransferParams, TransferResult } from './shadowwire-service';
+import { WalletOwnershipError, WalletOwnershipVerifier } from './wallet-ownership';
+
+// Real proving is covered by the proof service tests; these only need proofs that verify
+const proofService = new NoirProofService({ useRealProofs: false });
 
 describe('ComplianceService', () => {
   let service: ComplianceService;
@@ -8,6 +24,7 @@ describe('ComplianceService', () => {
     service = new ComplianceService({
       rangeApiKey: 'test-key',
       useMockRange: true,
+      proofService,
       maxRiskThreshold: 5,
       defaultMinimumAge: 18,
       defaultMinBalanceUsd: 1000,
@@ -40,6 +57,18 @@ describe('ComplianceService', () => {
       expect(result.isCompliant).toBe(false);
     });
 
+    it('should prove age from a birth date against today', async () => {
+      const result = await service.generateAttestation({
+        walletAddress: 'TestWallet123',
+        birthDate: '1990-06-15',
+        walletBalanceUsd: 5000,
+      });
+
+      expect(result.isCompliant).toBe(true);
+      expect(result.proofs.birthDateAge?.publicInputs).toEqual([String(todayDateNumber()), '18']);
+      expect(result.publicInputs.asOfDate).toBe(todayDateNumber());
+    });
+
     it('should use custom thresholds when provided', async () => {
       const result = await service.generateAttestation({
         walletAddress: 'TestWallet123',
@@ -55,6 +84,34 @@ describe('ComplianceService', () => {
       expect(result.publicInputs.maxRiskScore).toBe(3);
       expect(result.publicInputs.minBalanceUsd).toBe(10000);
     });
+
+    it('should not attest a wallet that failed the risk check', async () => {
+      const findingsProvider: RiskProvider = {
+        name: 'category-screen',
+        async checkCompliance() {
+          return {
+            isCompliant: false,
+            riskScore: 2,
+            riskLevel: 'Low risk',
+            isSanctioned: false,
+            reasoning: 'Direct exposure to a mixer.',
+            rawResponse: { riskScore: 2, riskLevel: 'Low risk', numHops: 1, maliciousAddressesFound: [], reasoning: '' },
+            findings: [{ rule: 'category:mixer', category: 'mixer', distance: 1, counterparty: 'MixerAddr', nameTag: null, entity: null }],
+          };
+        },
+      };
+      service = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        riskProviders: [{ provider: findingsProvider }],
+      });
+
+      const result = await service.generateAttestation({ walletAddress: 'TestWallet123', age: 25, walletBalanceUsd: 5000 });
+
+      expect(result.complianceCheck.isCompliant).toBe(false);
+      expect(result.isCompliant).toBe(false);
+    });
   });
 
   describe('quickComplianceCheck', () => {
@@ -67,6 +124,377 @@ describe('ComplianceService', () => {
     });
   });
 
+  describe('registerRiskProvider', () => {
+    const sanctionsProvider: RiskProvider = {
+      name: 'sanctions-list',
+      async checkCompliance() {
+        return {
+          isCompliant: false,
+          riskScore: 10,
+          riskLevel: 'CRITICAL RISK (Directly malicious)',
+          isSanctioned: true,
+          reasoning: 'Listed on sanctions list.',
+          rawResponse: {
+            riskScore: 10,
+            riskLevel: 'CRITICAL RISK (Directly malicious)',
+            numHops: 0,
+            maliciousAddressesFound: [],
+            reasoning: 'Listed on sanctions list.',
+          },
+        };
+      },
+    };
+
+    it('should combine registered providers with Range', async () => {
+      service.registerRiskProvider(sanctionsProvider);
+      const result = await service.quickComplianceCheck('SafeWallet123');
+
+      expect(service.getRiskProviderNames()).toEqual(['range', 'sanctions-list']);
+      expect(result.isCompliant).toBe(false);
+      expect(result.isSanctioned).toBe(true);
+    });
+
+    it('should accept providers through config', async () => {
+      const configured = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        riskProviders: [{ provider: sanctionsProvider }],
+        riskCombinationMode: 'any_sanctioned',
+      });
+
+      const result = await configured.executePrivateTransfer({
+        senderAddress: 'Sender123',
+        recipientAddress: 'Recipient456',
+        amount: 1.0,
+        token: 'SOL',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.recipientCompliance?.isSanctioned).toBe(true);
+    });
+  });
+
+  describe('compliance overrides', () => {
+    const highRiskProvider: RiskProvider = {
+      name: 'strict-screen',
+      async checkCompliance() {
+        return {
+          isCompliant: false,
+          riskScore: 7,
+          riskLevel: 'High risk',
+          isSanctioned: false,
+          reasoning: 'Indirect exposure to mixer.',
+          rawResponse: {
+            riskScore: 7,
+            riskLevel: 'High risk',
+            numHops: 2,
+            maliciousAddressesFound: [],
+            reasoning: 'Indirect exposure to mixer.',
+          },
+        };
+      },
+    };
+
+    it('should apply recipient overrides in quick checks', async () => {
+      service.registerRiskProvider(highRiskProvider);
+      await service.getOverrideRegistry().add({
+        address: 'EmployeeWallet',
+        reason: 'Known employee, false positive',
+        approver: 'compliance-officer',
+        scope: 'recipient',
+        expiresAt: Date.now() + 60_000,
+      });
+
+      const unscoped = await service.quickComplianceCheck('EmployeeWallet');
+      const asRecipient = await service.quickComplianceCheck('EmployeeWallet', 'recipient');
+
+      expect(unscoped.isCompliant).toBe(false);
+      expect(asRecipient.isCompliant).toBe(true);
+      expect(asRecipient.override?.approver).toBe('compliance-officer');
+    });
+
+    it('should report overrides used for transfers', async () => {
+      service.registerRiskProvider(highRiskProvider);
+      await service.getOverrideRegistry().add({
+        address: 'Recipient456',
+        reason: 'Known employee, false positive',
+        approver: 'compliance-officer',
+        scope: 'recipient',
+        expiresAt: Date.now() + 60_000,
+      });
+
+      const result = await service.executePrivateTransfer({
+        senderAddress: 'Sender123',
+        recipientAddress: 'Recipient456',
+        amount: 1.0,
+        token: 'SOL',
+      });
+
+      expect(result.recipientCompliance?.override?.reason).toBe('Known employee, false positive');
+      expect(result.transferResult).toBeDefined();
+    });
+  });
+
+  describe('policies', () => {
+    let policyService: ComplianceService;
+
+    beforeEach(() => {
+      policyService = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        policies: {
+          policies: {
+            retail: { maxRiskScore: 5, minimumAge: 18, transferCaps: { SOL: 10 } },
+            institutional: { maxRiskScore: 3, minimumAge: 21, minBalanceUsd: 50000 },
+            contractor: { maxRiskScore: 5, excludedCountries: [192, 364, 408] },
+          },
+        },
+      });
+    });
+
+    it('should evaluate a named policy rule by rule', async () => {
+      const verdict = await policyService.evaluatePolicy('institutional', {
+        address: 'TestWallet123',
+        age: 25,
+        walletBalanceUsd: 1000,
+      });
+
+      expect(verdict.passed).toBe(false);
+      expect(verdict.rules.find(r => r.rule === 'min_balance_usd')?.status).toBe('fail');
+      expect(verdict.rules.find(r => r.rule === 'max_risk_score')?.status).toBe('pass');
+    });
+
+    it('should take attestation thresholds from the policy', async () => {
+      const result = await policyService.generateAttestation({
+        walletAddress: 'TestWallet123',
+        age: 25,
+        walletBalanceUsd: 60000,
+        policy: 'institutional',
+      });
+
+      expect(result.isCompliant).toBe(true);
+      expect(result.publicInputs).toEqual({
+        minimumAge: 21,
+        maxRiskScore: 3,
+        minBalanceUsd: 50000,
+        walletHash: await hashWalletAddress('TestWallet123'),
+      });
+      expect(result.policyVerdict?.policy).toBe('institutional');
+    });
+
+    it('should prove residency outside excluded countries when the policy requires it', async () => {
+      const result = await policyService.generateAttestation({
+        walletAddress: 'TestWallet123',
+        age: 25,
+        countryCode: 276,
+        policy: 'contractor',
+      });
+
+      expect(result.isCompliant).toBe(true);
+      expect(result.proofs.jurisdiction).toBeDefined();
+      expect(result.publicInputs.jurisdictionHash).toBe(
+        await hashJurisdictionRule({ mode: 'exclude', countryCodes: [192, 364, 408] })
+      );
+    });
+
+    it('should not attest payees in excluded countries', async () => {
+      const excluded = await policyService.generateAttestation({
+        walletAddress: 'TestWallet123',
+        age: 25,
+        countryCode: 364,
+        policy: 'contractor',
+      });
+
+      expect(excluded.isCompliant).toBe(false);
+      expect(excluded.policyVerdict?.rules.find(r => r.rule === 'jurisdiction')?.status).toBe('fail');
+      expect(excluded.proofs.jurisdiction).toBeUndefined();
+    });
+
+    it('should refuse to attest without a country instead of issuing a non-compliant attestation', async () => {
+      const registry = new AttestationRegistry();
+      const registering = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        policies: { policies: { contractor: { maxRiskScore: 5, excludedCountries: [192, 364, 408] } } },
+        attestationRegistry: registry,
+      });
+
+      const attempt = registering.generateAttestation({ walletAddress: 'TestWallet123', age: 25, policy: 'contractor' });
+
+      await expect(attempt).rejects.toThrow(ProofInputError);
+      expect(await registry.listByWallet('TestWallet123')).toEqual([]);
+    });
+
+    it('should only use the credential\'s country when a credential is presented', async () => {
+      const issuer = await KycCredentialIssuer.generate('acme-kyc');
+      const kycPolicyService = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        kycIssuers: [await issuer.getIssuerKey()],
+        policies: { policies: { contractor: { maxRiskScore: 5, excludedCountries: [192, 364, 408] } } },
+      });
+
+      const excluded = await kycPolicyService.generateAttestation({
+        walletAddress: 'TestWallet123',
+        credential: await issuer.issue('TestWallet123', '1990-06-15', 364),
+        countryCode: 276,
+        policy: 'contractor',
+      });
+      const withoutCountry = kycPolicyService.generateAttestation({
+        walletAddress: 'TestWallet123',
+        credential: await issuer.issue('TestWallet123', '1990-06-15'),
+        countryCode: 276,
+        policy: 'contractor',
+      });
+
+      expect(excluded.isCompliant).toBe(false);
+      await expect(withoutCountry).rejects.toThrow('requires a country code');
+    });
+
+    it('should block transfers above the policy cap', async () => {
+      const result = await policyService.executePrivateTransfer({
+        senderAddress: 'Sender123',
+        recipientAddress: 'Recipient456',
+        amount: 25,
+        token: 'SOL',
+        policy: 'retail',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transfer failed policy retail: minimum_age, transfer_cap');
+      expect(result.transferResult).toBeUndefined();
+    });
+
+    it('should apply policy risk rules when the compliance gate is off', async () => {
+      const result = await policyService.executePrivateTransfer({
+        senderAddress: 'Sender123',
+        recipientAddress: 'Recipient456',
+        amount: 5,
+        token: 'SOL',
+        requireCompliance: false,
+        policy: 'retail',
+      });
+
+      expect(result.recipientCompliance).toBeDefined();
+      expect(result.policyVerdict?.rules.find(r => r.rule === 'max_risk_score')?.status).toBe('pass');
+    });
+
+    it('should take the recipient\'s age from an attestation issued under the policy', async () => {
+      const attestationRegistry = new AttestationRegistry();
+      policyService = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        attestationRegistry,
+        policies: { policies: { retail: { maxRiskScore: 5, minimumAge: 18, transferCaps: { SOL: 10 } } } },
+      });
+      const transfer = { senderAddress: 'Sender123', recipientAddress: 'Recipient456', amount: 5, token: 'SOL' as const, policy: 'retail' };
+
+      const before = await policyService.executePrivateTransfer(transfer);
+      const attestation = await policyService.generateAttestation({ walletAddress: 'Recipient456', age: 25, policy: 'retail' });
+      const after = await policyService.executePrivateTransfer(transfer);
+
+      expect(before.error).toBe('Transfer failed policy retail: minimum_age');
+      expect(after.policyVerdict?.passed).toBe(true);
+      expect(after.policyVerdict?.rules.find(r => r.rule === 'minimum_age')?.actual).toBe(`attested by ${attestation.attestationId}`);
+    });
+
+    it('should evaluate a policy on a quick check without checking twice', async () => {
+      const riskHistory = new RiskHistory();
+      policyService = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        riskHistory,
+        policies: { policies: { contractor: { maxRiskScore: 5 } } },
+      });
+
+      const result = await policyService.quickComplianceCheck('TestWallet123', 'recipient', 'contractor');
+
+      expect(result.policyVerdict?.passed).toBe(true);
+      expect(await riskHistory.list('TestWallet123')).toHaveLength(1);
+    });
+
+    it('should pass the example retail policy on a quick check once the wallet is attested under it', async () => {
+      const attestationRegistry = new AttestationRegistry();
+      policyService = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        attestationRegistry,
+        policies: await loadPolicyFile(path.join(process.cwd(), 'config', 'compliance-policies.example.yaml')),
+      });
+
+      const before = await policyService.quickComplianceCheck('Recipient456', 'recipient', 'retail');
+      await policyService.generateAttestation({ walletAddress: 'Recipient456', age: 25, policy: 'retail' });
+      const after = await policyService.quickComplianceCheck('Recipient456', 'recipient', 'retail');
+
+      expect(before.policyVerdict?.rules.find(r => r.rule === 'minimum_age')?.status).toBe('skipped');
+      expect(before.policyVerdict?.passed).toBe(false);
+      expect(after.policyVerdict?.passed).toBe(true);
+    });
+
+    it('should fail without configured policies', async () => {
+      await expect(service.evaluatePolicy('retail', { address: 'TestWallet123' }))
+        .rejects.toThrow('No compliance policies configured');
+    });
+  });
+
+  describe('risk history', () => {
+    it('should record every check and report the trend', async () => {
+      const riskHistory = new RiskHistory();
+      service = new ComplianceService({ rangeApiKey: 'test-key', useMockRange: true, proofService, riskHistory });
+
+      const first = await service.quickComplianceCheck('TestWallet123');
+      await service.generateAttestation({ walletAddress: 'TestWallet123', age: 25 });
+      const entries = await riskHistory.list('TestWallet123');
+
+      expect(first.riskTrend).toBe('new');
+      expect(entries.map(e => e.context)).toEqual(['quick_check', 'attestation']);
+      expect(await riskHistory.trend('TestWallet123')).toBe('stable');
+    });
+  });
+
+  describe('network', () => {
+    it('should record the active network on attestations and transfers', async () => {
+      service = new ComplianceService({ rangeApiKey: 'test-key', useMockRange: true, proofService, network: 'testnet' });
+
+      const attestation = await service.generateAttestation({ walletAddress: 'TestWallet123', age: 25 });
+      const transfer = await service.executePrivateTransfer({
+        senderAddress: 'invalid',
+        recipientAddress: 'invalid',
+        amount: 1,
+        token: 'SOL',
+      });
+
+      expect(service.getNetwork()).toBe('testnet');
+      expect(attestation.network).toBe('testnet');
+      expect(transfer.network).toBe('testnet');
+    });
+
+    it('should default to devnet', () => {
+      expect(service.getNetwork()).toBe('devnet');
+    });
+  });
+
+  describe('real proofs', () => {
+    it('should surface proof failures instead of marking the attestation non-compliant', async () => {
+      service = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        requireRealProofs: true,
+        circuitsDir: '/nonexistent/circuits',
+      });
+
+      await expect(service.generateAttestation({ walletAddress: 'TestWallet123', age: 25 }))
+        .rejects.toThrow('Real proof generation failed');
+    });
+  });
+
   describe('verifyAttestation', () => {
     it('should verify valid attestation', async () => {
       const attestation = await service.generateAttestation({
@@ -83,10 +511,14 @@ describe('ComplianceService', () => {
       const invalidAttestation = {
         isCompliant: true,
         attestationId: 'fake',
+        walletAddress: 'FakeWallet',
         timestamp: Date.now(),
         proofs: {},
         complianceCheck: {} as never,
-        publicInputs: { minimumAge: 18, maxRiskScore: 5, minBalanceUsd: 0 },
+        network: 'devnet' as const,
+        ownershipVerified: false,
+        ageSource: 'self_reported' as const,
+        publicInputs: { minimumAge: 18, maxRiskScore: 5, minBalanceUsd: 0, walletHash: '0x1234' },
       };
 
       const isValid = await service.verifyAttestation(invalidAttestation);
@@ -94,6 +526,292 @@ describe('ComplianceService', () => {
     });
   });
 
+  describe('signed attestations', () => {
+    it('should require an issuer key to sign attestations', async () => {
+      const attestation = await service.generateAttestation({ walletAddress: 'TestWallet123', age: 25 });
+
+      await expect(service.issueAttestationDocument(attestation)).rejects.toThrow('No attestation issuer key configured');
+    });
+
+    it('should issue documents that its own verifier accepts', async () => {
+      const issuing = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        issuerSecretKey: Keypair.generate().secretKey,
+      });
+      const attestation = await issuing.generateAttestation({
+        walletAddress: 'TestWallet123',
+        age: 25,
+        walletBalanceUsd: 5000,
+      });
+
+      const document = await issuing.issueAttestationDocument(attestation);
+      const ownVerification = await issuing.verifyAttestationDocument(document);
+      const foreignVerification = await service.verifyAttestationDocument(document);
+
+      expect(document.payload.subject).toBe('TestWallet123');
+      expect(ownVerification.isValid).toBe(true);
+      expect(foreignVerification.trustedIssuer).toBe(false);
+    });
+  });
+
+  describe('wallet ownership', () => {
+    let ownership: WalletOwnershipVerifier;
+    let strict: ComplianceService;
+    let wallet: Keypair;
+
+    beforeEach(() => {
+      ownership = new WalletOwnershipVerifier();
+      strict = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        walletOwnership: ownership,
+        requireWalletOwnership: true,
+      });
+      wallet = Keypair.generate();
+    });
+
+    it('should refuse attestations without a signed nonce when ownership is required', async () => {
+      const attempt = strict.generateAttestation({ walletAddress: wallet.publicKey.toBase58(), age: 25 });
+
+      await expect(attempt).rejects.toThrow(WalletOwnershipError);
+    });
+
+    it('should bind the selective disclosure proof to the proven wallet', async () => {
+      const address = wallet.publicKey.toBase58();
+      const challenge = await ownership.issueChallenge(address);
+      const signature = nacl.sign.detached(new TextEncoder().encode(challenge.message), wallet.secretKey);
+
+      const attestation = await strict.generateAttestation({
+        walletAddress: address,
+        age: 25,
+        walletBalanceUsd: 5000,
+        ownership: { nonce: challenge.nonce, signature: Buffer.from(signature).toString('base64') },
+      });
+
+      expect(attestation.ownershipVerified).toBe(true);
+      expect(attestation.publicInputs.walletHash).toBe(await hashWalletAddress(address));
+      expect(await strict.verifyAttestation(attestation)).toBe(true);
+      expect(await strict.verifyAttestation({ ...attestation, walletAddress: 'AnotherWallet' })).toBe(false);
+    });
+  });
+
+  describe('KYC credentials', () => {
+    let issuer: KycCredentialIssuer;
+    let issuerKey: KycIssuerKey;
+    let kyc: ComplianceService;
+
+    beforeEach(async () => {
+      issuer = await KycCredentialIssuer.generate('acme-kyc');
+      issuerKey = await issuer.getIssuerKey();
+      kyc = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        kycIssuers: [issuerKey],
+        requireKycCredential: true,
+      });
+    });
+
+    it('should derive age from a signed credential and prove it', async () => {
+      const credential = await issuer.issue('TestWallet123', '1990-06-15', 840);
+
+      const attestation = await kyc.generateAttestation({
+        walletAddress: 'TestWallet123',
+        credential,
+        walletBalanceUsd: 5000,
+      });
+
+      expect(attestation.isCompliant).toBe(true);
+      expect(attestation.ageSource).toBe('kyc_credential');
+      expect(attestation.credentialIssuer).toBe('acme-kyc');
+      expect(attestation.proofs.credentialAge).toBeDefined();
+      expect(attestation.publicInputs.issuerKeyHash).toMatch(/^0x[0-9a-f]{62}$/);
+    });
+
+    it('should refuse self-reported ages when a credential is required', async () => {
+      const attempt = kyc.generateAttestation({ walletAddress: 'TestWallet123', age: 25 });
+
+      await expect(attempt).rejects.toThrow(CredentialError);
+    });
+
+    it('should refuse credentials issued to another wallet', async () => {
+      const credential = await issuer.issue('OtherWallet456', '1990-06-15');
+
+      const attempt = kyc.generateAttestation({ walletAddress: 'TestWallet123', credential });
+
+      await expect(attempt).rejects.toThrow('credential was issued to OtherWallet456');
+    });
+
+    it('should refuse credentials from untrusted issuers', async () => {
+      const rogue = await KycCredentialIssuer.generate('rogue');
+      const credential = await rogue.issue('TestWallet123', '1990-06-15');
+
+      const attempt = kyc.generateAttestation({ walletAddress: 'TestWallet123', credential });
+
+      await expect(attempt).rejects.toThrow('unknown issuer rogue');
+    });
+  });
+
+  describe('attestation registry', () => {
+    it('should register attestations and reject revoked ones', async () => {
+      const registry = new AttestationRegistry();
+      const tracked = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        issuerSecretKey: Keypair.generate().secretKey,
+        attestationRegistry: registry,
+      });
+      const attestation = await tracked.generateAttestation({
+        walletAddress: 'TestWallet123',
+        age: 25,
+        walletBalanceUsd: 5000,
+      });
+      const document = await tracked.issueAttestationDocument(attestation);
+
+      expect((await registry.get(attestation.attestationId))?.document).toEqual(document);
+      expect(await tracked.verifyAttestation(attestation)).toBe(true);
+
+      await registry.revoke(attestation.attestationId, 'Employee offboarded');
+      const verification = await tracked.verifyAttestationDocument(document);
+
+      expect(await tracked.verifyAttestation(attestation)).toBe(false);
+      expect(verification.isValid).toBe(false);
+      expect(verification.registryStatus).toBe('revoked');
+      expect(verification.errors).toContain('Attestation revoked: Employee offboarded');
+    });
+  });
+
+  describe('income proofs', () => {
+    const RECIPIENT = 'So11111111111111111111111111111111111111112';
+
+    class PaidShadowWire extends ShadowWireService {
+      async transfer(params: TransferParams): Promise<TransferResult> {
+        return { success: true, transactionId: 'tx-1', fee: 0, netAmount: params.amount };
+      }
+    }
+
+    class DeclinedShadowWire extends ShadowWireService {
+      async transfer(): Promise<TransferResult> {
+        return { success: false, error: 'Insufficient shielded balance' };
+      }
+    }
+
+    let payroll: ComplianceService;
+
+    beforeEach(() => {
+      payroll = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        issuerSecretKey: Keypair.generate().secretKey,
+        shadowWireService: new PaidShadowWire(),
+      });
+    });
+
+    async function pay(amount: number): Promise<SalaryReceipt> {
+      const result = await payroll.executePrivateTransfer({
+        senderAddress: 'Employer123',
+        recipientAddress: RECIPIENT,
+        amount,
+        token: 'SOL',
+        requireCompliance: false,
+      });
+      return result.salaryReceipt!;
+    }
+
+    it('should prove a salary band from a payroll receipt', async () => {
+      const receipt = await pay(5.25);
+
+      const proof = await payroll.generateIncomeProof({ receipt, minAmount: 5, maxAmount: 6 });
+
+      expect(receipt.amount).toBe(5_250_000_000);
+      expect(receipt.transactionId).toBe('tx-1');
+      expect(receipt.issuer).toBe(payroll.getAttestationIssuer()!.getPublicKey());
+      expect(proof.publicInputs).toEqual([
+        receipt.commitment,
+        await hashWalletAddress(RECIPIENT),
+        '5000000000',
+        '6000000000',
+      ]);
+      expect((await payroll.verifyIncomeProof({
+        proof,
+        commitment: receipt,
+        walletAddress: RECIPIENT,
+        minAmount: 5,
+        maxAmount: 6,
+      })).isValid).toBe(true);
+    });
+
+    it('should not issue receipts for failed transfers', async () => {
+      const failing = new ComplianceService({
+        rangeApiKey: 'test-key',
+        useMockRange: true,
+        proofService,
+        issuerSecretKey: Keypair.generate().secretKey,
+        shadowWireService: new DeclinedShadowWire(),
+      });
+
+      const result = await failing.executePrivateTransfer({
+        senderAddress: 'Employer123',
+        recipientAddress: RECIPIENT,
+        amount: 5,
+        token: 'SOL',
+        requireCompliance: false,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.salaryReceipt).toBeUndefined();
+    });
+
+    it('should reject a receipt whose amount was edited', async () => {
+      const receipt = await pay(1);
+
+      const attempt = payroll.generateIncomeProof({ receipt: { ...receipt, amount: 9_000_000_000 }, minAmount: 5 });
+
+      await expect(attempt).rejects.toThrow('Salary receipt does not match its commitment');
+    });
+
+    it('should not prove a minimum the salary does not meet', async () => {
+      const receipt = await pay(3.75);
+
+      await expect(payroll.generateIncomeProof({ receipt, minAmount: 4 })).rejects.toThrow('salary below minimum');
+    });
+
+    it('should not verify an income proof over a made-up receipt', async () => {
+      const salt = '0x0123';
+      const amount = 9_000_000_000;
+      const commitment = await commitSalary(await hashWalletAddress(RECIPIENT), amount, salt);
+      const selfSigned = createAttestationIssuer({ secretKey: Keypair.generate().secretKey })
+        .signSalaryCommitment({ commitment, token: 'SOL', paidAt: Date.now() });
+      const unsigned = { ...selfSigned, issuer: payroll.getAttestationIssuer()!.getPublicKey() };
+
+      await expect(payroll.generateIncomeProof({
+        receipt: { ...selfSigned, token: 'SOL', recipient: RECIPIENT, amount, salt },
+        minAmount: 5,
+      })).rejects.toThrow(SalaryReceiptError);
+
+      const proof = await proofService.generateSalaryBandProof({
+        salary: amount,
+        salt,
+        walletHash: await hashWalletAddress(RECIPIENT),
+        minSalary: 5_000_000_000,
+      });
+      for (const commitmentClaim of [selfSigned, unsigned]) {
+        const verification = await payroll.verifyIncomeProof({
+          proof,
+          commitment: commitmentClaim,
+          walletAddress: RECIPIENT,
+          minAmount: 5,
+        });
+        expect(verification.isValid).toBe(false);
+      }
+    });
+  });
+
   describe('executePrivateTransfer', () => {
     it('should check recipient compliance before transfer', async () => {
       const result = await service.executePrivateTransfer({
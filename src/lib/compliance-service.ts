@@ -1,31 +1,81 @@
-import { RangeClient, ComplianceCheckResult, createRangeClient, MockRangeClient } from './range-client';
-import { NoirProofService, GeneratedProof, createNoirProofService } from './noir-proof-service';
+import { randomBytes } from 'crypto';
+import { RangeClient, ComplianceCheckResult, RiskScoreResponse, createRangeClient, MockRangeClient } from './range-client';
+import { CacheStore } from './cache-store';
+import {
+  AttestationIssuer,
+  AttestationVerification,
+  SignedAttestation,
+  SignedSalaryCommitment,
+  verifySalaryCommitmentSignature,
+  verifySignedAttestation
+} from './attestation-document';
+import { AttestationRecord, AttestationRegistry, RevocationRequest } from './attestation-registry';
+import { AppliedOverride, ComplianceOverrideRegistry, ComplianceRole } from './compliance-overrides';
+import { PolicyDocument, PolicyEngine, PolicyVerdict, getJurisdictionRule } from './compliance-policy';
+import { ageOn, toDateNumber, todayDateNumber } from './date-utils';
+import { CredentialError, KycCredential, KycIssuerKey, verifyKycCredential } from './kyc-credential';
+import { DEFAULT_CLUSTER, SolanaCluster } from './network';
+import { CategoryRule } from './risk-evaluator';
+import { RiskHistory, RiskTrend } from './risk-history';
+import { CompositeRiskProvider, RegisteredRiskProvider, RiskCombinationMode, RiskProvider } from './risk-provider';
+import {
+  NoirProofService,
+  GeneratedProof,
+  ProofInputError,
+  VerificationResult,
+  createNoirProofService,
+  hashIssuerKey,
+  hashJurisdictionRule,
+  commitSalary,
+  hashWalletAddress
+} from './noir-proof-service';
 import { ShadowWireService, TransferResult, createShadowWireService, SupportedToken } from './shadowwire-service';
+import { WalletOwnershipError, WalletOwnershipProof, WalletOwnershipVerifier } from './wallet-ownership';
+
+export type AgeSource = 'self_reported' | 'kyc_credential';
 
 export interface AttestationRequest {
   walletAddress: string;
-  age: number;
+  age?: number;
+  birthDate?: string;
+  countryCode?: number;
+  credential?: KycCredential;
   minimumAge?: number;
   maxRiskScore?: number;
   minBalanceUsd?: number;
   walletBalanceUsd?: number;
+  policy?: string;
+  ownership?: WalletOwnershipProof;
 }
 
 export interface AttestationResult {
   isCompliant: boolean;
   attestationId: string;
+  walletAddress: string;
   timestamp: number;
   proofs: {
     age?: GeneratedProof;
+    birthDateAge?: GeneratedProof;
     risk?: GeneratedProof;
     selectiveDisclosure?: GeneratedProof;
+    credentialAge?: GeneratedProof;
+    jurisdiction?: GeneratedProof;
   };
   complianceCheck: ComplianceCheckResult;
+  network: SolanaCluster;
+  ownershipVerified: boolean;
+  ageSource: AgeSource;
+  credentialIssuer?: string;
   publicInputs: {
     minimumAge: number;
     maxRiskScore: number;
     minBalanceUsd: number;
+    walletHash: string;
+    issuerKeyHash?: string;
+    asOfDate?: number;
+    jurisdictionHash?: string;
   };
+  policyVerdict?: PolicyVerdict;
 }
 
 export interface PrivateTransferRequest {
@@ -34,116 +84,408 @@ export interface PrivateTransferRequest {
   amount: number;
   token: SupportedToken;
   requireCompliance?: boolean;
+  policy?: string;
   wallet?: { signMessage: (message: Uint8Array) => Promise<Uint8Array> };
 }
 
+/**
+ * Payroll record an employee keeps to prove income later. Only the signed
+ * commitment is safe to share; amount and salt open it.
+ */
+export interface SalaryReceipt extends SignedSalaryCommitment {
+  recipient: string;
+  token: SupportedToken;
+  amount: number;
+  salt: string;
+}
+
+export interface IncomeProofRequest {
+  receipt: SalaryReceipt;
+  minAmount: number;
+  maxAmount?: number;
+}
+
+export interface IncomeProofVerificationRequest {
+  proof: GeneratedProof;
+  commitment: SignedSalaryCommitment;
+  walletAddress: string;
+  minAmount: number;
+  maxAmount?: number;
+}
+
 export interface PrivateTransferResult {
   success: boolean;
   transferResult?: TransferResult;
+  salaryReceipt?: SalaryReceipt;
   senderAttestation?: AttestationResult;
   recipientCompliance?: ComplianceCheckResult;
+  policyVerdict?: PolicyVerdict;
+  network: SolanaCluster;
   error?: string;
 }
 
+export interface PolicyEvaluationRequest {
+  address: string;
+  role?: ComplianceRole;
+  age?: number;
+  walletBalanceUsd?: number;
+  countryCode?: number;
+  transfer?: {
+    amount: number;
+    token: SupportedToken;
+  };
+}
+
 export interface ComplianceServiceConfig {
   rangeApiKey: string;
   maxRiskThreshold?: number;
   defaultMinimumAge?: number;
   defaultMinBalanceUsd?: number;
   useMockRange?: boolean;
+  rangeCacheTtlMs?: number;
+  rangeCacheStore?: CacheStore<RiskScoreResponse>;
+  riskProviders?: RegisteredRiskProvider[];
+  riskCombinationMode?: RiskCombinationMode;
+  rangeWeight?: number;
+  overrideRegistry?: ComplianceOverrideRegistry;
+  policies?: PolicyDocument;
+  riskCategoryRules?: CategoryRule[];
+  riskHistory?: RiskHistory;
+  network?: SolanaCluster;
+  rangeNetwork?: string;
+  shadowWireApiUrl?: string;
+  shadowWireService?: ShadowWireService;
+  requireRealProofs?: boolean;
+  circuitsDir?: string;
+  /** Shared prover, so cached proofs outlive a single service instance. */
+  proofService?: NoirProofService;
+  issuerSecretKey?: Uint8Array;
+  attestationTtlMs?: number;
+  trustedIssuers?: string[];
+  /** Keys besides an attestation's issuer that may sign its revocation. */
+  attestationRevokers?: string[];
+  attestationRegistry?: AttestationRegistry;
+  walletOwnership?: WalletOwnershipVerifier;
+  requireWalletOwnership?: boolean;
+  kycIssuers?: KycIssuerKey[];
+  requireKycCredential?: boolean;
 }
 
 const DEFAULT_MINIMUM_AGE = 18;
 const DEFAULT_MAX_RISK = 5;
 const DEFAULT_MIN_BALANCE = 0;
 
+/** A salary receipt or commitment that does not open, or that no trusted issuer signed. */
+export class SalaryReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SalaryReceiptError';
+  }
+}
+
 export class ComplianceService {
   private rangeClient: RangeClient;
+  private riskProvider: CompositeRiskProvider;
+  private overrideRegistry: ComplianceOverrideRegistry;
+  private policyEngine: PolicyEngine | null;
+  private riskHistory: RiskHistory | null;
   private noirService: NoirProofService;
   private shadowWireService: ShadowWireService;
+  private attestationIssuer: AttestationIssuer | null;
+  private attestationRegistry: AttestationRegistry | null;
+  private walletOwnership: WalletOwnershipVerifier | null;
   private config: ComplianceServiceConfig;
+  private network: SolanaCluster;
 
   constructor(config: ComplianceServiceConfig) {
     this.config = config;
+    this.network = config.network ?? DEFAULT_CLUSTER;
     
     this.rangeClient = config.useMockRange 
-      ? new MockRangeClient()
-      : createRangeClient(config.rangeApiKey, { maxRiskThreshold: config.maxRiskThreshold });
+      ? new MockRangeClient({
+          maxRiskThreshold: config.maxRiskThreshold,
+          categoryRules: config.riskCategoryRules,
+          network: this.network,
+        })
+      : createRangeClient(config.rangeApiKey, {
+          maxRiskThreshold: config.maxRiskThreshold,
+          categoryRules: config.riskCategoryRules,
+          network: this.network,
+          rangeNetwork: config.rangeNetwork,
+          cacheTtlMs: config.rangeCacheTtlMs,
+          cacheStore: config.rangeCacheStore,
+        });
+
+    this.riskProvider = new CompositeRiskProvider({
+      mode: config.riskCombinationMode,
+      maxRiskThreshold: config.maxRiskThreshold ?? DEFAULT_MAX_RISK,
+      providers: [
+        { provider: this.rangeClient, weight: config.rangeWeight },
+        ...(config.riskProviders ?? []),
+      ],
+    });
+
+    this.overrideRegistry = config.overrideRegistry ?? new ComplianceOverrideRegistry();
+    this.policyEngine = config.policies ? new PolicyEngine(config.policies) : null;
+    this.riskHistory = config.riskHistory ?? null;
+    this.attestationRegistry = config.attestationRegistry ?? null;
+    this.walletOwnership = config.walletOwnership ?? null;
     
-    this.noirService = createNoirProofService();
-    this.shadowWireService = createShadowWireService();
+    this.noirService = config.proofService ?? createNoirProofService({
+      requireRealProofs: config.requireRealProofs,
+      circuitsDir: config.circuitsDir,
+    });
+    this.shadowWireService = config.shadowWireService ?? createShadowWireService({
+      network: this.network,
+      apiBaseUrl: config.shadowWireApiUrl,
+    });
+    this.attestationIssuer = config.issuerSecretKey
+      ? new AttestationIssuer({
+          secretKey: config.issuerSecretKey,
+          ttlMs: config.attestationTtlMs,
+          proofService: this.noirService,
+        })
+      : null;
+  }
+
+  getNetwork(): SolanaCluster {
+    return this.network;
+  }
+
+  registerRiskProvider(provider: RiskProvider, weight?: number): void {
+    this.riskProvider.register(provider, weight);
+  }
+
+  getRiskProviderNames(): string[] {
+    return this.riskProvider.getProviderNames();
+  }
+
+  getRiskProvider(): RiskProvider {
+    return this.riskProvider;
+  }
+
+  getOverrideRegistry(): ComplianceOverrideRegistry {
+    return this.overrideRegistry;
+  }
+
+  getRiskHistory(): RiskHistory | null {
+    return this.riskHistory;
+  }
+
+  getAttestationIssuer(): AttestationIssuer | null {
+    return this.attestationIssuer;
+  }
+
+  getAttestationRegistry(): AttestationRegistry | null {
+    return this.attestationRegistry;
+  }
+
+  getWalletOwnershipVerifier(): WalletOwnershipVerifier | null {
+    return this.walletOwnership;
+  }
+
+  listPolicies(): string[] {
+    return this.policyEngine?.listPolicies() ?? [];
+  }
+
+  async evaluatePolicy(policyName: string | undefined, request: PolicyEvaluationRequest): Promise<PolicyVerdict> {
+    const engine = this.requirePolicyEngine();
+    const compliance = await this.overrideRegistry.apply(
+      request.address,
+      await this.checkRisk(request.address, 'policy_evaluation'),
+      request.role,
+      'policy_evaluation'
+    );
+
+    return engine.evaluate(policyName, {
+      compliance,
+      age: request.age,
+      walletBalanceUsd: request.walletBalanceUsd,
+      countryCode: request.countryCode,
+      transfer: request.transfer,
+    });
   }
 
   async generateAttestation(request: AttestationRequest): Promise<AttestationResult> {
-    const minimumAge = request.minimumAge ?? this.config.defaultMinimumAge ?? DEFAULT_MINIMUM_AGE;
-    const maxRiskScore = request.maxRiskScore ?? this.config.maxRiskThreshold ?? DEFAULT_MAX_RISK;
-    const minBalanceUsd = request.minBalanceUsd ?? this.config.defaultMinBalanceUsd ?? DEFAULT_MIN_BALANCE;
+    const ownershipVerified = await this.verifyWalletOwnership(request);
+    const credentialIssuer = await this.verifyCredential(request);
+    const asOfDate = todayDateNumber();
+    const birthDate = request.credential?.birthDate ?? request.birthDate;
+    const age = birthDate ? ageOn(toDateNumber(birthDate), asOfDate) : request.age;
+    if (age === undefined) {
+      throw new Error('Either age, birthDate or a KYC credential is required');
+    }
+    const policy = request.policy ? this.requirePolicyEngine().getPolicy(request.policy) : undefined;
+    const minimumAge = request.minimumAge ?? policy?.minimumAge ?? this.config.defaultMinimumAge ?? DEFAULT_MINIMUM_AGE;
+    const maxRiskScore = request.maxRiskScore ?? policy?.maxRiskScore ?? this.config.maxRiskThreshold ?? DEFAULT_MAX_RISK;
+    const minBalanceUsd = request.minBalanceUsd ?? policy?.minBalanceUsd ?? this.config.defaultMinBalanceUsd ?? DEFAULT_MIN_BALANCE;
     const walletBalanceUsd = request.walletBalanceUsd ?? 0;
+    const walletHash = await hashWalletAddress(request.walletAddress);
+    // A credential's country is issuer-verified, so it is never replaced by a self-declared one
+    const countryCode = request.credential ? request.credential.countryCode : request.countryCode;
+    const jurisdictionRule = policy ? getJurisdictionRule(policy) : undefined;
 
-    const complianceCheck = await this.rangeClient.checkCompliance(request.walletAddress);
+    const complianceCheck = await this.checkRisk(request.walletAddress, 'attestation');
+    const policyVerdict = policy
+      ? this.requirePolicyEngine().evaluate(policy.name, {
+          compliance: complianceCheck,
+          age,
+          walletBalanceUsd,
+          countryCode,
+        })
+      : undefined;
 
     let ageProof: GeneratedProof | undefined;
+    let birthDateAgeProof: GeneratedProof | undefined;
     let riskProof: GeneratedProof | undefined;
     let selectiveDisclosureProof: GeneratedProof | undefined;
+    let credentialAgeProof: GeneratedProof | undefined;
+    let jurisdictionProof: GeneratedProof | undefined;
     let isCompliant = false;
 
     try {
       ageProof = await this.noirService.generateAgeProof({
-        age: request.age,
+        age,
         minimumAge,
       });
 
+      if (request.birthDate && !request.credential) {
+        birthDateAgeProof = await this.noirService.generateBirthDateAgeProof({
+          birthDate: request.birthDate,
+          minimumAge,
+          asOfDate,
+        });
+      }
+
+      if (request.credential && credentialIssuer) {
+        credentialAgeProof = await this.noirService.generateCredentialAgeProof({
+          credential: request.credential,
+          issuerPublicKey: credentialIssuer.publicKey,
+          minimumAge,
+          asOfDate,
+        });
+      }
+
+      if (jurisdictionRule) {
+        if (countryCode === undefined) {
+          throw new ProofInputError('jurisdiction', 'invalid_input', `Policy ${policy?.name} requires a country code`);
+        }
+        jurisdictionProof = await this.noirService.generateJurisdictionProof({
+          countryCode,
+          rule: jurisdictionRule,
+          walletHash,
+        });
+      }
+
       riskProof = await this.noirService.generateRiskProof({
         riskScore: complianceCheck.riskScore,
         maxAllowedRisk: maxRiskScore,
       });
 
       selectiveDisclosureProof = await this.noirService.generateSelectiveDisclosureProof({
-        age: request.age,
+        age,
         riskScore: complianceCheck.riskScore,
         isSanctioned: complianceCheck.isSanctioned,
         walletBalanceUsd,
         minimumAge,
         maxRiskScore,
         minBalanceUsd,
+        walletHash,
       });
 
-      isCompliant = true;
-    } catch {
+      isCompliant = complianceCheck.isCompliant && (policyVerdict?.passed ?? true);
+    } catch (error) {
+      // Only a wallet that fails a circuit's constraints is attested as non-compliant
+      if (!(error instanceof ProofInputError) || error.code !== 'unsatisfied') throw error;
       isCompliant = false;
     }
 
-    return {
+    const result: AttestationResult = {
       isCompliant,
       attestationId: this.generateAttestationId(),
+      walletAddress: request.walletAddress,
       timestamp: Date.now(),
       proofs: {
         age: ageProof,
+        birthDateAge: birthDateAgeProof,
         risk: riskProof,
         selectiveDisclosure: selectiveDisclosureProof,
+        credentialAge: credentialAgeProof,
+        jurisdiction: jurisdictionProof,
       },
       complianceCheck,
+      network: this.network,
+      ownershipVerified,
+      ageSource: credentialIssuer ? 'kyc_credential' : 'self_reported',
+      credentialIssuer: credentialIssuer?.id,
       publicInputs: {
         minimumAge,
         maxRiskScore,
         minBalanceUsd,
+        walletHash,
+        ...(birthDate && { asOfDate }),
+        ...(credentialIssuer && {
+          issuerKeyHash: await hashIssuerKey(credentialIssuer.publicKey),
+        }),
+        ...(jurisdictionRule && {
+          jurisdictionHash: await hashJurisdictionRule(jurisdictionRule),
+        }),
       },
+      policyVerdict,
     };
+
+    await this.attestationRegistry?.register(result);
+    return result;
   }
 
   async executePrivateTransfer(request: PrivateTransferRequest): Promise<PrivateTransferResult> {
-    if (request.requireCompliance !== false) {
-      const recipientCompliance = await this.rangeClient.checkCompliance(request.recipientAddress);
+    let recipientCompliance: ComplianceCheckResult | undefined;
+
+    // A policy's risk rules need the check even when the compliance gate is off
+    if (request.requireCompliance !== false || request.policy) {
+      recipientCompliance = await this.overrideRegistry.apply(
+        request.recipientAddress,
+        await this.checkRisk(request.recipientAddress, 'private_transfer'),
+        'recipient',
+        'private_transfer'
+      );
       
-      if (!recipientCompliance.isCompliant) {
+      if (request.requireCompliance !== false && !recipientCompliance.isCompliant) {
         return {
           success: false,
           recipientCompliance,
+          network: this.network,
           error: `Recipient failed compliance: ${recipientCompliance.reasoning}`,
         };
       }
     }
 
+    let policyVerdict: PolicyVerdict | undefined;
+    if (request.policy) {
+      const engine = this.requirePolicyEngine();
+      const policyName = engine.getPolicy(request.policy).name;
+      const attested = await this.attestationRegistry?.walletStatus(request.recipientAddress, policyName);
+
+      policyVerdict = engine.evaluate(policyName, {
+        compliance: recipientCompliance,
+        transfer: { amount: request.amount, token: request.token },
+        attestation: attested?.eligible && attested.attestation
+          ? { attestationId: attested.attestation.attestationId, policy: policyName }
+          : undefined,
+      });
+
+      if (!policyVerdict.passed) {
+        const unmet = policyVerdict.rules.filter(r => r.status !== 'pass').map(r => r.rule);
+        return {
+          success: false,
+          recipientCompliance,
+          policyVerdict,
+          network: this.network,
+          error: `Transfer failed policy ${policyVerdict.policy}: ${unmet.join(', ')}`,
+        };
+      }
+    }
+
     const transferResult = await this.shadowWireService.transfer({
       sender: request.senderAddress,
       recipient: request.recipientAddress,
@@ -156,40 +498,262 @@ export class ComplianceService {
     return {
       success: transferResult.success,
       transferResult,
+      salaryReceipt: transferResult.success && this.attestationIssuer
+        ? await this.createSalaryReceipt(request.recipientAddress, request.amount, request.token, transferResult.transactionId)
+        : undefined,
+      recipientCompliance,
+      policyVerdict,
+      network: this.network,
       error: transferResult.error,
     };
   }
 
+  /**
+   * Commits to the amount of a completed payroll transfer and signs the
+   * commitment with the issuer key. `amount` is in whole tokens; the receipt
+   * stores it in the token's smallest unit.
+   */
+  private async createSalaryReceipt(
+    recipient: string,
+    amount: number,
+    token: SupportedToken,
+    transactionId?: string
+  ): Promise<SalaryReceipt> {
+    const units = this.shadowWireService.toSmallestUnit(amount, token);
+    if (!Number.isSafeInteger(units) || units <= 0) {
+      throw new Error(`Invalid salary amount: ${amount} ${token}`);
+    }
+    const salt = `0x${randomBytes(31).toString('hex')}`;
+    const signed = this.requireAttestationIssuer().signSalaryCommitment({
+      commitment: await commitSalary(await hashWalletAddress(recipient), units, salt),
+      token,
+      transactionId,
+      paidAt: Date.now(),
+    });
+    return { ...signed, token, recipient, amount: units, salt };
+  }
+
+  /**
+   * Proves the salary in a receipt is at least `minAmount` (and at most
+   * `maxAmount`, if given) without revealing it. Bounds are in whole tokens.
+   * Only receipts signed by a trusted issuer are accepted.
+   */
+  async generateIncomeProof(request: IncomeProofRequest): Promise<GeneratedProof> {
+    const { receipt } = request;
+    this.checkSalaryCommitment(receipt);
+    const walletHash = await hashWalletAddress(receipt.recipient);
+    if (await commitSalary(walletHash, receipt.amount, receipt.salt) !== receipt.commitment) {
+      throw new SalaryReceiptError('Salary receipt does not match its commitment');
+    }
+
+    return this.noirService.generateSalaryBandProof({
+      salary: receipt.amount,
+      salt: receipt.salt,
+      walletHash,
+      minSalary: this.shadowWireService.toSmallestUnit(request.minAmount, receipt.token),
+      maxSalary: request.maxAmount === undefined
+        ? undefined
+        : this.shadowWireService.toSmallestUnit(request.maxAmount, receipt.token),
+    });
+  }
+
+  /**
+   * Verifies an income proof against the signed commitment the employee
+   * shared. Commitments not signed by a trusted issuer are rejected, so a
+   * proof over a self-made commitment never verifies.
+   */
+  async verifyIncomeProof(request: IncomeProofVerificationRequest): Promise<VerificationResult> {
+    const { commitment } = request;
+    try {
+      this.checkSalaryCommitment(commitment);
+    } catch (error) {
+      return { isValid: false, error: error instanceof Error ? error.message : 'Invalid salary commitment' };
+    }
+
+    const token = commitment.token as SupportedToken;
+    return this.noirService.verifyProof('salary_band', request.proof, {
+      expectedPublicInputs: {
+        salaryCommitment: commitment.commitment,
+        walletHash: await hashWalletAddress(request.walletAddress),
+        minSalary: this.shadowWireService.toSmallestUnit(request.minAmount, token),
+        maxSalary: request.maxAmount === undefined
+          ? 0
+          : this.shadowWireService.toSmallestUnit(request.maxAmount, token),
+      },
+    });
+  }
+
+  private checkSalaryCommitment(commitment: SignedSalaryCommitment): void {
+    const ownIssuer = this.attestationIssuer?.getPublicKey();
+    const trusted = this.config.trustedIssuers ?? (ownIssuer ? [ownIssuer] : []);
+    if (typeof commitment.issuer !== 'string' || !trusted.includes(commitment.issuer)) {
+      throw new SalaryReceiptError('Salary commitment was not signed by a trusted issuer');
+    }
+    if (!verifySalaryCommitmentSignature(commitment)) {
+      throw new SalaryReceiptError('Invalid salary commitment signature');
+    }
+  }
+
   async verifyAttestation(attestation: AttestationResult): Promise<boolean> {
     if (!attestation.proofs.selectiveDisclosure) {
       return false;
     }
 
+    const status = await this.attestationRegistry?.status(attestation.attestationId);
+    if (status && status.status !== 'active') {
+      return false;
+    }
+
     const result = await this.noirService.verifyProof(
       'selective_disclosure',
-      attestation.proofs.selectiveDisclosure
+      attestation.proofs.selectiveDisclosure,
+      {
+        expectedPublicInputs: {
+          ...attestation.publicInputs,
+          walletHash: await hashWalletAddress(attestation.walletAddress),
+        },
+      }
     );
 
     return result.isValid;
   }
 
-  async quickComplianceCheck(address: string): Promise<{
+  async issueAttestationDocument(attestation: AttestationResult): Promise<SignedAttestation> {
+    if (!this.attestationIssuer) {
+      throw new Error('No attestation issuer key configured');
+    }
+    const document = await this.attestationIssuer.issue(attestation);
+    await this.attestationRegistry?.register(attestation, document);
+    return document;
+  }
+
+  /**
+   * Verifies a signed attestation. Without an explicit `trustedIssuers` list,
+   * only documents signed by this service's own issuer key are trusted.
+   */
+  async verifyAttestationDocument(document: SignedAttestation): Promise<AttestationVerification> {
+    const ownIssuer = this.attestationIssuer?.getPublicKey();
+    const verification = await verifySignedAttestation(document, {
+      trustedIssuers: this.config.trustedIssuers ?? (ownIssuer ? [ownIssuer] : []),
+      proofService: this.noirService,
+    });
+
+    const status = document.payload?.id ? await this.attestationRegistry?.status(document.payload.id) : undefined;
+    if (status?.status === 'revoked') {
+      verification.isValid = false;
+      verification.errors.push(`Attestation revoked: ${status.revocationReason}`);
+    }
+    return { ...verification, registryStatus: status?.status };
+  }
+
+  async revokeAttestation(request: RevocationRequest): Promise<AttestationRecord> {
+    if (!this.attestationRegistry) {
+      throw new Error('Attestation registry is not enabled');
+    }
+    return this.attestationRegistry.revokeSigned(
+      request,
+      this.attestationIssuer?.getPublicKey() ?? null,
+      this.config.attestationRevokers
+    );
+  }
+
+  async quickComplianceCheck(address: string, role?: ComplianceRole, policy?: string): Promise<{
     isCompliant: boolean;
     riskScore: number;
     isSanctioned: boolean;
+    override?: AppliedOverride;
+    riskTrend?: RiskTrend;
+    policyVerdict?: PolicyVerdict;
   }> {
-    const result = await this.rangeClient.checkCompliance(address);
+    const engine = policy !== undefined ? this.requirePolicyEngine() : null;
+    const result = await this.overrideRegistry.apply(
+      address,
+      await this.checkRisk(address, 'quick_check'),
+      role,
+      'quick_check'
+    );
+
+    let policyVerdict: PolicyVerdict | undefined;
+    if (engine) {
+      // Age, balance and residency are only known from an attestation issued under the policy
+      const policyName = engine.getPolicy(policy).name;
+      const attested = await this.attestationRegistry?.walletStatus(address, policyName);
+      // Evaluated against the same check, so it is recorded and audited once
+      policyVerdict = engine.evaluate(policyName, {
+        compliance: result,
+        attestation: attested?.eligible && attested.attestation
+          ? { attestationId: attested.attestation.attestationId, policy: policyName }
+          : undefined,
+      });
+    }
+
     return {
       isCompliant: result.isCompliant,
       riskScore: result.riskScore,
       isSanctioned: result.isSanctioned,
+      override: result.override,
+      riskTrend: await this.riskHistory?.trend(address),
+      ...(policyVerdict && { policyVerdict }),
     };
   }
 
+  /**
+   * Verifies the signed nonce when one is supplied. Without a proof the request
+   * is rejected only if wallet ownership is required.
+   */
+  private async verifyWalletOwnership(request: AttestationRequest): Promise<boolean> {
+    const required = this.config.requireWalletOwnership ?? false;
+
+    if (!request.ownership) {
+      if (required) {
+        throw new WalletOwnershipError(request.walletAddress, 'a signed nonce is required');
+      }
+      return false;
+    }
+    if (!this.walletOwnership) {
+      throw new WalletOwnershipError(request.walletAddress, 'no ownership verifier configured');
+    }
+
+    await this.walletOwnership.verify(request.walletAddress, request.ownership);
+    return true;
+  }
+
+  private async verifyCredential(request: AttestationRequest): Promise<KycIssuerKey | undefined> {
+    if (!request.credential) {
+      if (this.config.requireKycCredential) {
+        throw new CredentialError('a credential from a trusted issuer is required');
+      }
+      return undefined;
+    }
+    if (request.credential.subject !== request.walletAddress) {
+      throw new CredentialError(`credential was issued to ${request.credential.subject}`);
+    }
+    return verifyKycCredential(request.credential, this.config.kycIssuers ?? []);
+  }
+
+  private async checkRisk(address: string, context: string): Promise<ComplianceCheckResult> {
+    const result = await this.riskProvider.checkCompliance(address);
+    await this.riskHistory?.record(address, result, context);
+    return result;
+  }
+
+  private requirePolicyEngine(): PolicyEngine {
+    if (!this.policyEngine) {
+      throw new Error('No compliance policies configured');
+    }
+    return this.policyEngine;
+  }
+
+  private requireAttestationIssuer(): AttestationIssuer {
+    if (!this.attestationIssuer) {
+      throw new Error('No attestation issuer key configured');
+    }
+    return this.attestationIssuer;
+  }
+
   private generateAttestationId(): string {
     const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 10);
-    return `att_${timestamp}_${random}`;
+    return `att_${timestamp}_${randomBytes(8).toString('hex')}`;
   }
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Calendar dates are passed to circuits as YYYYMMDD integers. With that
+ * encoding, "at least N years old" is `birthDate + N * 10000 <= asOfDate`.
+ */
+
+export function toDateNumber(date: string | Date): number {
+  if (date instanceof Date) {
+    return date.getUTCFullYear() * 10000 + (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    throw new Error(`Invalid date "${date}": expected YYYY-MM-DD`);
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    throw new Error(`Invalid date "${date}": no such calendar day`);
+  }
+  return year * 10000 + month * 100 + day;
+}
+
+export function fromDateNumber(date: number): string {
+  const year = Math.floor(date / 10000);
+  const month = Math.floor(date / 100) % 100;
+  const day = date % 100;
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function isDateNumber(date: number): boolean {
+  if (!Number.isInteger(date) || date < 10000101 || date > 99991231) return false;
+  try {
+    toDateNumber(fromDateNumber(date));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function todayDateNumber(now: number = Date.now()): number {
+  return toDateNumber(new Date(now));
+}
+
+/** Whole years between two YYYYMMDD dates. */
+export function ageOn(birthDate: number, asOfDate: number): number {
+  return Math.floor((asOfDate - birthDate) / 10000);
+}
@@ -3,11 +3,147 @@ export type {
   RiskLevel, 
   RiskScoreResponse, 
   ComplianceCheckResult, 
+  ComplianceCheckError,
+  BatchComplianceResult,
   RangeClientConfig,
   MaliciousEvidence,
   Attribution 
 } from './range-client';
 
+export { CompositeRiskProvider, createCompositeRiskProvider, riskLevelForScore } from './risk-provider';
+export type {
+  RiskProvider,
+  RiskCombinationMode,
+  RegisteredRiskProvider,
+  ProviderCheckResult,
+  CompositeRiskProviderConfig
+} from './risk-provider';
+
+export {
+  SanctionsScreener,
+  createSanctionsScreener,
+  createSanctionsSnapshot,
+  loadSanctionsListFile,
+  loadSanctionsLists,
+  saveSanctionsSnapshot,
+  readSanctionsSnapshot,
+  parseSanctionsCsv,
+  parseSanctionsJson,
+  parseOfacSdnCsv
+} from './sanctions-list';
+export type {
+  SanctionsListFormat,
+  SanctionsListEntry,
+  SanctionsListSnapshot,
+  SanctionsMatch,
+  SanctionsListVersion,
+  LoadSanctionsListOptions
+} from './sanctions-list';
+
+export {
+  ComplianceOverrideRegistry,
+  createOverrideRegistry,
+  loadOverridesFile,
+  MemoryAuditSink,
+  FileAuditSink
+} from './compliance-overrides';
+export type {
+  ComplianceRole,
+  OverrideScope,
+  OverrideAuditAction,
+  ComplianceOverride,
+  ComplianceOverrideInput,
+  AppliedOverride,
+  OverrideAuditEvent,
+  OverrideAuditSink,
+  OverrideRegistryConfig
+} from './compliance-overrides';
+
+export {
+  PolicyEngine,
+  createPolicyEngine,
+  parsePolicyDocument,
+  loadPolicyFile,
+  validatePolicyDocument,
+  getJurisdictionRule
+} from './compliance-policy';
+export type {
+  PolicyRules,
+  CompliancePolicy,
+  PolicyDocument,
+  PolicyRuleStatus,
+  PolicyRuleResult,
+  PolicyVerdict,
+  PolicyEvaluationContext
+} from './compliance-policy';
+
+export {
+  evaluateRisk,
+  findCategoryEvidence,
+  matchesCategory,
+  parseCategoryRules,
+  describeFinding
+} from './risk-evaluator';
+export type { CategoryRule, RiskFinding, RiskEvaluation, RiskEvaluatorConfig } from './risk-evaluator';
+
+export {
+  WalletMonitor,
+  createWalletMonitor,
+  toRiskSnapshot,
+  MemoryMonitorStateStore,
+  FileMonitorStateStore,
+  LogAlertSink,
+  WebhookAlertSink,
+  FileAlertSink
+} from './wallet-monitor';
+export type {
+  MonitoredWalletRole,
+  MonitorAlertType,
+  MonitorAlertSeverity,
+  MonitoredWallet,
+  WalletRiskSnapshot,
+  MonitorAlert,
+  MonitorState,
+  MonitorStateStore,
+  AlertSink,
+  MonitorRunResult,
+  WalletMonitorConfig
+} from './wallet-monitor';
+
+export {
+  RiskHistory,
+  MemoryRiskHistoryStore,
+  FileRiskHistoryStore,
+  diffRiskHistory,
+  riskTrend,
+  createRiskHistory
+} from './risk-history';
+export type {
+  RiskTrend,
+  RiskHistoryEntry,
+  RiskHistoryDiff,
+  RiskHistoryQuery,
+  RiskHistoryStore,
+  RiskHistoryConfig
+} from './risk-history';
+
+export {
+  SOLANA_CLUSTERS,
+  DEFAULT_CLUSTER,
+  LOCALNET_RPC_URL,
+  isSolanaCluster,
+  parseCluster,
+  defaultRpcUrl,
+  resolveNetwork
+} from './network';
+export type { SolanaCluster, NetworkConfig } from './network';
+
+export { retryWithBackoff, isRetryableError, getRetryAfterMs, computeBackoffDelay } from './retry';
+export type { RetryOptions } from './retry';
+
+export { TtlCache, MemoryCacheStore, FileCacheStore } from './cache-store';
+export type { CacheEntry, CacheStore, TtlCacheConfig } from './cache-store';
+
 export { ShadowWireService, createShadowWireService } from './shadowwire-service';
 export type { 
   TransferParams, 
@@ -18,7 +154,27 @@ export type {
   ShadowWireConfig 
 } from './shadowwire-service';
 
-export { NoirProofService, createNoirProofService } from './noir-proof-service';
+export {
+  NoirProofService,
+  ProofGenerationError,
+  ProofInputError,
+  ALL_CIRCUIT_TYPES,
+  createNoirProofService,
+  getPublicInputClaims,
+  hashIssuerKey,
+  hashJurisdictionRule,
+  hashWalletAddress,
+  validateJurisdictionRule,
+  generateNullifierSecret,
+  commitNullifierSecret,
+  hashRosterMember,
+  computeRosterNullifier,
+  isPayPeriod,
+  commitSalary,
+  JURISDICTION_LIST_SIZE,
+  DEFAULT_PROOF_CACHE_TTL_MS,
+  DEFAULT_PROOF_CACHE_MAX_ENTRIES
+} from './noir-proof-service';
 export type { 
   GeneratedProof, 
   VerificationResult, 
@@ -26,14 +182,156 @@ export type {
   RiskThresholdInput,
   SelectiveDisclosureInput,
   CircuitType,
-  NoirServiceConfig 
+  NoirServiceConfig,
+  PolicyClaims,
+  VerifyProofOptions,
+  VerificationKeyExport,
+  ProofInputErrorCode,
+  CredentialAgeInput,
+  BirthDateAgeInput,
+  JurisdictionInput,
+  JurisdictionRule,
+  RosterMembershipInput,
+  SalaryBandInput
 } from './noir-proof-service';
 
-export { ComplianceService, createComplianceService } from './compliance-service';
+export { CircuitRegistry, CircuitIntegrityError, CIRCUIT_REGISTRY_FORMAT, describeArtifact } from './circuit-registry';
+export type {
+  CircuitArtifact,
+  CircuitVersion,
+  RegisteredCircuit,
+  CircuitRegistryDocument
+} from './circuit-registry';
+
+export {
+  WitnessValidationError,
+  BN254_FIELD_MODULUS,
+  getCircuitAbi,
+  derivePublicInputClaims,
+  validateWitness,
+  encodePublicInputs,
+  formatAbi,
+  sameAbiInterface
+} from './circuit-abi';
+export type { AbiType, AbiParameter, CircuitAbi } from './circuit-abi';
+
+export { ProvingPool, ProvingJobError, createProvingPool, getDefaultProvingPool } from './proving-pool';
+export type {
+  ProvingStage,
+  ProvingProgress,
+  ProveOptions,
+  ProvingCircuit,
+  ProvingJob,
+  ProvingResult,
+  ProvingJobErrorCode,
+  ProvingPoolConfig,
+  WorkerHandle,
+  WorkerFactory,
+  WorkerRequest,
+  WorkerResponse
+} from './proving-pool';
+
+export { ComplianceService, SalaryReceiptError, createComplianceService } from './compliance-service';
 export type { 
+  AgeSource,
   AttestationRequest, 
   AttestationResult, 
   PrivateTransferRequest,
   PrivateTransferResult,
+  PolicyEvaluationRequest,
+  SalaryReceipt,
+  IncomeProofRequest,
+  IncomeProofVerificationRequest,
   ComplianceServiceConfig 
 } from './compliance-service';
+
+export {
+  AttestationIssuer,
+  ATTESTATION_FORMAT,
+  DEFAULT_ATTESTATION_TTL_MS,
+  SALARY_RECEIPT_FORMAT,
+  createAttestationIssuer,
+  loadIssuerKeyFile,
+  verifySalaryCommitmentSignature,
+  verifySignedAttestation
+} from './attestation-document';
+export type {
+  AttestationClaims,
+  AttestationIssuerConfig,
+  AttestationProofReference,
+  AttestationVerification,
+  ProofCheck,
+  SignedAttestation,
+  SignedSalaryCommitment,
+  VerifyAttestationOptions
+} from './attestation-document';
+
+export {
+  AttestationRegistry,
+  MemoryAttestationStore,
+  FileAttestationStore,
+  RevocationError,
+  createAttestationRegistry,
+  revocationMessage
+} from './attestation-registry';
+export type {
+  AttestationRecord,
+  AttestationRegistryConfig,
+  AttestationStatus,
+  AttestationStatusResult,
+  AttestationStore,
+  RevocationRequest,
+  WalletAttestationStatus
+} from './attestation-registry';
+
+export {
+  KycCredentialIssuer,
+  CredentialError,
+  credentialMessage,
+  loadKycIssuersFile,
+  verifyKycCredential
+} from './kyc-credential';
+export type { KycCredential, KycIssuerKey } from './kyc-credential';
+
+export { toDateNumber, fromDateNumber, isDateNumber, todayDateNumber, ageOn } from './date-utils';
+
+export {
+  WalletOwnershipVerifier,
+  WalletOwnershipError,
+  challengeMessage,
+  createWalletOwnershipVerifier
+} from './wallet-ownership';
+export type { WalletChallenge, WalletOwnershipConfig, WalletOwnershipProof } from './wallet-ownership';
+
+export {
+  PayrollRoster,
+  RosterService,
+  RosterError,
+  MemoryNullifierStore,
+  FileNullifierStore,
+  MemoryRosterRootStore,
+  FileRosterRootStore,
+  createRosterService,
+  rosterPublicationMessage
+} from './roster-service';
+export type {
+  RosterMember,
+  RosterMembershipPath,
+  NullifierRecord,
+  NullifierStore,
+  RosterRootRecord,
+  RosterRootStore,
+  RosterPublication,
+  RosterServiceConfig,
+  RosterErrorCode
+} from './roster-service';
+
+export { MerkleTree, MERKLE_TREE_DEPTH, computeMerkleRoot, poseidon2Hash } from './merkle-tree';
+export type { MerklePath } from './merkle-tree';
+
+export {
+  createServerComplianceService,
+  createServerNoirProofService,
+  createServerRosterService,
+  createServerWalletMonitor
+} from './server-config';
@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Pending updates per file, so read-modify-write cycles in this process never interleave
+const updateQueues: Map<string, Promise<unknown>> = new Map();
+
+/** Reads a JSON file, or returns `fallback` when it does not exist yet. */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/** Writes to a temporary file and renames it into place, so readers never see a partial file. */
+export async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Applies `update` to the file's current contents and writes the result back.
+ * Updates to the same file are serialized, and each one re-reads the file
+ * first, so it only changes what `update` touches and keeps entries written
+ * by other instances or processes in the meantime.
+ */
+export function updateJsonFile<T, R>(
+  filePath: string,
+  fallback: T,
+  update: (data: T) => R | Promise<R>
+): Promise<R> {
+  const key = path.resolve(filePath);
+  const previous = updateQueues.get(key) ?? Promise.resolve();
+
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const data = await readJsonFile(filePath, fallback);
+      const result = await update(data);
+      await writeJsonFile(filePath, data);
+      return result;
+    });
+
+  updateQueues.set(key, next);
+  void next.catch(() => undefined).finally(() => {
+    if (updateQueues.get(key) === next) updateQueues.delete(key);
+  });
+  return next;
+}
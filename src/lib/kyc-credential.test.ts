@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { ageOn, fromDateNumber, isDateNumber, toDateNumber } from './date-utils';
+import { CredentialError, KycCredentialIssuer, KycIssuerKey, credentialMessage, verifyKycCredential } from './kyc-credential';
+
+const WALLET = 'So11111111111111111111111111111111111111112';
+
+describe('KYC credentials', () => {
+  let issuer: KycCredentialIssuer;
+  let issuerKey: KycIssuerKey;
+
+  beforeAll(async () => {
+    issuer = await KycCredentialIssuer.generate('acme-kyc', 'Acme KYC');
+    issuerKey = await issuer.getIssuerKey();
+  });
+
+  it('should verify credentials signed by a trusted issuer', async () => {
+    const credential = await issuer.issue(WALLET, '1990-06-15', 840);
+
+    const signer = await verifyKycCredential(credential, [issuerKey]);
+
+    expect(signer.id).toBe('acme-kyc');
+    expect(issuerKey.publicKey).toMatch(/^04[0-9a-f]{128}$/);
+    expect(credential.signature).toMatch(/^[0-9a-f]{128}$/);
+  });
+
+  it('should reject a credential whose birth date was edited', async () => {
+    const credential = await issuer.issue(WALLET, '2010-01-01');
+
+    const attempt = verifyKycCredential({ ...credential, birthDate: '1990-01-01' }, [issuerKey]);
+
+    await expect(attempt).rejects.toThrow(CredentialError);
+    await expect(attempt).rejects.toThrow('signature does not match issuer acme-kyc');
+  });
+
+  it('should reject a credential presented for another wallet', async () => {
+    const credential = await issuer.issue(WALLET, '1990-01-01');
+
+    const attempt = verifyKycCredential({ ...credential, subject: 'Other1111111111111111111111111111111111111' }, [issuerKey]);
+
+    await expect(attempt).rejects.toThrow('signature does not match issuer');
+  });
+
+  it('should reject credentials from unknown issuers', async () => {
+    const rogue = await KycCredentialIssuer.generate('rogue');
+    const credential = await rogue.issue(WALLET, '1990-01-01');
+
+    await expect(verifyKycCredential(credential, [issuerKey])).rejects.toThrow('unknown issuer rogue');
+  });
+
+  it('should lay out the signed message like the circuit', async () => {
+    const message = await credentialMessage(WALLET, 20001231, 840);
+
+    expect(message).toHaveLength(38);
+    expect(Array.from(message.slice(32))).toEqual([0x01, 0x31, 0x31, 0xcf, 0x03, 0x48]);
+  });
+});
+
+describe('date-utils', () => {
+  it('should convert between ISO dates and YYYYMMDD numbers', () => {
+    expect(toDateNumber('2000-02-29')).toBe(20000229);
+    expect(fromDateNumber(20000229)).toBe('2000-02-29');
+    expect(toDateNumber(new Date(Date.UTC(2024, 0, 5)))).toBe(20240105);
+  });
+
+  it('should reject malformed or impossible dates', () => {
+    expect(() => toDateNumber('2001-02-29')).toThrow('no such calendar day');
+    expect(() => toDateNumber('15/06/1990')).toThrow('expected YYYY-MM-DD');
+  });
+
+  it('should recognise valid YYYYMMDD numbers', () => {
+    expect(isDateNumber(20240229)).toBe(true);
+    expect(isDateNumber(20230229)).toBe(false);
+    expect(isDateNumber(2024022)).toBe(false);
+  });
+
+  it('should count whole years only', () => {
+    expect(ageOn(20000615, 20180614)).toBe(17);
+    expect(ageOn(20000615, 20180615)).toBe(18);
+  });
+});
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import { toDateNumber } from './date-utils';
+import { hashWalletAddress } from './noir-proof-service';
+
+export interface KycCredential {
+  issuer: string;
+  subject: string;
+  birthDate: string;
+  countryCode?: number;
+  signature: string;
+}
+
+export interface KycIssuerKey {
+  id: string;
+  name?: string;
+  publicKey: string;
+}
+
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(`Invalid KYC credential: ${message}`);
+    this.name = 'CredentialError';
+  }
+}
+
+const P256 = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const P256_ORDER = BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551');
+
+/**
+ * The bytes an issuer signs, matching `credential_message` in the
+ * credential_age circuit: wallet hash (32 bytes), birth date as YYYYMMDD
+ * (4 bytes) and ISO 3166-1 numeric country code (2 bytes), all big-endian.
+ */
+export async function credentialMessage(subject: string, birthDate: number, countryCode: number): Promise<Uint8Array> {
+  const message = new Uint8Array(38);
+  const walletHash = BigInt(await hashWalletAddress(subject));
+  for (let i = 0; i < 32; i++) {
+    message[i] = Number((walletHash >> BigInt(8 * (31 - i))) & BigInt(0xff));
+  }
+  new DataView(message.buffer).setUint32(32, birthDate, false);
+  new DataView(message.buffer).setUint16(36, countryCode, false);
+  return message;
+}
+
+/**
+ * Signs date-of-birth credentials with an ECDSA P-256 key. Signatures are
+ * normalized to low-s, which the Noir verifier requires.
+ */
+export class KycCredentialIssuer {
+  private id: string;
+  private name?: string;
+  private keyPair: CryptoKeyPair;
+
+  constructor(id: string, keyPair: CryptoKeyPair, name?: string) {
+    this.id = id;
+    this.keyPair = keyPair;
+    this.name = name;
+  }
+
+  static async generate(id: string, name?: string): Promise<KycCredentialIssuer> {
+    const keyPair = await crypto.subtle.generateKey(P256, true, ['sign', 'verify']);
+    return new KycCredentialIssuer(id, keyPair, name);
+  }
+
+  async getIssuerKey(): Promise<KycIssuerKey> {
+    const raw = new Uint8Array(await crypto.subtle.exportKey('raw', this.keyPair.publicKey));
+    return { id: this.id, name: this.name, publicKey: toHex(raw) };
+  }
+
+  async issue(subject: string, birthDate: string, countryCode?: number): Promise<KycCredential> {
+    const message = await credentialMessage(subject, toDateNumber(birthDate), countryCode ?? 0);
+    const signature = new Uint8Array(
+      await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, this.keyPair.privateKey, message as BufferSource)
+    );
+
+    return {
+      issuer: this.id,
+      subject,
+      birthDate,
+      countryCode,
+      signature: toHex(normalizeLowS(signature)),
+    };
+  }
+}
+
+/**
+ * Checks a credential against the configured issuer keys and returns the
+ * issuer that signed it.
+ */
+export async function verifyKycCredential(credential: KycCredential, issuers: KycIssuerKey[]): Promise<KycIssuerKey> {
+  const issuer = issuers.find(i => i.id === credential.issuer);
+  if (!issuer) {
+    throw new CredentialError(`unknown issuer ${credential.issuer}`);
+  }
+
+  let birthDate: number;
+  try {
+    birthDate = toDateNumber(credential.birthDate);
+  } catch (error) {
+    throw new CredentialError(error instanceof Error ? error.message : 'invalid birth date');
+  }
+
+  const countryCode = credential.countryCode ?? 0;
+  if (!Number.isInteger(countryCode) || countryCode < 0 || countryCode > 999) {
+    throw new CredentialError(`invalid country code ${countryCode}`);
+  }
+  if (!/^[0-9a-f]{128}$/i.test(credential.signature)) {
+    throw new CredentialError('signature must be 64 bytes of hex');
+  }
+
+  const publicKey = await crypto.subtle.importKey('raw', fromHex(issuer.publicKey) as BufferSource, P256, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    publicKey,
+    fromHex(credential.signature) as BufferSource,
+    await credentialMessage(credential.subject, birthDate, countryCode) as BufferSource
+  );
+  if (!valid) {
+    throw new CredentialError(`signature does not match issuer ${issuer.id}`);
+  }
+  return issuer;
+}
+
+export async function loadKycIssuersFile(filePath: string): Promise<KycIssuerKey[]> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as KycIssuerKey[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function normalizeLowS(signature: Uint8Array): Uint8Array {
+  const s = BigInt(`0x${toHex(signature.slice(32))}`);
+  if (s <= P256_ORDER / BigInt(2)) return signature;
+
+  const normalized = new Uint8Array(signature);
+  normalized.set(fromHex((P256_ORDER - s).toString(16).padStart(64, '0')), 32);
+  return normalized;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+}
@@ -0,0 +1,104 @@
+import type { BarretenbergSync } from '@aztec/bb.js';
+
+/** Depth of the roster tree inside the roster_membership circuit (65,536 leaves). */
+export const MERKLE_TREE_DEPTH = 16;
+
+export interface MerklePath {
+  leafIndex: number;
+  siblings: string[];
+}
+
+let barretenberg: Promise<{ api: BarretenbergSync; Fr: typeof import('@aztec/bb.js').Fr }> | null = null;
+
+function loadBarretenberg() {
+  barretenberg ??= import('@aztec/bb.js').then(async bb => ({
+    api: await bb.BarretenbergSync.initSingleton(),
+    Fr: bb.Fr,
+  }));
+  return barretenberg;
+}
+
+/**
+ * Poseidon2 sponge hash over BN254 field elements, matching Noir's
+ * `std::hash::poseidon2::Poseidon2::hash(inputs, inputs.len())`.
+ */
+export async function poseidon2Hash(inputs: Array<string | number | bigint>): Promise<string> {
+  const { api, Fr } = await loadBarretenberg();
+  return api.poseidon2Hash(inputs.map(input => new Fr(BigInt(input)))).toString();
+}
+
+/** Hashes a path from a leaf up to the root. Bit i of `leafIndex` set means the node is a right child. */
+export async function computeMerkleRoot(leaf: string, path: MerklePath): Promise<string> {
+  let node = leaf;
+  for (const [level, sibling] of path.siblings.entries()) {
+    const isRight = (path.leafIndex >> level) & 1;
+    node = await poseidon2Hash(isRight ? [sibling, node] : [node, sibling]);
+  }
+  return node;
+}
+
+/**
+ * Fixed-depth Poseidon2 Merkle tree. Unused leaves are zero, so only the
+ * populated part of the tree is hashed.
+ */
+export class MerkleTree {
+  private layers: string[][];
+  private zeros: string[];
+
+  private constructor(layers: string[][], zeros: string[]) {
+    this.layers = layers;
+    this.zeros = zeros;
+  }
+
+  static async build(leaves: string[], depth: number = MERKLE_TREE_DEPTH): Promise<MerkleTree> {
+    if (leaves.length > 2 ** depth) {
+      throw new Error(`Merkle tree of depth ${depth} holds at most ${2 ** depth} leaves, got ${leaves.length}`);
+    }
+
+    const zeros = [ZERO];
+    for (let level = 0; level < depth; level++) {
+      zeros.push(await poseidon2Hash([zeros[level], zeros[level]]));
+    }
+
+    const layers = [leaves.map(leaf => toField(leaf))];
+    for (let level = 0; level < depth; level++) {
+      const below = layers[level];
+      const above: string[] = [];
+      for (let i = 0; i < below.length; i += 2) {
+        above.push(await poseidon2Hash([below[i], below[i + 1] ?? zeros[level]]));
+      }
+      layers.push(above);
+    }
+
+    return new MerkleTree(layers, zeros);
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0] ?? this.zeros[this.zeros.length - 1];
+  }
+
+  get size(): number {
+    return this.layers[0].length;
+  }
+
+  indexOf(leaf: string): number {
+    return this.layers[0].indexOf(toField(leaf));
+  }
+
+  getPath(leafIndex: number): MerklePath {
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= this.size) {
+      throw new Error(`Leaf index out of range: ${leafIndex}`);
+    }
+
+    const siblings = this.layers.slice(0, -1).map((layer, level) =>
+      layer[(leafIndex >> level) ^ 1] ?? this.zeros[level]
+    );
+    return { leafIndex, siblings };
+  }
+}
+
+const ZERO = `0x${'0'.repeat(64)}`;
+
+function toField(value: string): string {
+  return `0x${BigInt(value).toString(16).padStart(64, '0')}`;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'bun:test';
+import { LOCALNET_RPC_URL, isSolanaCluster, parseCluster, resolveNetwork } from './network';
+
+describe('network', () => {
+  describe('parseCluster', () => {
+    it('should default to devnet', () => {
+      expect(parseCluster(undefined)).toBe('devnet');
+      expect(parseCluster('')).toBe('devnet');
+    });
+
+    it('should accept mainnet as an alias for mainnet-beta', () => {
+      expect(parseCluster('mainnet')).toBe('mainnet-beta');
+      expect(parseCluster('mainnet-beta')).toBe('mainnet-beta');
+    });
+
+    it('should reject unknown clusters', () => {
+      expect(() => parseCluster('solana')).toThrow('Unknown Solana cluster "solana"');
+    });
+  });
+
+  describe('resolveNetwork', () => {
+    it('should use public endpoints for hosted clusters', () => {
+      expect(resolveNetwork('testnet').rpcUrl).toBe('https://api.testnet.solana.com');
+    });
+
+    it('should use the local validator for localnet', () => {
+      expect(resolveNetwork('localnet')).toEqual({ cluster: 'localnet', rpcUrl: LOCALNET_RPC_URL });
+    });
+
+    it('should prefer a custom RPC URL', () => {
+      const network = resolveNetwork('mainnet-beta', 'https://rpc.example.com');
+
+      expect(network).toEqual({ cluster: 'mainnet-beta', rpcUrl: 'https://rpc.example.com' });
+    });
+  });
+
+  it('should recognise cluster names', () => {
+    expect(isSolanaCluster('devnet')).toBe(true);
+    expect(isSolanaCluster('mainnet')).toBe(false);
+    expect(isSolanaCluster(42)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { clusterApiUrl } from '@solana/web3.js';
+
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+export interface NetworkConfig {
+  cluster: SolanaCluster;
+  rpcUrl: string;
+}
+
+export const SOLANA_CLUSTERS: SolanaCluster[] = ['mainnet-beta', 'devnet', 'testnet', 'localnet'];
+export const DEFAULT_CLUSTER: SolanaCluster = 'devnet';
+export const LOCALNET_RPC_URL = 'http://127.0.0.1:8899';
+
+export function isSolanaCluster(value: unknown): value is SolanaCluster {
+  return typeof value === 'string' && (SOLANA_CLUSTERS as string[]).includes(value);
+}
+
+export function parseCluster(value: string | undefined): SolanaCluster {
+  if (!value) return DEFAULT_CLUSTER;
+  if (value === 'mainnet') return 'mainnet-beta';
+  if (!isSolanaCluster(value)) {
+    throw new Error(`Unknown Solana cluster "${value}": expected one of ${SOLANA_CLUSTERS.join(', ')}`);
+  }
+  return value;
+}
+
+export function defaultRpcUrl(cluster: SolanaCluster): string {
+  return cluster === 'localnet' ? LOCALNET_RPC_URL : clusterApiUrl(cluster);
+}
+
+/**
+ * Resolves a cluster name and optional custom RPC endpoint. A custom RPC URL
+ * takes precedence over the public endpoint for every cluster.
+ */
+export function resolveNetwork(cluster?: string, rpcUrl?: string): NetworkConfig {
+  const resolved = parseCluster(cluster);
+  return {
+    cluster: resolved,
+    rpcUrl: rpcUrl || defaultRpcUrl(resolved),
+  };
+}
@@ -1,5 +1,19 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { NoirProofService } from './noir-proof-service';
+import { KycCredentialIssuer } from './kyc-credential';
+import { MerkleTree } from './merkle-tree';
+import {
+  NoirProofService,
+  ProofGenerationError,
+  commitNullifierSecret,
+  commitSalary,
+  hashIssuerKey,
+  computeRosterNullifier,
+  hashJurisdictionRule,
+  hashRosterMember,
+  hashWalletAddress
+} from './noir-proof-service';
+
+const WALLET_HASH = '0x1234';
 
 describe('NoirProofService', () => {
   let service: NoirProofService;
@@ -41,6 +55,68 @@ describe('NoirProofService', () => {
     });
   });
 
+  describe('generateBirthDateAgeProof', () => {
+    it('should expose only the as-of date and minimum age', async () => {
+      const proof = await service.generateBirthDateAgeProof({
+        birthDate: '2007-06-15',
+        minimumAge: 18,
+        asOfDate: 20250615,
+      });
+
+      expect(proof.publicInputs).toEqual(['20250615', '18']);
+    });
+
+    it('should throw the day before the birthday that meets the minimum', async () => {
+      const attempt = service.generateBirthDateAgeProof({
+        birthDate: '2007-06-15',
+        minimumAge: 18,
+        asOfDate: 20250614,
+      });
+
+      await expect(attempt).rejects.toThrow('age is below minimum');
+    });
+
+    it('should throw for an invalid as-of date', async () => {
+      const attempt = service.generateBirthDateAgeProof({
+        birthDate: '1990-01-01',
+        minimumAge: 18,
+        asOfDate: 20251340,
+      });
+
+      await expect(attempt).rejects.toThrow('Invalid as-of date');
+    });
+
+    it('should let verifiers reject stale proofs', async () => {
+      const proof = await service.generateBirthDateAgeProof({
+        birthDate: '1990-01-01',
+        minimumAge: 18,
+        asOfDate: 20240101,
+      });
+
+      const fresh = await service.verifyProof('birthdate_age', proof, { allowMockProofs: true, notBeforeDate: 20240101 });
+      const stale = await service.verifyProof('birthdate_age', proof, { allowMockProofs: true, notBeforeDate: 20250101 });
+
+      expect(fresh.isValid).toBe(true);
+      expect(stale.isValid).toBe(false);
+      expect(stale.error).toBe('Proof is stale: as-of date 20240101 is before 20250101');
+    });
+
+    it('should keep the birth date out of mock proofs', async () => {
+      const fallback = new NoirProofService({ circuitsDir: '/nonexistent/circuits' });
+      const proof = await fallback.generateBirthDateAgeProof({
+        birthDate: '1990-01-01',
+        minimumAge: 18,
+        asOfDate: 20240101,
+      });
+
+      const bytes = new TextDecoder().decode(proof.proof);
+
+      expect(fallback.isMockProof(proof.proof)).toBe(true);
+      expect(bytes).not.toContain('19900101');
+      expect(bytes).not.toContain('birth_date');
+    });
+  });
+
   describe('generateRiskProof', () => {
     it('should generate proof for low risk', async () => {
       const proof = await service.generateRiskProof({
@@ -84,10 +160,19 @@ describe('NoirProofService', () => {
         minimumAge: 18,
         maxRiskScore: 5,
         minBalanceUsd: 1000,
+        walletHash: WALLET_HASH,
       });
       
       expect(proof.proof.length).toBeGreaterThan(0);
-      expect(proof.publicInputs).toEqual(['18', '5', '1000']);
+      expect(proof.publicInputs).toEqual(['18', '5', '1000', WALLET_HASH]);
+    });
+
+    it('should commit wallets as 31-byte field elements', async () => {
+      const hash = await hashWalletAddress('TestWallet123');
+
+      expect(hash).toMatch(/^0x[0-9a-f]{62}$/);
+      expect(await hashWalletAddress('TestWallet123')).toBe(hash);
+      expect(await hashWalletAddress('TestWallet456')).not.toBe(hash);
     });
 
     it('should throw for sanctioned address', () => {
@@ -100,6 +185,7 @@ describe('NoirProofService', () => {
           minimumAge: 18,
           maxRiskScore: 5,
           minBalanceUsd: 1000,
+          walletHash: WALLET_HASH,
         });
       }).toThrow('address is sanctioned');
     });
@@ -114,11 +200,181 @@ describe('NoirProofService', () => {
           minimumAge: 18,
           maxRiskScore: 5,
           minBalanceUsd: 1000,
+          walletHash: WALLET_HASH,
         });
       }).toThrow('balance below minimum');
     });
   });
 
+  describe('generateCredentialAgeProof', () => {
+    it('should expose only the issuer, wallet, date and threshold', async () => {
+      const issuer = await KycCredentialIssuer.generate('acme-kyc');
+      const { publicKey } = await issuer.getIssuerKey();
+      const credential = await issuer.issue('TestWallet123', '1990-06-15', 840);
+
+      const proof = await service.generateCredentialAgeProof({
+        credential,
+        issuerPublicKey: publicKey,
+        minimumAge: 18,
+        asOfDate: 20250101,
+      });
+
+      expect(proof.publicInputs).toEqual([
+        await hashIssuerKey(publicKey),
+        await hashWalletAddress('TestWallet123'),
+        '20250101',
+        '18',
+      ]);
+    });
+
+    it('should throw when the credential holder is under age on the as-of date', async () => {
+      const issuer = await KycCredentialIssuer.generate('acme-kyc');
+      const { publicKey } = await issuer.getIssuerKey();
+      const credential = await issuer.issue('TestWallet123', '2007-06-15');
+
+      const attempt = service.generateCredentialAgeProof({
+        credential,
+        issuerPublicKey: publicKey,
+        minimumAge: 18,
+        asOfDate: 20250614,
+      });
+
+      await expect(attempt).rejects.toThrow('age is below minimum');
+    });
+  });
+
+  describe('generateJurisdictionProof', () => {
+    const embargoed = { mode: 'exclude' as const, countryCodes: [408, 192, 364] };
+
+    it('should expose only the list hash and wallet hash', async () => {
+      const proof = await service.generateJurisdictionProof({
+        countryCode: 276,
+        rule: embargoed,
+        walletHash: WALLET_HASH,
+      });
+
+      expect(proof.publicInputs).toEqual([await hashJurisdictionRule(embargoed), WALLET_HASH]);
+      expect(proof.publicInputs).not.toContain('276');
+    });
+
+    it('should throw for an excluded country', async () => {
+      const attempt = service.generateJurisdictionProof({ countryCode: 364, rule: embargoed, walletHash: WALLET_HASH });
+
+      await expect(attempt).rejects.toThrow('country is excluded');
+    });
+
+    it('should throw for a country missing from an allow list', async () => {
+      const attempt = service.generateJurisdictionProof({
+        countryCode: 124,
+        rule: { mode: 'allow', countryCodes: [40, 276, 840] },
+        walletHash: WALLET_HASH,
+      });
+
+      await expect(attempt).rejects.toThrow('country is not allowed');
+    });
+
+    it('should hash lists independently of order but not of mode', async () => {
+      const hash = await hashJurisdictionRule(embargoed);
+
+      expect(hash).toMatch(/^0x[0-9a-f]{62}$/);
+      expect(await hashJurisdictionRule({ mode: 'exclude', countryCodes: [192, 364, 408] })).toBe(hash);
+      expect(await hashJurisdictionRule({ mode: 'allow', countryCodes: [192, 364, 408] })).not.toBe(hash);
+    });
+  });
+
+  describe('generateRosterMembershipProof', () => {
+    const SECRET = '0xabcd';
+
+    it('should expose the root, pay period and nullifier', async () => {
+      const tree = await MerkleTree.build([await hashRosterMember(WALLET_HASH, await commitNullifierSecret(SECRET))]);
+
+      const proof = await service.generateRosterMembershipProof({
+        walletHash: WALLET_HASH,
+        nullifierSecret: SECRET,
+        path: tree.getPath(0),
+        rosterRoot: tree.root,
+        payPeriod: 202610,
+      });
+
+      expect(proof.publicInputs).toEqual([tree.root, '202610', await computeRosterNullifier(SECRET, 202610)]);
+    });
+
+    it('should throw when the path does not lead to the roster root', async () => {
+      const tree = await MerkleTree.build([await hashRosterMember('0x5678', await commitNullifierSecret(SECRET))]);
+
+      const attempt = service.generateRosterMembershipProof({
+        walletHash: WALLET_HASH,
+        nullifierSecret: SECRET,
+        path: tree.getPath(0),
+        rosterRoot: tree.root,
+        payPeriod: 202610,
+      });
+
+      await expect(attempt).rejects.toThrow('wallet is not on the roster');
+    });
+
+    it('should throw for a secret other than the one committed on the roster', async () => {
+      const tree = await MerkleTree.build([await hashRosterMember(WALLET_HASH, await commitNullifierSecret(SECRET))]);
+
+      const attempt = service.generateRosterMembershipProof({
+        walletHash: WALLET_HASH,
+        nullifierSecret: '0xef01',
+        path: tree.getPath(0),
+        rosterRoot: tree.root,
+        payPeriod: 202610,
+      });
+
+      await expect(attempt).rejects.toThrow('wallet is not on the roster');
+    });
+  });
+
+  describe('generateSalaryBandProof', () => {
+    const SALT = '0xabc123';
+
+    it('should expose the commitment and band but not the salary', async () => {
+      const proof = await service.generateSalaryBandProof({
+        salary: 5_250_000_000,
+        salt: SALT,
+        walletHash: WALLET_HASH,
+        minSalary: 5_000_000_000,
+      });
+
+      expect(proof.publicInputs).toEqual([
+        await commitSalary(WALLET_HASH, 5_250_000_000, SALT),
+        WALLET_HASH,
+        '5000000000',
+        '0',
+      ]);
+    });
+
+    it('should throw when the salary is below the minimum', async () => {
+      const attempt = service.generateSalaryBandProof({ salary: 100, salt: SALT, walletHash: WALLET_HASH, minSalary: 101 });
+
+      await expect(attempt).rejects.toThrow('salary below minimum');
+    });
+
+    it('should throw when the salary is above the band', async () => {
+      const attempt = service.generateSalaryBandProof({
+        salary: 500,
+        salt: SALT,
+        walletHash: WALLET_HASH,
+        minSalary: 100,
+        maxSalary: 400,
+      });
+
+      await expect(attempt).rejects.toThrow('salary above maximum');
+    });
+
+    it('should not issue mock income proofs when mock proofs are not accepted', async () => {
+      const strict = new NoirProofService({ circuitsDir: '/nonexistent/circuits', allowMockProofs: false });
+
+      const attempt = strict.generateSalaryBandProof({ salary: 500, salt: SALT, walletHash: WALLET_HASH, minSalary: 100 });
+
+      await expect(attempt).rejects.toThrow(ProofGenerationError);
+      expect(await strict.generateAgeProof({ age: 25, minimumAge: 18 })).toMatchObject({ isRealProof: false });
+    });
+  });
+
   describe('verifyProof', () => {
     it('should verify valid proof', async () => {
       const proof = await service.generateAgeProof({
@@ -129,6 +385,108 @@ describe('NoirProofService', () => {
       const result = await service.verifyProof('age_verification', proof);
       expect(result.isValid).toBe(true);
     });
+
+    it('should reject arbitrary bytes', async () => {
+      const forged = { proof: new Uint8Array([1]), publicInputs: ['18'], isRealProof: false };
+
+      const asMock = await service.verifyProof('age_verification', forged);
+      const asReal = await service.verifyProof('age_verification', { ...forged, isRealProof: true });
+
+      expect(asMock.isValid).toBe(false);
+      expect(asReal.isValid).toBe(false);
+    });
+
+    it('should reject mock proofs when they are not allowed', async () => {
+      const strict = new NoirProofService({ allowMockProofs: false });
+      const proof = await strict.generateAgeProof({ age: 25, minimumAge: 18 });
+
+      const result = await strict.verifyProof('age_verification', proof);
+
+      expect(strict.isMockProof(proof.proof)).toBe(true);
+      expect(result).toEqual({ isValid: false, error: 'Mock proofs are not accepted' });
+    });
+
+    it('should reject proofs whose public inputs differ from the claimed policy', async () => {
+      const proof = await service.generateAgeProof({ age: 25, minimumAge: 16 });
+
+      const result = await service.verifyProof('age_verification', proof, {
+        expectedPublicInputs: { minimumAge: 18 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Public input minimumAge is 16, expected 18');
+    });
+
+    it('should reject public inputs that were swapped after proving', async () => {
+      const proof = await service.generateAgeProof({ age: 25, minimumAge: 16 });
+
+      const result = await service.verifyProof('age_verification', { ...proof, publicInputs: ['18'] }, {
+        expectedPublicInputs: { minimumAge: 18 },
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject proofs for a different circuit', async () => {
+      const proof = await service.generateRiskProof({ riskScore: 2, maxAllowedRisk: 5 });
+
+      const result = await service.verifyProof('age_verification', proof);
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('real proofs', () => {
+    it('should fall back to mock proofs when circuits are missing', async () => {
+      const fallback = new NoirProofService({ circuitsDir: '/nonexistent/circuits' });
+
+      const proof = await fallback.generateAgeProof({ age: 25, minimumAge: 18 });
+
+      expect(proof.isRealProof).toBe(false);
+    });
+
+    it('should fail loudly when real proofs are required', async () => {
+      const strict = new NoirProofService({ circuitsDir: '/nonexistent/circuits', requireRealProofs: true });
+
+      const attempt = strict.generateAgeProof({ age: 25, minimumAge: 18 });
+
+      await expect(attempt).rejects.toThrow(ProofGenerationError);
+      await expect(attempt).rejects.toThrow('Real proof generation failed for age_verification');
+    });
+  });
+
+  describe('proof cache', () => {
+    it('should reuse proofs for an identical witness', async () => {
+      const first = await service.generateAgeProof({ age: 25, minimumAge: 18 });
+      await new Promise(r => setTimeout(r, 5));
+      const second = await service.generateAgeProof({ age: 25, minimumAge: 18 });
+      const other = await service.generateAgeProof({ age: 26, minimumAge: 18 });
+
+      expect(second.proof).toEqual(first.proof);
+      expect(other.proof).not.toEqual(first.proof);
+    });
+
+    it('should hand out copies so callers cannot corrupt the cache', async () => {
+      const first = await service.generateAgeProof({ age: 25, minimumAge: 18 });
+      const original = first.proof.slice();
+      first.proof[0] ^= 0xff;
+      first.publicInputs[0] = '99';
+
+      const second = await service.generateAgeProof({ age: 25, minimumAge: 18 });
+
+      expect(second.proof).toEqual(original);
+      expect(second.publicInputs).toEqual(['18']);
+    });
+
+    it('should prove again when the cache is disabled', async () => {
+      const uncached = new NoirProofService({ proofCacheTtlMs: 0 });
+
+      const first = await uncached.generateAgeProof({ age: 25, minimumAge: 18 });
+      await new Promise(r => setTimeout(r, 5));
+      const second = await uncached.generateAgeProof({ age: 25, minimumAge: 18 });
+
+      expect(second.proof).not.toEqual(first.proof);
+    });
   });
 
   describe('serialization', () => {
@@ -144,5 +502,24 @@ describe('NoirProofService', () => {
       expect(deserialized.publicInputs).toEqual(original.publicInputs);
       expect(deserialized.proof.length).toBe(original.proof.length);
     });
+
+    it('should tag serialized proofs with their circuit type', async () => {
+      const proof = await service.generateAgeProof({ age: 25, minimumAge: 18 });
+
+      const serialized = JSON.parse(service.serializeProof(proof, 'age_verification'));
+
+      expect(serialized.circuitType).toBe('age_verification');
+      expect(serialized.publicInputs).toEqual(proof.publicInputs);
+    });
+  });
+
+  describe('verification keys', () => {
+    it('should refuse to export a key without the circuit artifact', async () => {
+      const missing = new NoirProofService({ circuitsDir: '/nonexistent/circuits' });
+
+      await expect(missing.getVerificationKey('age_verification')).rejects.toThrow(
+        'Cannot export verification key for age_verification'
+      );
+    });
   });
 });
@@ -1,11 +1,29 @@
+import { MemoryCacheStore, TtlCache } from './cache-store';
+import {
+  derivePublicInputClaims,
+  encodePublicInputs,
+  formatAbi,
+  getCircuitAbi,
+  sameAbiInterface,
+  validateParameters,
+  validateWitness
+} from './circuit-abi';
+import { CircuitArtifact, CircuitIntegrityError, CircuitRegistry } from './circuit-registry';
+import { ageOn, isDateNumber, toDateNumber } from './date-utils';
+import type { KycCredential } from './kyc-credential';
+import { MerklePath, computeMerkleRoot, poseidon2Hash } from './merkle-tree';
+import { ProveOptions, ProvingJobError, ProvingPool, getDefaultProvingPool } from './proving-pool';
+
 export interface ProofInput {
-  [key: string]: string | number | boolean;
+  [key: string]: string | number | boolean | number[] | string[] | boolean[];
 }
 
 export interface GeneratedProof {
   proof: Uint8Array;
   publicInputs: string[];
   isRealProof: boolean;
+  /** Registered version of the circuit that produced a real proof. Verification uses the current version when absent. */
+  circuitVersion?: string;
 }
 
 export interface VerificationResult {
@@ -18,6 +36,12 @@ export interface AgeVerificationInput {
   minimumAge: number;
 }
 
+export interface BirthDateAgeInput {
+  birthDate: string;
+  minimumAge: number;
+  asOfDate: number;
+}
+
 export interface RiskThresholdInput {
   riskScore: number;
   maxAllowedRisk: number;
@@ -31,27 +55,178 @@ export interface SelectiveDisclosureInput {
   minimumAge: number;
   maxRiskScore: number;
   minBalanceUsd: number;
+  walletHash: string;
+}
+
+export interface CredentialAgeInput {
+  credential: KycCredential;
+  issuerPublicKey: string;
+  minimumAge: number;
+  asOfDate: number;
+}
+
+export interface JurisdictionRule {
+  mode: 'exclude' | 'allow';
+  countryCodes: number[];
+}
+
+export interface JurisdictionInput {
+  countryCode: number;
+  rule: JurisdictionRule;
+  walletHash: string;
+}
+
+export interface RosterMembershipInput {
+  walletHash: string;
+  /** Secret the employee committed to on the roster; only its commitment is shared. */
+  nullifierSecret: string;
+  path: MerklePath;
+  rosterRoot: string;
+  payPeriod: number;
+}
+
+export interface SalaryBandInput {
+  salary: number;
+  salt: string;
+  walletHash: string;
+  minSalary: number;
+  maxSalary?: number;
 }
 
-export type CircuitType = 'age_verification' | 'risk_threshold' | 'selective_disclosure';
+export type CircuitType =
+  | 'age_verification'
+  | 'birthdate_age'
+  | 'risk_threshold'
+  | 'selective_disclosure'
+  | 'credential_age'
+  | 'jurisdiction'
+  | 'roster_membership'
+  | 'salary_band';
+
+export interface PolicyClaims {
+  minimumAge?: number;
+  maxRiskScore?: number;
+  minBalanceUsd?: number;
+  walletHash?: string;
+  issuerKeyHash?: string;
+  asOfDate?: number;
+  jurisdictionHash?: string;
+  rosterRoot?: string;
+  payPeriod?: number;
+  nullifier?: string;
+  salaryCommitment?: string;
+  minSalary?: number;
+  maxSalary?: number;
+}
+
+export interface VerifyProofOptions {
+  allowMockProofs?: boolean;
+  expectedPublicInputs?: PolicyClaims;
+  /** Reject proofs whose public as-of date (YYYYMMDD) is earlier than this. */
+  notBeforeDate?: number;
+}
 
 export interface NoirServiceConfig {
   circuitsPath?: string;
+  circuitsDir?: string;
+  /** Defaults to `registry.json` in the circuits directory. */
+  registry?: CircuitRegistry;
   useRealProofs?: boolean;
+  requireRealProofs?: boolean;
+  allowMockProofs?: boolean;
+  /** How long generated proofs are reused for identical witnesses. 0 disables the cache. */
+  proofCacheTtlMs?: number;
+  proofCacheMaxEntries?: number;
+  /** Defaults to the shared worker pool; `null` proves on the calling thread. */
+  provingPool?: ProvingPool | null;
+  proofTimeoutMs?: number;
+}
+
+export class ProofGenerationError extends Error {
+  readonly circuitType: CircuitType;
+
+  constructor(circuitType: CircuitType, message: string) {
+    super(`Real proof generation failed for ${circuitType}: ${message}`);
+    this.name = 'ProofGenerationError';
+    this.circuitType = circuitType;
+  }
+}
+
+export type ProofInputErrorCode = 'invalid_input' | 'unsatisfied';
+
+/**
+ * Rejects inputs before anything is proved: `invalid_input` when they are
+ * malformed, `unsatisfied` when they are well-formed but fail the circuit's
+ * constraints, so no valid proof exists.
+ */
+export class ProofInputError extends Error {
+  readonly circuitType: CircuitType;
+  readonly code: ProofInputErrorCode;
+
+  constructor(circuitType: CircuitType, code: ProofInputErrorCode, message: string) {
+    super(message);
+    this.name = 'ProofInputError';
+    this.circuitType = circuitType;
+    this.code = code;
+  }
+}
+
+export interface VerificationKeyExport {
+  format: 'shadowpay-vk';
+  circuitType: CircuitType;
+  circuitVersion: string;
+  noirVersion: string;
+  vkHash: string;
+  verificationKey: string;
+  exportedAt: number;
+}
+
+export const ALL_CIRCUIT_TYPES: CircuitType[] = [
+  'age_verification',
+  'birthdate_age',
+  'risk_threshold',
+  'selective_disclosure',
+  'credential_age',
+  'jurisdiction',
+  'roster_membership',
+  'salary_band',
+];
+
+export const DEFAULT_PROOF_CACHE_TTL_MS = 10 * 60 * 1000;
+export const DEFAULT_PROOF_CACHE_MAX_ENTRIES = 256;
+
+/** Country lists are zero-padded to this length inside the jurisdiction circuit. */
+export const JURISDICTION_LIST_SIZE = 32;
+
+interface HonkBackend {
+  generateProof(witness: Uint8Array): Promise<{ proof: Uint8Array; publicInputs: string[] }>;
+  verifyProof(proof: { proof: Uint8Array; publicInputs: string[] }): Promise<boolean>;
+  getVerificationKey(): Promise<Uint8Array>;
+}
+
+// Public inputs in circuit ABI order, keyed by the policy value each one carries
+const PUBLIC_INPUT_CLAIMS = Object.fromEntries(
+  ALL_CIRCUIT_TYPES.map(circuitType => [circuitType, derivePublicInputClaims(getCircuitAbi(circuitType))])
+) as Record<CircuitType, Array<keyof PolicyClaims>>;
+
+// "roster-nullifier" as a field element, matching NULLIFIER_DOMAIN in the circuit
+const ROSTER_NULLIFIER_DOMAIN = '0x726f737465722d6e756c6c6966696572';
+
+export function getPublicInputClaims(circuitType: CircuitType): Array<keyof PolicyClaims> {
+  return PUBLIC_INPUT_CLAIMS[circuitType];
 }
 
-interface CircuitArtifact {
-  bytecode: string;
-  abi: {
-    parameters: Array<{
-      name: string;
-      type: { kind: string; sign?: string; width?: number };
-      visibility: string;
-    }>;
-  };
+/** Mock proofs commit to public inputs only, so they never carry a private witness. */
+interface MockProofPayload {
+  circuitType: CircuitType;
+  publicInputs: string[];
+  timestamp: number;
+  mockProof: true;
+  hash: string;
 }
 
 let noirInitialized = false;
+let noirInitError: unknown = null;
 let Noir: any = null;
 let UltraHonkBackend: any = null;
 
@@ -59,10 +234,6 @@ async function initNoirLibs(): Promise<boolean> {
   if (noirInitialized) return true;
   
   try {
-    if (typeof window === 'undefined') {
-      return false;
-    }
-
     const noirModule = await import('@noir-lang/noir_js');
     const bbModule = await import('@aztec/bb.js');
     
@@ -72,72 +243,159 @@ async function initNoirLibs(): Promise<boolean> {
     noirInitialized = true;
     return true;
   } catch (error) {
+    noirInitError = error;
     console.warn('Failed to initialize Noir libraries, using mock proofs:', error);
     return false;
   }
 }
 
+function isServer(): boolean {
+  return typeof window === 'undefined';
+}
+
 export class NoirProofService {
   private circuitsPath: string;
+  private circuitsDir?: string;
   private useRealProofs: boolean;
-  private circuitCache: Map<CircuitType, CircuitArtifact> = new Map();
-  private backendCache: Map<CircuitType, any> = new Map();
+  private requireRealProofs: boolean;
+  private allowMockProofs: boolean;
+  private registry: Promise<CircuitRegistry> | null;
+  // Keyed by `<circuit>@<version>` so several versions can be loaded side by side
+  private circuitCache: Map<string, CircuitArtifact> = new Map();
+  private backendCache: Map<string, HonkBackend> = new Map();
+  private checkedVerificationKeys: Set<string> = new Set();
+  private failedCircuits: Set<CircuitType> = new Set();
+  private proofCache: TtlCache<GeneratedProof>;
+  private provingPool: ProvingPool | null;
+  private proofTimeoutMs?: number;
+  // Per-instance salt so cache keys never reveal a digest of the private witness
+  private witnessSalt: Uint8Array = crypto.getRandomValues(new Uint8Array(32));
 
   constructor(config?: NoirServiceConfig) {
     this.circuitsPath = config?.circuitsPath ?? '/circuits';
-    this.useRealProofs = config?.useRealProofs ?? true;
+    this.circuitsDir = config?.circuitsDir;
+    this.registry = config?.registry ? Promise.resolve(config.registry) : null;
+    this.requireRealProofs = config?.requireRealProofs ?? false;
+    this.useRealProofs = this.requireRealProofs || (config?.useRealProofs ?? true);
+    this.allowMockProofs = config?.allowMockProofs ?? true;
+    this.proofCache = new TtlCache<GeneratedProof>({
+      ttlMs: config?.proofCacheTtlMs ?? DEFAULT_PROOF_CACHE_TTL_MS,
+      store: new MemoryCacheStore<GeneratedProof>(config?.proofCacheMaxEntries ?? DEFAULT_PROOF_CACHE_MAX_ENTRIES),
+    });
+    this.provingPool = config?.provingPool === undefined ? getDefaultProvingPool() : config.provingPool;
+    this.proofTimeoutMs = config?.proofTimeoutMs;
   }
 
   async initialize(): Promise<void> {
-    if (this.useRealProofs) {
-      await initNoirLibs();
-    }
-  }
+    if (!this.useRealProofs) return;
 
-  private async loadCircuit(circuitType: CircuitType): Promise<CircuitArtifact | null> {
-    if (this.circuitCache.has(circuitType)) {
-      return this.circuitCache.get(circuitType)!;
+    const ready = await initNoirLibs();
+    if (!ready && this.requireRealProofs) {
+      const reason = noirInitError instanceof Error ? noirInitError.message : 'Noir libraries unavailable';
+      throw new Error(`Real proofs required but Noir could not be initialized: ${reason}`);
     }
+  }
 
+  /**
+   * Loads a registered version of a circuit (the current one by default) and
+   * checks the artifact against the registry before it is used.
+   */
+  private async loadCircuit(circuitType: CircuitType, version?: string): Promise<CircuitArtifact | null> {
     try {
-      const response = await fetch(`${this.circuitsPath}/${circuitType}.json`);
-      if (!response.ok) {
-        throw new Error(`Failed to load circuit: ${response.statusText}`);
+      const registry = await this.getCircuitRegistry();
+      const entry = version ? registry.get(circuitType, version) : registry.current(circuitType);
+      if (!entry) {
+        throw new Error(version ? `version ${version} is not registered` : 'no registered version');
       }
-      const circuit = await response.json();
-      this.circuitCache.set(circuitType, circuit);
+
+      const key = `${circuitType}@${entry.version}`;
+      const cached = this.circuitCache.get(key);
+      if (cached) return cached;
+
+      const circuit = await this.readCircuitAsset<CircuitArtifact>(entry.artifact);
+      await registry.verifyArtifact(circuitType, entry, circuit);
+      this.circuitCache.set(key, circuit);
       return circuit;
     } catch (error) {
+      // Report tampered or mismatched artifacts instead of treating them as missing
+      if (error instanceof CircuitIntegrityError) throw error;
       console.warn(`Failed to load circuit ${circuitType}:`, error);
       return null;
     }
   }
 
-  async generateAgeProof(input: AgeVerificationInput): Promise<GeneratedProof> {
-    this.validateAgeInput(input);
-    
+  async getCircuitRegistry(): Promise<CircuitRegistry> {
+    this.registry ??= this.readCircuitAsset<string>('registry.json', 'text').then(
+      raw => CircuitRegistry.parse(raw),
+      error => {
+        console.warn('No circuit registry found, real proofs are unavailable:', error);
+        return new CircuitRegistry();
+      }
+    );
+    return this.registry;
+  }
+
+  /**
+   * Reads a file relative to the circuits directory: `circuitsDir` (default
+   * `./circuits`) on the server, `circuitsPath` over HTTP in the browser.
+   */
+  private async readCircuitAsset<T>(relativePath: string, as: 'json' | 'text' = 'json'): Promise<T> {
+    let raw: string;
+    if (isServer()) {
+      const { readFile } = await import('fs/promises');
+      const path = await import('path');
+      const dir = this.circuitsDir ?? path.join(process.cwd(), 'circuits');
+      raw = await readFile(path.join(dir, relativePath), 'utf8');
+    } else {
+      const response = await fetch(`${this.circuitsPath}/${relativePath}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load ${relativePath}: ${response.statusText}`);
+      }
+      raw = await response.text();
+    }
+    return (as === 'json' ? JSON.parse(raw) : raw) as T;
+  }
+
+  async generateAgeProof(input: AgeVerificationInput, options?: ProveOptions): Promise<GeneratedProof> {
     const witness = {
       age: input.age,
       minimum_age: input.minimumAge,
     };
+    this.checkWitness('age_verification', witness);
+    this.validateAgeInput(input);
 
-    return this.generateProof('age_verification', witness);
+    return this.generateProof('age_verification', witness, options);
   }
 
-  async generateRiskProof(input: RiskThresholdInput): Promise<GeneratedProof> {
-    this.validateRiskInput(input);
-    
+  /**
+   * Proves the user is at least `minimumAge` on `asOfDate` (YYYYMMDD) from a
+   * private birth date. The as-of date is a public input, so verifiers can
+   * reject proofs that are older than they allow.
+   */
+  async generateBirthDateAgeProof(input: BirthDateAgeInput, options?: ProveOptions): Promise<GeneratedProof> {
+    const witness = {
+      birth_date: toDateNumber(input.birthDate),
+      as_of_date: input.asOfDate,
+      minimum_age: input.minimumAge,
+    };
+    this.checkWitness('birthdate_age', witness);
+    this.validateBirthDateAgeInput(input);
+
+    return this.generateProof('birthdate_age', witness, options);
+  }
+
+  async generateRiskProof(input: RiskThresholdInput, options?: ProveOptions): Promise<GeneratedProof> {
     const witness = {
       risk_score: input.riskScore,
       max_allowed_risk: input.maxAllowedRisk,
     };
+    this.checkWitness('risk_threshold', witness);
+    this.validateRiskInput(input);
 
-    return this.generateProof('risk_threshold', witness);
+    return this.generateProof('risk_threshold', witness, options);
   }
 
-  async generateSelectiveDisclosureProof(input: SelectiveDisclosureInput): Promise<GeneratedProof> {
-    this.validateSelectiveDisclosureInput(input);
-    
+  async generateSelectiveDisclosureProof(input: SelectiveDisclosureInput, options?: ProveOptions): Promise<GeneratedProof> {
     const witness = {
       age: input.age,
       risk_score: input.riskScore,
@@ -146,29 +404,136 @@ export class NoirProofService {
       minimum_age: input.minimumAge,
       max_risk_score: input.maxRiskScore,
       min_balance_usd: input.minBalanceUsd,
+      wallet_hash: input.walletHash,
     };
+    this.checkWitness('selective_disclosure', witness);
+    this.validateSelectiveDisclosureInput(input);
 
-    return this.generateProof('selective_disclosure', witness);
+    return this.generateProof('selective_disclosure', witness, options);
   }
 
-  async verifyProof(circuitType: CircuitType, proof: GeneratedProof): Promise<VerificationResult> {
-    if (!proof.isRealProof) {
-      const isValid = proof.proof.length > 0;
-      return { isValid };
+  /**
+   * Proves the holder of an issuer-signed credential is at least `minimumAge`
+   * on `asOfDate` (YYYYMMDD). The circuit checks the issuer's P-256 signature
+   * over the birth date, so the age is never self-reported.
+   */
+  async generateCredentialAgeProof(input: CredentialAgeInput, options?: ProveOptions): Promise<GeneratedProof> {
+    // The key and signature are decoded from hex, so validate first
+    this.validateCredentialAgeInput(input);
+
+    const { credential } = input;
+    const issuerKey = hexToBytes(input.issuerPublicKey);
+    const witness = {
+      birth_date: toDateNumber(credential.birthDate),
+      country_code: credential.countryCode ?? 0,
+      signature: Array.from(hexToBytes(credential.signature)),
+      issuer_pub_key_x: Array.from(issuerKey.slice(1, 33)),
+      issuer_pub_key_y: Array.from(issuerKey.slice(33)),
+      issuer_key_hash: await hashIssuerKey(input.issuerPublicKey),
+      wallet_hash: await hashWalletAddress(credential.subject),
+      as_of_date: input.asOfDate,
+      minimum_age: input.minimumAge,
+    };
+    this.checkWitness('credential_age', witness);
+
+    return this.generateProof('credential_age', witness, options);
+  }
+
+  /**
+   * Proves the payee's country is outside (or inside) the rule's country
+   * list without revealing it. Only the rule's hash and the wallet hash are
+   * public.
+   */
+  async generateJurisdictionProof(input: JurisdictionInput, options?: ProveOptions): Promise<GeneratedProof> {
+    const witness = {
+      country_code: input.countryCode,
+      mode: input.rule.mode === 'allow' ? 1 : 0,
+      country_list: padCountryList(input.rule.countryCodes),
+      list_hash: await hashJurisdictionRule(input.rule),
+      wallet_hash: input.walletHash,
+    };
+    this.checkWitness('jurisdiction', witness);
+    this.validateJurisdictionInput(input);
+
+    return this.generateProof('jurisdiction', witness, options);
+  }
+
+  /**
+   * Proves the wallet is a leaf of the roster tree without revealing its
+   * position. The public nullifier is derived from the employee's nullifier
+   * secret and the pay period, so a second claim for the same period is
+   * detectable but claims cannot be linked to roster entries.
+   */
+  async generateRosterMembershipProof(input: RosterMembershipInput, options?: ProveOptions): Promise<GeneratedProof> {
+    // computeRosterNullifier needs a well-formed secret, so validate first
+    await this.validateRosterMembershipInput(input);
+
+    const witness = {
+      wallet_hash: input.walletHash,
+      nullifier_secret: input.nullifierSecret,
+      leaf_index: input.path.leafIndex,
+      siblings: input.path.siblings,
+      roster_root: input.rosterRoot,
+      pay_period: input.payPeriod,
+      nullifier: await computeRosterNullifier(input.nullifierSecret, input.payPeriod),
+    };
+    this.checkWitness('roster_membership', witness);
+
+    return this.generateProof('roster_membership', witness, options);
+  }
+
+  /**
+   * Proves a committed salary is at least `minSalary` and, when `maxSalary`
+   * is set, at most `maxSalary`. Amounts are in the token's smallest unit.
+   * Income proofs are handed to third parties, so a service that does not
+   * accept mock proofs never issues one either.
+   */
+  async generateSalaryBandProof(input: SalaryBandInput, options?: ProveOptions): Promise<GeneratedProof> {
+    // commitSalary needs integer amounts and hex inputs, so validate first
+    this.validateSalaryBandInput(input);
+
+    const witness = {
+      salary: input.salary,
+      salt: input.salt,
+      salary_commitment: await commitSalary(input.walletHash, input.salary, input.salt),
+      wallet_hash: input.walletHash,
+      min_salary: input.minSalary,
+      max_salary: input.maxSalary ?? 0,
+    };
+    this.checkWitness('salary_band', witness);
+
+    return this.generateProof('salary_band', witness, options, this.requireRealProofs || !this.allowMockProofs);
+  }
+
+  async verifyProof(
+    circuitType: CircuitType,
+    proof: GeneratedProof,
+    options?: VerifyProofOptions
+  ): Promise<VerificationResult> {
+    const claimError = this.checkPublicInputs(circuitType, proof.publicInputs, options?.expectedPublicInputs)
+      ?? this.checkAsOfDate(circuitType, proof.publicInputs, options?.notBeforeDate);
+    if (claimError) {
+      return { isValid: false, error: claimError };
     }
 
-    try {
-      const circuit = await this.loadCircuit(circuitType);
-      if (!circuit || !UltraHonkBackend) {
-        return { isValid: proof.proof.length > 0 };
+    const mock = this.decodeMockProof(proof.proof);
+    if (mock || !proof.isRealProof) {
+      if (!(options?.allowMockProofs ?? this.allowMockProofs)) {
+        return { isValid: false, error: 'Mock proofs are not accepted' };
       }
+      return this.verifyMockProof(circuitType, proof, mock);
+    }
 
-      let backend = this.backendCache.get(circuitType);
-      if (!backend) {
-        backend = new UltraHonkBackend(circuit.bytecode);
-        this.backendCache.set(circuitType, backend);
+    try {
+      await this.initialize();
+      const circuit = await this.loadCircuit(circuitType, proof.circuitVersion);
+      if (!circuit || !UltraHonkBackend) {
+        const version = proof.circuitVersion ? ` version ${proof.circuitVersion}` : '';
+        return { isValid: false, error: `No verifier available for ${circuitType}${version}` };
       }
 
+      const backend = this.getBackend(circuitType, circuit);
+      await this.checkVerificationKey(circuitType, circuit, backend);
       const isValid = await backend.verifyProof({ proof: proof.proof, publicInputs: proof.publicInputs });
       return { isValid };
     } catch (error) {
@@ -179,59 +544,245 @@ export class NoirProofService {
     }
   }
 
-  private async generateProof(circuitType: CircuitType, witness: ProofInput): Promise<GeneratedProof> {
-    if (this.useRealProofs && noirInitialized) {
+  isMockProof(proof: Uint8Array): boolean {
+    return this.decodeMockProof(proof) !== null;
+  }
+
+  /** Drops every cached proof, e.g. after circuits are recompiled in place. */
+  async clearProofCache(): Promise<void> {
+    await this.proofCache.clear();
+  }
+
+  private checkPublicInputs(
+    circuitType: CircuitType,
+    publicInputs: string[],
+    expected?: PolicyClaims
+  ): string | null {
+    if (!expected) return null;
+
+    const claims = PUBLIC_INPUT_CLAIMS[circuitType];
+    if (publicInputs.length !== claims.length) {
+      return `Expected ${claims.length} public inputs for ${circuitType}, got ${publicInputs.length}`;
+    }
+
+    for (const [index, claim] of claims.entries()) {
+      const value = expected[claim];
+      if (value === undefined) continue;
+
+      let actual: bigint;
       try {
-        return await this.generateRealProof(circuitType, witness);
+        actual = BigInt(publicInputs[index]);
+      } catch {
+        return `Public input ${claim} is not a number: ${publicInputs[index]}`;
+      }
+      if (actual !== BigInt(value)) {
+        return `Public input ${claim} is ${actual}, expected ${value}`;
+      }
+    }
+    return null;
+  }
+
+  private checkAsOfDate(circuitType: CircuitType, publicInputs: string[], notBeforeDate?: number): string | null {
+    const index = PUBLIC_INPUT_CLAIMS[circuitType].indexOf('asOfDate');
+    if (notBeforeDate === undefined || index < 0) return null;
+
+    const asOfDate = Number(publicInputs[index]);
+    if (!(asOfDate >= notBeforeDate)) {
+      return `Proof is stale: as-of date ${publicInputs[index]} is before ${notBeforeDate}`;
+    }
+    return null;
+  }
+
+  private decodeMockProof(proof: Uint8Array): MockProofPayload | null {
+    try {
+      const parsed = JSON.parse(new TextDecoder().decode(proof));
+      return parsed?.mockProof === true ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private verifyMockProof(
+    circuitType: CircuitType,
+    proof: GeneratedProof,
+    mock: MockProofPayload | null
+  ): VerificationResult {
+    if (!mock || mock.circuitType !== circuitType) {
+      return { isValid: false, error: `Not a ${circuitType} proof` };
+    }
+    if (!Array.isArray(mock.publicInputs) || mock.hash !== this.mockProofHash(circuitType, mock.publicInputs)) {
+      return { isValid: false, error: 'Mock proof has been modified' };
+    }
+
+    const committed = mock.publicInputs;
+    const matches = committed.length === proof.publicInputs.length &&
+      committed.every((value, i) => value === proof.publicInputs[i]);
+    return matches ? { isValid: true } : { isValid: false, error: 'Public inputs do not match the proof' };
+  }
+
+  private async generateProof(
+    circuitType: CircuitType,
+    witness: ProofInput,
+    options?: ProveOptions,
+    requireRealProof: boolean = this.requireRealProofs
+  ): Promise<GeneratedProof> {
+    if (this.useRealProofs) {
+      try {
+        await this.initialize();
       } catch (error) {
-        console.warn(`Real proof generation failed for ${circuitType}, using mock:`, error);
+        throw new ProofGenerationError(circuitType, error instanceof Error ? error.message : String(error));
       }
     }
-    
-    return this.createMockProof(circuitType, witness);
+
+    if (this.useRealProofs && noirInitialized && !this.failedCircuits.has(circuitType)) {
+      try {
+        const circuit = await this.loadCircuit(circuitType);
+        const key = await this.proofCacheKey(circuitType, circuit, witness);
+        // Identical requests share one job, which is only cancelled once every caller has cancelled
+        return copyProof(await this.proofCache.getOrLoad(
+          key,
+          signal => this.generateRealProof(circuitType, circuit, witness, { ...options, signal }),
+          options?.signal
+        ));
+      } catch (error) {
+        if (options?.signal?.aborted) {
+          throw error instanceof ProvingJobError ? error : new ProvingJobError('cancelled', `${circuitType} cancelled`);
+        }
+        // Cancelled or timed-out jobs say nothing about whether the circuit works
+        if (error instanceof ProvingJobError && error.code !== 'failed' && error.code !== 'unavailable') {
+          throw error;
+        }
+        // Workers that cannot start or keep crashing are a deployment problem, not a reason for mocks
+        if (requireRealProof || (error instanceof ProvingJobError && error.code === 'unavailable')) {
+          throw new ProofGenerationError(circuitType, error instanceof Error ? error.message : String(error));
+        }
+        // Only an artifact that fails its integrity checks is certain to fail again
+        if (error instanceof CircuitIntegrityError) {
+          this.failedCircuits.add(circuitType);
+          console.warn(`Real proof generation failed for ${circuitType}, using mock proofs from now on:`, error);
+        } else {
+          console.warn(`Real proof generation failed for ${circuitType}, using a mock proof:`, error);
+        }
+      }
+    }
+
+    if (requireRealProof) {
+      throw new ProofGenerationError(circuitType, 'mock proofs are not issued for this circuit');
+    }
+
+    const key = await this.proofCacheKey(circuitType, null, witness);
+    return copyProof(await this.proofCache.getOrLoad(key, async () => this.createMockProof(circuitType, witness)));
+  }
+
+  /**
+   * Identifies a proof by circuit, artifact hash (so recompiling a circuit
+   * invalidates its proofs), public inputs and a salted digest of the witness.
+   */
+  private async proofCacheKey(circuitType: CircuitType, circuit: CircuitArtifact | null, witness: ProofInput): Promise<string> {
+    const version = circuit ? String(circuit.hash ?? 'unknown') : 'mock';
+    const publicInputs = encodePublicInputs(getCircuitAbi(circuitType), witness);
+    const encoded = new TextEncoder().encode(JSON.stringify(witness));
+    const salted = new Uint8Array(this.witnessSalt.length + encoded.length);
+    salted.set(this.witnessSalt);
+    salted.set(encoded, this.witnessSalt.length);
+    return [circuitType, version, publicInputs.join(','), await sha256Hex(salted)].join(':');
   }
 
-  private async generateRealProof(circuitType: CircuitType, witness: ProofInput): Promise<GeneratedProof> {
-    const circuit = await this.loadCircuit(circuitType);
+  private async generateRealProof(
+    circuitType: CircuitType,
+    circuit: CircuitArtifact | null,
+    witness: ProofInput,
+    options?: ProveOptions
+  ): Promise<GeneratedProof> {
     if (!circuit) {
       throw new Error(`Circuit ${circuitType} not available`);
     }
 
-    const noir = new Noir(circuit);
-    const { witness: solvedWitness } = await noir.execute(witness);
+    // A stale artifact would reject witnesses that passed validation
+    const abi = getCircuitAbi(circuitType);
+    if (!sameAbiInterface(circuit.abi, abi)) {
+      throw new CircuitIntegrityError(
+        circuitType,
+        String(circuit.hash),
+        `artifact takes ${formatAbi(circuit.abi)}, expected ${formatAbi(abi)}`
+      );
+    }
 
-    let backend = this.backendCache.get(circuitType);
-    if (!backend) {
-      backend = new UltraHonkBackend(circuit.bytecode);
-      this.backendCache.set(circuitType, backend);
+    if (this.provingPool) {
+      const result = await this.provingPool.prove(
+        { circuitType, circuit: { bytecode: circuit.bytecode, abi: circuit.abi }, witness },
+        { ...options, timeoutMs: options?.timeoutMs ?? this.proofTimeoutMs }
+      );
+      return {
+        proof: result.proof,
+        publicInputs: result.publicInputs,
+        isRealProof: true,
+        circuitVersion: String(circuit.hash),
+      };
     }
 
+    if (options?.signal?.aborted) {
+      throw new ProvingJobError('cancelled', `${circuitType} cancelled before it started`);
+    }
+
+    const noir = new Noir(circuit);
+    const { witness: solvedWitness } = await noir.execute(witness);
+
+    const backend = this.getBackend(circuitType, circuit);
     const proof = await backend.generateProof(solvedWitness);
 
     return {
       proof: proof.proof,
-      publicInputs: proof.publicInputs || this.extractPublicInputs(circuitType, witness),
+      publicInputs: proof.publicInputs || encodePublicInputs(getCircuitAbi(circuitType), witness),
       isRealProof: true,
+      circuitVersion: String(circuit.hash),
     };
   }
 
+  private getBackend(circuitType: CircuitType, circuit: CircuitArtifact): HonkBackend {
+    const key = `${circuitType}@${circuit.hash}`;
+    let backend = this.backendCache.get(key);
+    if (!backend) {
+      backend = new UltraHonkBackend(circuit.bytecode) as HonkBackend;
+      this.backendCache.set(key, backend);
+    }
+    return backend;
+  }
+
+  /** Derives the verification key once per circuit version and checks it against the registry. */
+  private async checkVerificationKey(circuitType: CircuitType, circuit: CircuitArtifact, backend: HonkBackend): Promise<void> {
+    const key = `${circuitType}@${circuit.hash}`;
+    if (this.checkedVerificationKeys.has(key)) return;
+
+    const registry = await this.getCircuitRegistry();
+    const entry = registry.get(circuitType, String(circuit.hash));
+    if (entry?.vkHash) {
+      registry.verifyVerificationKeyHash(circuitType, entry, await sha256Hex(await backend.getVerificationKey()));
+    }
+    this.checkedVerificationKeys.add(key);
+  }
+
   private createMockProof(circuitType: CircuitType, witness: ProofInput): GeneratedProof {
-    const encoder = new TextEncoder();
-    const proofData = {
+    const publicInputs = encodePublicInputs(getCircuitAbi(circuitType), witness);
+    const proofData: MockProofPayload = {
       circuitType,
-      witness,
+      publicInputs,
       timestamp: Date.now(),
       mockProof: true,
-      hash: this.simpleHash(JSON.stringify(witness)),
+      hash: this.mockProofHash(circuitType, publicInputs),
     };
-    
+
     return {
-      proof: encoder.encode(JSON.stringify(proofData)),
-      publicInputs: this.extractPublicInputs(circuitType, witness),
+      proof: new TextEncoder().encode(JSON.stringify(proofData)),
+      publicInputs,
       isRealProof: false,
     };
   }
 
+  private mockProofHash(circuitType: CircuitType, publicInputs: string[]): string {
+    return this.simpleHash(JSON.stringify([circuitType, publicInputs]));
+  }
+
   private simpleHash(str: string): string {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -242,44 +793,43 @@ export class NoirProofService {
     return Math.abs(hash).toString(16).padStart(8, '0');
   }
 
-  private extractPublicInputs(circuitType: CircuitType, witness: ProofInput): string[] {
-    switch (circuitType) {
-      case 'age_verification':
-        return [String(witness.minimum_age)];
-      case 'risk_threshold':
-        return [String(witness.max_allowed_risk)];
-      case 'selective_disclosure':
-        return [
-          String(witness.minimum_age),
-          String(witness.max_risk_score),
-          String(witness.min_balance_usd),
-        ];
-      default:
-        return [];
-    }
+  /**
+   * Checks a witness against the circuit's ABI before anything is proved.
+   * The validate*Input methods below only cover what the ABI cannot express.
+   */
+  private checkWitness(circuitType: CircuitType, witness: ProofInput): void {
+    validateWitness(getCircuitAbi(circuitType), witness);
+  }
+
+  /** Checks the inputs a witness is derived from against the ABI, before they are hashed. */
+  private checkParameters(circuitType: CircuitType, values: ProofInput): void {
+    validateParameters(getCircuitAbi(circuitType), values);
   }
 
   private validateAgeInput(input: AgeVerificationInput): void {
-    if (input.age < 0 || input.age > 255) {
-      throw new Error('Invalid age: must be between 0 and 255 (u8)');
+    if (input.age < input.minimumAge) {
+      throw new ProofInputError('age_verification', 'unsatisfied', 'Age verification will fail: age is below minimum');
     }
-    if (input.minimumAge < 0 || input.minimumAge > 255) {
-      throw new Error('Invalid minimum age: must be between 0 and 255 (u8)');
+  }
+
+  private validateBirthDateAgeInput(input: BirthDateAgeInput): void {
+    if (!isDateNumber(input.asOfDate)) {
+      throw new ProofInputError('birthdate_age', 'invalid_input', `Invalid as-of date: ${input.asOfDate} (expected YYYYMMDD)`);
     }
-    if (input.age < input.minimumAge) {
-      throw new Error('Age verification will fail: age is below minimum');
+    if (ageOn(toDateNumber(input.birthDate), input.asOfDate) < input.minimumAge) {
+      throw new ProofInputError('birthdate_age', 'unsatisfied', 'Age verification will fail: age is below minimum');
     }
   }
 
   private validateRiskInput(input: RiskThresholdInput): void {
     if (input.riskScore < 1 || input.riskScore > 10) {
-      throw new Error('Invalid risk score: must be between 1 and 10');
+      throw new ProofInputError('risk_threshold', 'invalid_input', 'Invalid risk score: must be between 1 and 10');
     }
     if (input.maxAllowedRisk < 1 || input.maxAllowedRisk > 10) {
-      throw new Error('Invalid max risk: must be between 1 and 10');
+      throw new ProofInputError('risk_threshold', 'invalid_input', 'Invalid max risk: must be between 1 and 10');
     }
     if (input.riskScore > input.maxAllowedRisk) {
-      throw new Error('Risk verification will fail: risk exceeds threshold');
+      throw new ProofInputError('risk_threshold', 'unsatisfied', 'Risk verification will fail: risk exceeds threshold');
     }
   }
 
@@ -288,18 +838,135 @@ export class NoirProofService {
     this.validateRiskInput({ riskScore: input.riskScore, maxAllowedRisk: input.maxRiskScore });
     
     if (input.isSanctioned) {
-      throw new Error('Selective disclosure will fail: address is sanctioned');
+      throw new ProofInputError('selective_disclosure', 'unsatisfied', 'Selective disclosure will fail: address is sanctioned');
     }
     if (input.walletBalanceUsd < input.minBalanceUsd) {
-      throw new Error('Selective disclosure will fail: balance below minimum');
+      throw new ProofInputError('selective_disclosure', 'unsatisfied', 'Selective disclosure will fail: balance below minimum');
+    }
+  }
+
+  private validateCredentialAgeInput(input: CredentialAgeInput): void {
+    if (!/^04[0-9a-f]{128}$/i.test(input.issuerPublicKey)) {
+      throw new ProofInputError('credential_age', 'invalid_input', 'Invalid issuer public key: expected an uncompressed P-256 point in hex');
+    }
+    if (!/^[0-9a-f]{128}$/i.test(input.credential.signature)) {
+      throw new ProofInputError('credential_age', 'invalid_input', 'Invalid credential signature: expected 64 bytes of hex');
+    }
+    if (ageOn(toDateNumber(input.credential.birthDate), input.asOfDate) < input.minimumAge) {
+      throw new ProofInputError('credential_age', 'unsatisfied', 'Credential age verification will fail: age is below minimum');
+    }
+  }
+
+  private validateJurisdictionInput(input: JurisdictionInput): void {
+    validateJurisdictionRule(input.rule);
+    if (input.countryCode < 1 || input.countryCode > 999) {
+      throw new ProofInputError('jurisdiction', 'invalid_input', 'Invalid country code: must be an ISO 3166-1 numeric code (1-999)');
+    }
+
+    const listed = input.rule.countryCodes.includes(input.countryCode);
+    if (input.rule.mode === 'exclude' && listed) {
+      throw new ProofInputError('jurisdiction', 'unsatisfied', 'Jurisdiction verification will fail: country is excluded');
+    }
+    if (input.rule.mode === 'allow' && !listed) {
+      throw new ProofInputError('jurisdiction', 'unsatisfied', 'Jurisdiction verification will fail: country is not allowed');
     }
   }
 
-  serializeProof(proof: GeneratedProof): string {
+  private validateSalaryBandInput(input: SalaryBandInput): void {
+    this.checkParameters('salary_band', {
+      salary: input.salary,
+      salt: input.salt,
+      wallet_hash: input.walletHash,
+      min_salary: input.minSalary,
+      max_salary: input.maxSalary ?? 0,
+    });
+    if (input.maxSalary && input.maxSalary < input.minSalary) {
+      throw new ProofInputError('salary_band', 'invalid_input', 'Invalid salary band: maximum is below minimum');
+    }
+    if (input.salary < input.minSalary) {
+      throw new ProofInputError('salary_band', 'unsatisfied', 'Salary band verification will fail: salary below minimum');
+    }
+    if (input.maxSalary && input.salary > input.maxSalary) {
+      throw new ProofInputError('salary_band', 'unsatisfied', 'Salary band verification will fail: salary above maximum');
+    }
+  }
+
+  private async validateRosterMembershipInput(input: RosterMembershipInput): Promise<void> {
+    this.checkParameters('roster_membership', {
+      wallet_hash: input.walletHash,
+      nullifier_secret: input.nullifierSecret,
+      leaf_index: input.path.leafIndex,
+      siblings: input.path.siblings,
+      roster_root: input.rosterRoot,
+    });
+    if (BigInt(input.nullifierSecret) === 0n) {
+      throw new ProofInputError('roster_membership', 'invalid_input', 'Invalid nullifier secret: use generateNullifierSecret to create it');
+    }
+    if (!isPayPeriod(input.payPeriod)) {
+      throw new ProofInputError('roster_membership', 'invalid_input', `Invalid pay period: ${input.payPeriod} (expected YYYYMM)`);
+    }
+
+    const leaf = await hashRosterMember(input.walletHash, await commitNullifierSecret(input.nullifierSecret));
+    const root = await computeMerkleRoot(leaf, input.path);
+    if (BigInt(root) !== BigInt(input.rosterRoot)) {
+      throw new ProofInputError('roster_membership', 'unsatisfied', 'Roster membership will fail: wallet is not on the roster');
+    }
+  }
+
+  /**
+   * Exports the UltraHonk verification key for a registered circuit version
+   * (the current one by default) so proofs can be checked without this
+   * service. `circuitVersion` is the nargo program hash of the artifact the
+   * key was derived from.
+   */
+  async getVerificationKey(circuitType: CircuitType, version?: string): Promise<VerificationKeyExport> {
+    await this.initialize();
+    const circuit = await this.loadCircuit(circuitType, version);
+    if (!circuit || !UltraHonkBackend) {
+      throw new Error(`Cannot export verification key for ${circuitType}: circuit or backend unavailable`);
+    }
+
+    const vk = await this.getBackend(circuitType, circuit).getVerificationKey();
+    const vkHash = await sha256Hex(vk);
+    const registry = await this.getCircuitRegistry();
+    const entry = registry.get(circuitType, String(circuit.hash));
+    if (entry) registry.verifyVerificationKeyHash(circuitType, entry, vkHash);
+
+    return {
+      format: 'shadowpay-vk',
+      circuitType,
+      circuitVersion: String(circuit.hash ?? 'unknown'),
+      noirVersion: circuit.noir_version ?? 'unknown',
+      vkHash,
+      verificationKey: toBase64(vk),
+      exportedAt: Date.now(),
+    };
+  }
+
+  /** Returns the current registered version of a circuit, or 'unknown' when none is registered. */
+  async getCircuitVersion(circuitType: CircuitType): Promise<string> {
+    return (await this.getCircuitRegistry()).current(circuitType)?.version ?? 'unknown';
+  }
+
+  /** Exports keys for every registered version, so verifiers can still check older proofs. */
+  async exportVerificationKeys(): Promise<VerificationKeyExport[]> {
+    const registry = await this.getCircuitRegistry();
+    const keys: VerificationKeyExport[] = [];
+    for (const circuitType of ALL_CIRCUIT_TYPES) {
+      for (const { version } of registry.versions(circuitType)) {
+        keys.push(await this.getVerificationKey(circuitType, version));
+      }
+    }
+    return keys;
+  }
+
+  serializeProof(proof: GeneratedProof, circuitType?: CircuitType): string {
     return JSON.stringify({
+      ...(circuitType && { circuitType }),
       proof: Array.from(proof.proof),
       publicInputs: proof.publicInputs,
       isRealProof: proof.isRealProof,
+      ...(proof.circuitVersion && { circuitVersion: proof.circuitVersion }),
     });
   }
 
@@ -309,10 +976,114 @@ export class NoirProofService {
       proof: new Uint8Array(parsed.proof),
       publicInputs: parsed.publicInputs,
       isRealProof: parsed.isRealProof ?? false,
+      ...(typeof parsed.circuitVersion === 'string' && { circuitVersion: parsed.circuitVersion }),
     };
   }
 }
 
+/**
+ * Commits a wallet address to a BN254 field element: the first 31 bytes of
+ * SHA-256 over the address string, as 0x-prefixed hex.
+ */
+export async function hashWalletAddress(walletAddress: string): Promise<string> {
+  const digest = await sha256Hex(new TextEncoder().encode(walletAddress));
+  return `0x${digest.slice(0, 62)}`;
+}
+
+/**
+ * Identifies a credential issuer inside circuits: the first 31 bytes of
+ * SHA-256 over the public key's x || y coordinates.
+ */
+export async function hashIssuerKey(publicKey: string): Promise<string> {
+  const digest = await sha256Hex(hexToBytes(publicKey).slice(1));
+  return `0x${digest.slice(0, 62)}`;
+}
+
+/** Random 31-byte nullifier secret, generated and kept by the employee. */
+export function generateNullifierSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(31));
+  return `0x${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** What an employee hands the employer for the roster: Poseidon2 over their nullifier secret. */
+export async function commitNullifierSecret(nullifierSecret: string): Promise<string> {
+  return poseidon2Hash([nullifierSecret]);
+}
+
+/** Roster leaf for an employee: Poseidon2 over their wallet hash and nullifier commitment. */
+export async function hashRosterMember(walletHash: string, nullifierCommitment: string): Promise<string> {
+  return poseidon2Hash([walletHash, nullifierCommitment]);
+}
+
+/** Only the holder of the nullifier secret can compute this, so the employer cannot link claims. */
+export async function computeRosterNullifier(nullifierSecret: string, payPeriod: number): Promise<string> {
+  return poseidon2Hash([ROSTER_NULLIFIER_DOMAIN, nullifierSecret, payPeriod]);
+}
+
+/** Salary commitment published with a payroll transfer: Poseidon2(walletHash, salary, salt). */
+export async function commitSalary(walletHash: string, salary: number, salt: string): Promise<string> {
+  return poseidon2Hash([walletHash, salary, salt]);
+}
+
+/** Pay periods are calendar months encoded as YYYYMM. */
+export function isPayPeriod(payPeriod: number): boolean {
+  const month = payPeriod % 100;
+  return Number.isInteger(payPeriod) && payPeriod >= 100001 && payPeriod <= 999912 && month >= 1 && month <= 12;
+}
+
+export function validateJurisdictionRule(rule: JurisdictionRule): void {
+  if (rule.mode !== 'exclude' && rule.mode !== 'allow') {
+    throw new Error(`Invalid jurisdiction mode: ${rule.mode}`);
+  }
+  if (!Array.isArray(rule.countryCodes) || rule.countryCodes.length > JURISDICTION_LIST_SIZE) {
+    throw new Error(`Invalid country list: at most ${JURISDICTION_LIST_SIZE} codes are supported`);
+  }
+  if (!rule.countryCodes.every(code => Number.isInteger(code) && code >= 1 && code <= 999)) {
+    throw new Error('Invalid country list: codes must be ISO 3166-1 numeric (1-999)');
+  }
+}
+
+/**
+ * Commits a jurisdiction rule to a field element: the first 31 bytes of
+ * SHA-256 over the mode byte (0 exclude, 1 allow) and the sorted,
+ * zero-padded country list as big-endian u16s.
+ */
+export async function hashJurisdictionRule(rule: JurisdictionRule): Promise<string> {
+  validateJurisdictionRule(rule);
+  const bytes = new Uint8Array(1 + 2 * JURISDICTION_LIST_SIZE);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = rule.mode === 'allow' ? 1 : 0;
+  padCountryList(rule.countryCodes).forEach((code, i) => view.setUint16(1 + 2 * i, code, false));
+
+  const digest = await sha256Hex(bytes);
+  return `0x${digest.slice(0, 62)}`;
+}
+
+function padCountryList(countryCodes: number[]): number[] {
+  const sorted = [...new Set(countryCodes)].sort((a, b) => a - b);
+  return [...sorted, ...new Array(JURISDICTION_LIST_SIZE - sorted.length).fill(0)];
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+}
+
+// Cached proofs are shared, so callers each get their own buffers
+function copyProof(proof: GeneratedProof): GeneratedProof {
+  return { ...proof, proof: proof.proof.slice(), publicInputs: [...proof.publicInputs] };
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  data.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
 export function createNoirProofService(config?: NoirServiceConfig): NoirProofService {
   return new NoirProofService(config);
 }
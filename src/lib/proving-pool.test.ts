@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'bun:test';
+import { NoirProofService, ProofGenerationError } from './noir-proof-service';
+import {
+  ProvingJob,
+  ProvingJobError,
+  ProvingPool,
+  ProvingStage,
+  WorkerHandle,
+  WorkerRequest,
+  WorkerResponse
+} from './proving-pool';
+
+const JOB: ProvingJob = {
+  circuitType: 'age_verification',
+  circuit: { bytecode: 'H4sI', abi: {} },
+  witness: { age: 25, minimum_age: 18 },
+};
+
+class FakeWorker implements WorkerHandle {
+  terminated = false;
+  requests: WorkerRequest[] = [];
+  private messageListener?: (message: WorkerResponse) => void;
+
+  post(message: WorkerRequest): void {
+    this.requests.push(message);
+  }
+
+  onMessage(listener: (message: WorkerResponse) => void): void {
+    this.messageListener = listener;
+  }
+
+  onError(): void {}
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  respond(message: WorkerResponse): void {
+    if (!this.terminated) this.messageListener?.(message);
+  }
+
+  finish(jobId = this.requests[this.requests.length - 1].jobId): void {
+    this.respond({ type: 'progress', jobId, stage: 'executing' });
+    this.respond({ type: 'progress', jobId, stage: 'proving' });
+    this.respond({ type: 'result', jobId, proof: new Uint8Array([1, 2, 3]), publicInputs: ['18'] });
+  }
+}
+
+function createFakePool(size = 1, defaultTimeoutMs?: number) {
+  const workers: FakeWorker[] = [];
+  const pool = new ProvingPool({
+    size,
+    defaultTimeoutMs,
+    createWorker: async () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker;
+    },
+  });
+  return { pool, workers };
+}
+
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+describe('ProvingPool', () => {
+  it('should run jobs on a worker and report progress', async () => {
+    const { pool, workers } = createFakePool();
+    const stages: ProvingStage[] = [];
+
+    const result = pool.prove(JOB, { onProgress: p => stages.push(p.stage) });
+    await tick();
+    workers[0].finish();
+
+    expect(await result).toEqual({ proof: new Uint8Array([1, 2, 3]), publicInputs: ['18'] });
+    expect(stages).toEqual(['queued', 'executing', 'proving']);
+    expect(workers[0].requests[0].witness).toEqual(JOB.witness);
+  });
+
+  it('should queue jobs until a worker is free', async () => {
+    const { pool, workers } = createFakePool(1);
+
+    const first = pool.prove(JOB);
+    const second = pool.prove(JOB);
+    await tick();
+
+    expect(workers).toHaveLength(1);
+    expect(pool.pending).toBe(1);
+
+    workers[0].finish();
+    await first;
+    workers[0].finish();
+    await second;
+
+    expect(workers[0].requests).toHaveLength(2);
+    expect(pool.pending).toBe(0);
+  });
+
+  it('should drop cancelled jobs from the queue', async () => {
+    const { pool, workers } = createFakePool(1);
+    const controller = new AbortController();
+
+    const first = pool.prove(JOB);
+    const second = pool.prove(JOB, { signal: controller.signal });
+    await tick();
+    controller.abort();
+
+    await expect(second).rejects.toThrow(ProvingJobError);
+    expect(pool.pending).toBe(0);
+    expect(workers[0].terminated).toBe(false);
+
+    workers[0].finish();
+    await first;
+  });
+
+  it('should terminate the worker of a cancelled running job and start a fresh one', async () => {
+    const { pool, workers } = createFakePool(1);
+    const controller = new AbortController();
+
+    const first = pool.prove(JOB, { signal: controller.signal });
+    const second = pool.prove(JOB);
+    await tick();
+    controller.abort();
+
+    await expect(first).rejects.toThrow('Proving job cancelled');
+    expect(workers[0].terminated).toBe(true);
+
+    await tick();
+    workers[1].finish();
+    expect((await second).publicInputs).toEqual(['18']);
+  });
+
+  it('should time out jobs that take too long', async () => {
+    const { pool, workers } = createFakePool(1, 20);
+
+    const attempt = pool.prove(JOB);
+
+    await expect(attempt).rejects.toThrow('Proving job timeout: age_verification exceeded 20ms');
+    expect(workers[0].terminated).toBe(true);
+  });
+
+  it('should surface errors reported by the worker', async () => {
+    const { pool, workers } = createFakePool();
+
+    const attempt = pool.prove(JOB);
+    await tick();
+    workers[0].respond({ type: 'error', jobId: workers[0].requests[0].jobId, message: 'Cannot satisfy constraint' });
+
+    await expect(attempt).rejects.toThrow('Proving job failed: Cannot satisfy constraint');
+  });
+
+  it('should report workers that cannot start as unavailable', async () => {
+    const pool = new ProvingPool({ size: 1, createWorker: () => Promise.reject(new Error('Cannot find module proving-worker.ts')) });
+
+    const attempt = pool.prove(JOB);
+
+    await expect(attempt).rejects.toThrow('Proving job unavailable: could not start a proving worker');
+  });
+
+  it('should reject new and queued jobs once closed', async () => {
+    const { pool } = createFakePool(1);
+
+    const running = pool.prove(JOB);
+    await pool.close();
+
+    await expect(running).rejects.toThrow('pool has been closed');
+    await expect(pool.prove(JOB)).rejects.toThrow('pool has been closed');
+  });
+});
+
+describe('NoirProofService with a proving pool', () => {
+  it('should return the proof produced by the pool', async () => {
+    const { pool, workers } = createFakePool();
+    const service = new NoirProofService({ provingPool: pool, proofCacheTtlMs: 0 });
+
+    const proof = service.generateAgeProof({ age: 25, minimumAge: 18 });
+    while (workers.length === 0 || workers[0].requests.length === 0) await tick();
+    workers[0].finish();
+
+    expect((await proof).isRealProof).toBe(true);
+  });
+
+  it('should retry real proving after a job fails', async () => {
+    const { pool, workers } = createFakePool();
+    const service = new NoirProofService({ provingPool: pool, proofCacheTtlMs: 0 });
+
+    const first = service.generateAgeProof({ age: 25, minimumAge: 18 });
+    while (workers.length === 0 || workers[0].requests.length === 0) await tick();
+    workers[0].respond({ type: 'error', jobId: workers[0].requests[0].jobId, message: 'out of memory' });
+    expect((await first).isRealProof).toBe(false);
+
+    const second = service.generateAgeProof({ age: 25, minimumAge: 18 });
+    while (workers[0].requests.length < 2) await tick();
+    workers[0].finish();
+
+    expect((await second).isRealProof).toBe(true);
+  });
+
+  it('should surface workers that cannot start instead of returning mock proofs', async () => {
+    const pool = new ProvingPool({ size: 1, createWorker: () => Promise.reject(new Error('Cannot find module proving-worker.ts')) });
+    const service = new NoirProofService({ provingPool: pool, proofCacheTtlMs: 0 });
+
+    const attempt = service.generateAgeProof({ age: 25, minimumAge: 18 });
+
+    await expect(attempt).rejects.toThrow(ProofGenerationError);
+  });
+
+  it('should keep proving for other callers when one of them cancels', async () => {
+    const { pool, workers } = createFakePool();
+    const service = new NoirProofService({ provingPool: pool });
+    const controller = new AbortController();
+
+    const cancelled = service.generateAgeProof({ age: 25, minimumAge: 18 }, { signal: controller.signal });
+    const waiting = service.generateAgeProof({ age: 25, minimumAge: 18 });
+    while (workers.length === 0 || workers[0].requests.length === 0) await tick();
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow('Proving job cancelled');
+    expect(workers[0].terminated).toBe(false);
+
+    workers[0].finish();
+    expect((await waiting).isRealProof).toBe(true);
+    expect(workers[0].requests).toHaveLength(1);
+  });
+
+  it('should not fall back to a mock proof when the caller cancels', async () => {
+    const { pool, workers } = createFakePool();
+    const service = new NoirProofService({ provingPool: pool, proofCacheTtlMs: 0 });
+    const controller = new AbortController();
+
+    const proof = service.generateAgeProof({ age: 25, minimumAge: 18 }, { signal: controller.signal });
+    while (workers.length === 0 || workers[0].requests.length === 0) await tick();
+    controller.abort();
+
+    await expect(proof).rejects.toThrow('Proving job cancelled');
+  });
+});
@@ -0,0 +1,335 @@
+import type { CircuitType, ProofInput } from './noir-proof-service';
+
+export type ProvingStage = 'queued' | 'executing' | 'proving';
+
+export interface ProvingProgress {
+  jobId: number;
+  circuitType: CircuitType;
+  stage: ProvingStage;
+}
+
+export interface ProveOptions {
+  signal?: AbortSignal;
+  /** Measured from submission, so time spent queued counts. */
+  timeoutMs?: number;
+  onProgress?: (progress: ProvingProgress) => void;
+}
+
+export interface ProvingCircuit {
+  bytecode: string;
+  abi: unknown;
+}
+
+export interface ProvingJob {
+  circuitType: CircuitType;
+  circuit: ProvingCircuit;
+  witness: ProofInput;
+}
+
+export interface ProvingResult {
+  proof: Uint8Array;
+  publicInputs: string[];
+}
+
+export interface WorkerRequest {
+  type: 'prove';
+  jobId: number;
+  circuit: ProvingCircuit;
+  witness: ProofInput;
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; jobId: number; stage: ProvingStage }
+  | { type: 'result'; jobId: number; proof: Uint8Array; publicInputs: string[] }
+  | { type: 'error'; jobId: number; message: string };
+
+/** The pool's view of a worker thread or Web Worker. */
+export interface WorkerHandle {
+  post(message: WorkerRequest): void;
+  onMessage(listener: (message: WorkerResponse) => void): void;
+  onError(listener: (error: Error) => void): void;
+  terminate(): void;
+}
+
+export type WorkerFactory = () => Promise<WorkerHandle>;
+
+export interface ProvingPoolConfig {
+  size?: number;
+  createWorker?: WorkerFactory;
+  defaultTimeoutMs?: number;
+}
+
+/** `failed` means the worker rejected the job; `unavailable` that no worker could run it (failed to start or crashed). */
+export type ProvingJobErrorCode = 'cancelled' | 'timeout' | 'failed' | 'unavailable' | 'closed';
+
+export class ProvingJobError extends Error {
+  readonly code: ProvingJobErrorCode;
+
+  constructor(code: ProvingJobErrorCode, message: string) {
+    super(`Proving job ${code}: ${message}`);
+    this.name = 'ProvingJobError';
+    this.code = code;
+  }
+}
+
+interface QueuedJob {
+  id: number;
+  job: ProvingJob;
+  options: ProveOptions;
+  resolve: (result: ProvingResult) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface PoolWorker {
+  handle: WorkerHandle;
+  job: QueuedJob | null;
+}
+
+/**
+ * Runs `Noir.execute` and UltraHonk proving off the calling thread. Jobs
+ * queue until a worker is free. Cancelling or timing out a running job
+ * terminates its worker, since proving cannot be interrupted; a replacement
+ * starts when the next job needs one.
+ */
+export class ProvingPool {
+  private size: number;
+  private createWorker: WorkerFactory;
+  private defaultTimeoutMs?: number;
+  private workers: PoolWorker[] = [];
+  private queue: QueuedJob[] = [];
+  private starting = 0;
+  private nextJobId = 1;
+  private closed = false;
+
+  constructor(config?: ProvingPoolConfig) {
+    this.size = Math.max(1, config?.size ?? defaultPoolSize());
+    this.createWorker = config?.createWorker ?? createDefaultWorker;
+    this.defaultTimeoutMs = config?.defaultTimeoutMs;
+  }
+
+  /** Jobs waiting for a worker, not counting those already proving. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  prove(job: ProvingJob, options: ProveOptions = {}): Promise<ProvingResult> {
+    if (this.closed) {
+      return Promise.reject(new ProvingJobError('closed', 'pool has been closed'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new ProvingJobError('cancelled', `${job.circuitType} cancelled before it started`));
+    }
+
+    return new Promise<ProvingResult>((resolve, reject) => {
+      const entry: QueuedJob = { id: this.nextJobId++, job, options, resolve, reject, cleanup: () => {} };
+
+      const onAbort = () => this.cancel(entry, new ProvingJobError('cancelled', `${job.circuitType} cancelled`));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timeoutMs = options.timeoutMs ?? this.defaultTimeoutMs;
+      const timer = timeoutMs !== undefined
+        ? setTimeout(() => this.cancel(entry, new ProvingJobError('timeout', `${job.circuitType} exceeded ${timeoutMs}ms`)), timeoutMs)
+        : undefined;
+
+      entry.cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.queue.push(entry);
+      this.report(entry, 'queued');
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new ProvingJobError('closed', 'pool has been closed');
+    for (const entry of this.queue.splice(0)) {
+      this.settle(entry, error);
+    }
+    for (const worker of this.workers.splice(0)) {
+      if (worker.job) this.settle(worker.job, error);
+      worker.handle.terminate();
+    }
+  }
+
+  private dispatch(): void {
+    for (const worker of this.workers) {
+      if (!worker.job && this.queue.length > 0) {
+        this.run(worker, this.queue.shift()!);
+      }
+    }
+
+    const freeSlots = this.size - this.workers.length - this.starting;
+    const unserved = this.queue.length - this.starting;
+    for (let i = 0; i < Math.min(freeSlots, unserved); i++) {
+      this.spawn();
+    }
+  }
+
+  private spawn(): void {
+    this.starting++;
+    this.createWorker().then(
+      handle => {
+        this.starting--;
+        if (this.closed) {
+          handle.terminate();
+          return;
+        }
+
+        const worker: PoolWorker = { handle, job: null };
+        handle.onMessage(message => this.handleMessage(worker, message));
+        handle.onError(error => this.handleCrash(worker, error));
+        this.workers.push(worker);
+        this.dispatch();
+      },
+      error => {
+        this.starting--;
+        if (this.workers.length > 0 || this.starting > 0) return;
+
+        const reason = error instanceof Error ? error.message : String(error);
+        for (const entry of this.queue.splice(0)) {
+          this.settle(entry, new ProvingJobError('unavailable', `could not start a proving worker: ${reason}`));
+        }
+      }
+    );
+  }
+
+  private run(worker: PoolWorker, entry: QueuedJob): void {
+    worker.job = entry;
+    worker.handle.post({
+      type: 'prove',
+      jobId: entry.id,
+      circuit: entry.job.circuit,
+      witness: entry.job.witness,
+    });
+  }
+
+  private handleMessage(worker: PoolWorker, message: WorkerResponse): void {
+    const entry = worker.job;
+    if (!entry || message.jobId !== entry.id) return;
+
+    if (message.type === 'progress') {
+      this.report(entry, message.stage);
+      return;
+    }
+
+    worker.job = null;
+    if (message.type === 'result') {
+      this.settle(entry, null, { proof: message.proof, publicInputs: message.publicInputs });
+    } else {
+      this.settle(entry, new ProvingJobError('failed', message.message));
+    }
+    this.dispatch();
+  }
+
+  private handleCrash(worker: PoolWorker, error: Error): void {
+    if (!this.removeWorker(worker)) return;
+
+    if (worker.job) {
+      this.settle(worker.job, new ProvingJobError('unavailable', `worker crashed: ${error.message}`));
+    }
+    worker.handle.terminate();
+    this.dispatch();
+  }
+
+  private cancel(entry: QueuedJob, error: ProvingJobError): void {
+    const queued = this.queue.indexOf(entry);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    }
+
+    const worker = this.workers.find(w => w.job === entry);
+    if (worker) {
+      this.removeWorker(worker);
+      worker.handle.terminate();
+    }
+
+    this.settle(entry, error);
+    this.dispatch();
+  }
+
+  private removeWorker(worker: PoolWorker): boolean {
+    const index = this.workers.indexOf(worker);
+    if (index < 0) return false;
+    this.workers.splice(index, 1);
+    return true;
+  }
+
+  private settle(entry: QueuedJob, error: Error | null, result?: ProvingResult): void {
+    entry.cleanup();
+    if (error) {
+      entry.reject(error);
+    } else {
+      entry.resolve(result!);
+    }
+  }
+
+  private report(entry: QueuedJob, stage: ProvingStage): void {
+    try {
+      entry.options.onProgress?.({ jobId: entry.id, circuitType: entry.job.circuitType, stage });
+    } catch (error) {
+      console.warn('Proving progress listener failed:', error);
+    }
+  }
+}
+
+export function createProvingPool(config?: ProvingPoolConfig): ProvingPool {
+  return new ProvingPool(config);
+}
+
+let defaultPool: ProvingPool | null = null;
+
+/** One pool per process (or page), so each worker loads Barretenberg once. */
+export function getDefaultProvingPool(): ProvingPool {
+  defaultPool ??= createProvingPool();
+  return defaultPool;
+}
+
+function defaultPoolSize(): number {
+  const cores = (globalThis as { navigator?: { hardwareConcurrency?: number } }).navigator?.hardwareConcurrency ?? 2;
+  return cores - 1;
+}
+
+function createDefaultWorker(): Promise<WorkerHandle> {
+  return typeof window === 'undefined' ? createNodeWorker() : Promise.resolve(createWebWorker());
+}
+
+async function createNodeWorker(): Promise<WorkerHandle> {
+  const { Worker } = await import('worker_threads');
+  const worker = new Worker(new URL('./proving-worker.ts', import.meta.url));
+
+  // Only keep the process alive while a job is running
+  worker.unref();
+  worker.on('message', (message: WorkerResponse) => {
+    if (message.type !== 'progress') worker.unref();
+  });
+
+  return {
+    post: message => {
+      worker.ref();
+      worker.postMessage(message);
+    },
+    onMessage: listener => worker.on('message', listener),
+    onError: listener => {
+      worker.on('error', listener);
+      worker.on('exit', code => listener(new Error(`worker exited with code ${code}`)));
+    },
+    terminate: () => {
+      void worker.terminate();
+    },
+  };
+}
+
+function createWebWorker(): WorkerHandle {
+  const worker = new Worker(new URL('./proving-worker.ts', import.meta.url), { type: 'module' });
+
+  return {
+    post: message => worker.postMessage(message),
+    onMessage: listener => worker.addEventListener('message', event => listener(event.data)),
+    onError: listener => worker.addEventListener('error', event => listener(new Error(event.message))),
+    terminate: () => worker.terminate(),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Entry point for proving workers started by ProvingPool, either as a Node
+ * worker thread or a browser Web Worker.
+ */
+import type { WorkerRequest, WorkerResponse } from './proving-pool';
+
+interface HonkBackend {
+  generateProof(witness: Uint8Array): Promise<{ proof: Uint8Array; publicInputs: string[] }>;
+}
+
+// Keyed by bytecode so each circuit's backend is only set up once per worker
+const backends: Map<string, HonkBackend> = new Map();
+
+async function prove(request: WorkerRequest, post: (message: WorkerResponse) => void): Promise<void> {
+  const { jobId, circuit, witness } = request;
+
+  try {
+    const [{ Noir }, { UltraHonkBackend }] = await Promise.all([
+      import('@noir-lang/noir_js'),
+      import('@aztec/bb.js'),
+    ]);
+
+    post({ type: 'progress', jobId, stage: 'executing' });
+    const noir = new Noir(circuit as ConstructorParameters<typeof Noir>[0]);
+    const { witness: solvedWitness } = await noir.execute(witness as Parameters<typeof noir.execute>[0]);
+
+    post({ type: 'progress', jobId, stage: 'proving' });
+    let backend = backends.get(circuit.bytecode);
+    if (!backend) {
+      backend = new UltraHonkBackend(circuit.bytecode) as unknown as HonkBackend;
+      backends.set(circuit.bytecode, backend);
+    }
+    const { proof, publicInputs } = await backend.generateProof(solvedWitness);
+
+    post({ type: 'result', jobId, proof, publicInputs });
+  } catch (error) {
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+if (typeof process !== 'undefined' && process.versions?.node) {
+  void import('worker_threads').then(({ parentPort }) => {
+    parentPort?.on('message', (request: WorkerRequest) => {
+      void prove(request, message => parentPort.postMessage(message));
+    });
+  });
+} else {
+  const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+    postMessage(message: WorkerResponse): void;
+  };
+  scope.onmessage = event => {
+    void prove(event.data, message => scope.postMessage(message));
+  };
+}
@@ -90,6 +90,68 @@ describe('RangeClient', () => {
     });
   });
 
+  describe('category rules', () => {
+    it('should block nearby mixer exposure and name the counterparty', async () => {
+      const strict = new MockRangeClient({ categoryRules: [{ category: 'mixer', maxHops: 2 }] });
+      strict.setMockResponse('LowScoreAddress', {
+        riskScore: 3,
+        riskLevel: 'Low risk',
+        numHops: 2,
+        maliciousAddressesFound: [{
+          address: 'MixerCounterparty',
+          distance: 2,
+          name_tag: 'Mixer',
+          entity: null,
+          category: 'mixer',
+        }],
+        reasoning: '2 hops from mixer.',
+      });
+
+      const result = await strict.checkCompliance('LowScoreAddress');
+
+      expect(result.isCompliant).toBe(false);
+      expect(result.isSanctioned).toBe(false);
+      expect(result.findings?.[0].counterparty).toBe('MixerCounterparty');
+      expect(result.reasoning).toContain('mixer exposure 2 hops away via MixerCounterparty');
+    });
+  });
+
+  describe('caching', () => {
+    class CountingRangeClient extends MockRangeClient {
+      fetches = 0;
+
+      protected override async fetchAddressRiskScore(address: string): Promise<RiskScoreResponse> {
+        this.fetches++;
+        return super.fetchAddressRiskScore(address);
+      }
+    }
+
+    it('should fetch risk data once per compliance check', async () => {
+      const counting = new CountingRangeClient();
+      await counting.checkCompliance('SafeAddress123');
+
+      expect(counting.fetches).toBe(1);
+    });
+
+    it('should reuse cached risk data within the TTL', async () => {
+      const counting = new CountingRangeClient({ cacheTtlMs: 60_000 });
+      await counting.checkCompliance('SafeAddress123');
+      await counting.checkSanctions('SafeAddress123');
+      await counting.batchCheckCompliance(['SafeAddress123', 'SafeAddress123']);
+
+      expect(counting.fetches).toBe(1);
+    });
+
+    it('should refetch after invalidation', async () => {
+      const counting = new CountingRangeClient({ cacheTtlMs: 60_000 });
+      await counting.getAddressRiskScore('SafeAddress123');
+      await counting.invalidateRiskScore('SafeAddress123');
+      await counting.getAddressRiskScore('SafeAddress123');
+
+      expect(counting.fetches).toBe(2);
+    });
+  });
+
   describe('batchCheckCompliance', () => {
     it('should check multiple addresses', async () => {
       const addresses = ['Addr1', 'Addr2', 'Addr3'];
@@ -98,5 +160,18 @@ describe('RangeClient', () => {
       expect(results.size).toBe(3);
       expect(results.get('Addr1')?.isCompliant).toBe(true);
     });
+
+    it('should report per-address errors without failing the batch', async () => {
+      client.setMockError('Addr2', new Error('Request failed with status code 503'));
+      const results = await client.batchCheckCompliance(['Addr1', 'Addr2', 'Addr3']);
+      
+      expect(results.size).toBe(3);
+      expect(results.get('Addr1')?.isCompliant).toBe(true);
+      expect(results.get('Addr2')).toEqual({
+        isCompliant: false,
+        error: 'Request failed with status code 503',
+      });
+      expect(results.get('Addr3')?.isCompliant).toBe(true);
+    });
   });
 });
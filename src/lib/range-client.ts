@@ -1,4 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
+import { CacheStore, TtlCache } from './cache-store';
+import { RetryOptions, retryWithBackoff } from './retry';
+import type { RiskProvider, ProviderCheckResult } from './risk-provider';
+import type { SanctionsListVersion, SanctionsMatch } from './sanctions-list';
+import type { AppliedOverride } from './compliance-overrides';
+import { DEFAULT_CLUSTER, SolanaCluster } from './network';
+import { CategoryRule, RiskEvaluation, RiskFinding, describeFinding, evaluateRisk } from './risk-evaluator';
 
 export type RiskLevel =
   | 'CRITICAL RISK (Directly malicious)'
@@ -39,28 +46,77 @@ export interface ComplianceCheckResult {
   isSanctioned: boolean;
   reasoning: string;
   rawResponse: RiskScoreResponse;
+  providerResults?: ProviderCheckResult[];
+  sanctionsMatches?: SanctionsMatch[];
+  /** Sanctions list versions the address was screened against. */
+  sanctionsLists?: SanctionsListVersion[];
+  override?: AppliedOverride;
+  findings?: RiskFinding[];
 }
 
+export interface ComplianceCheckError {
+  isCompliant: false;
+  error: string;
+}
+
+export type BatchComplianceResult = ComplianceCheckResult | ComplianceCheckError;
+
 export interface RangeClientConfig {
   apiKey: string;
   baseUrl?: string;
   maxRiskThreshold?: number;
+  cacheTtlMs?: number;
+  cacheStore?: CacheStore<RiskScoreResponse>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  categoryRules?: CategoryRule[];
+  network?: SolanaCluster;
+  rangeNetwork?: string;
 }
 
 const DEFAULT_BASE_URL = 'https://api.range.org';
 const DEFAULT_MAX_RISK_THRESHOLD = 5;
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 10_000;
+// Range indexes mainnet activity; a keypair has the same address on every
+// cluster, so devnet/testnet wallets are screened against it by default.
+const DEFAULT_RANGE_NETWORK = 'solana';
 const SANCTION_CATEGORIES = ['ofac', 'sanctions', 'blacklist', 'hack_funds'];
 const BATCH_CONCURRENCY = 5;
 
-export class RangeClient {
+export class RangeClient implements RiskProvider {
+  readonly name: string = 'range';
   private client: AxiosInstance;
   private maxRiskThreshold: number;
+  private riskCache: TtlCache<RiskScoreResponse>;
+  private retryOptions: RetryOptions;
+  private categoryRules: CategoryRule[];
+  private network: SolanaCluster;
+  private rangeNetwork: string;
 
   constructor(config: RangeClientConfig) {
     this.maxRiskThreshold = config.maxRiskThreshold ?? DEFAULT_MAX_RISK_THRESHOLD;
+    this.categoryRules = config.categoryRules ?? [];
+    this.network = config.network ?? DEFAULT_CLUSTER;
+    this.rangeNetwork = config.rangeNetwork ?? DEFAULT_RANGE_NETWORK;
+    this.riskCache = new TtlCache({
+      ttlMs: config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS,
+      store: config.cacheStore,
+    });
+    this.retryOptions = {
+      maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+      baseDelayMs: config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+      maxDelayMs: config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+    };
     
     this.client = axios.create({
       baseURL: config.baseUrl ?? DEFAULT_BASE_URL,
+      timeout: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
@@ -68,59 +124,85 @@ export class RangeClient {
     });
   }
 
+  getNetwork(): SolanaCluster {
+    return this.network;
+  }
+
   async getAddressRiskScore(address: string): Promise<RiskScoreResponse> {
-    const response = await this.client.get<RiskScoreResponse>('/v1/risk/address', {
-      params: { address, network: 'solana' },
-    });
+    return this.riskCache.getOrLoad(this.cacheKey(address), () => this.fetchAddressRiskScore(address));
+  }
+
+  async invalidateRiskScore(address: string): Promise<void> {
+    await this.riskCache.invalidate(this.cacheKey(address));
+  }
+
+  private cacheKey(address: string): string {
+    return `${this.rangeNetwork}:${address}`;
+  }
+
+  protected async fetchAddressRiskScore(address: string): Promise<RiskScoreResponse> {
+    const response = await retryWithBackoff(
+      () => this.client.get<RiskScoreResponse>('/v1/risk/address', {
+        params: { address, network: this.rangeNetwork },
+      }),
+      this.retryOptions
+    );
     return response.data;
   }
 
   async checkSanctions(address: string): Promise<boolean> {
     const riskData = await this.getAddressRiskScore(address);
-    
-    const isSanctioned = riskData.maliciousAddressesFound.some(
-      (m) => m.distance === 0 && SANCTION_CATEGORIES.some(cat => 
-        m.category?.toLowerCase().includes(cat)
-      )
-    );
-    
-    return isSanctioned || riskData.riskScore === 10;
+    return this.evaluate(address, riskData).isSanctioned;
   }
 
   async checkCompliance(address: string): Promise<ComplianceCheckResult> {
     const riskData = await this.getAddressRiskScore(address);
-    const isSanctioned = await this.checkSanctions(address);
-    
-    const isCompliant = 
-      riskData.riskScore <= this.maxRiskThreshold && 
-      !isSanctioned;
+    const evaluation = this.evaluate(address, riskData);
+    const blocking = evaluation.findings.filter(f => f.rule !== 'sanctions');
 
     return {
-      isCompliant,
+      isCompliant: evaluation.isCompliant,
       riskScore: riskData.riskScore,
       riskLevel: riskData.riskLevel,
-      isSanctioned,
-      reasoning: riskData.reasoning,
+      isSanctioned: evaluation.isSanctioned,
+      reasoning: blocking.length > 0
+        ? `${riskData.reasoning} Blocked: ${blocking.map(describeFinding).join('; ')}.`
+        : riskData.reasoning,
       rawResponse: riskData,
+      findings: evaluation.findings,
     };
   }
 
-  async batchCheckCompliance(addresses: string[]): Promise<Map<string, ComplianceCheckResult>> {
-    const results = new Map<string, ComplianceCheckResult>();
+  async batchCheckCompliance(addresses: string[]): Promise<Map<string, BatchComplianceResult>> {
+    const results = new Map<string, BatchComplianceResult>();
     
     for (let i = 0; i < addresses.length; i += BATCH_CONCURRENCY) {
       const batch = addresses.slice(i, i + BATCH_CONCURRENCY);
-      const batchResults = await Promise.all(
+      const batchResults = await Promise.allSettled(
         batch.map(addr => this.checkCompliance(addr))
       );
       
       batch.forEach((addr, idx) => {
-        results.set(addr, batchResults[idx]);
+        const settled = batchResults[idx];
+        results.set(addr, settled.status === 'fulfilled'
+          ? settled.value
+          : {
+              isCompliant: false,
+              error: settled.reason instanceof Error ? settled.reason.message : 'Compliance check failed',
+            });
       });
     }
     
     return results;
   }
+
+  private evaluate(address: string, riskData: RiskScoreResponse): RiskEvaluation {
+    return evaluateRisk(address, riskData, {
+      maxRiskThreshold: this.maxRiskThreshold,
+      sanctionCategories: SANCTION_CATEGORIES,
+      categoryRules: this.categoryRules,
+    });
+  }
 }
 
 export function createRangeClient(apiKey: string, options?: Partial<RangeClientConfig>): RangeClient {
@@ -129,16 +211,24 @@ export function createRangeClient(apiKey: string, options?: Partial<RangeClientC
 
 export class MockRangeClient extends RangeClient {
   private mockResponses: Map<string, RiskScoreResponse> = new Map();
+  private mockErrors: Map<string, Error> = new Map();
 
-  constructor() {
-    super({ apiKey: 'mock-key' });
+  constructor(options?: Partial<RangeClientConfig>) {
+    super({ apiKey: 'mock-key', cacheTtlMs: 0, ...options });
   }
 
   setMockResponse(address: string, response: RiskScoreResponse): void {
     this.mockResponses.set(address, response);
   }
 
-  override async getAddressRiskScore(address: string): Promise<RiskScoreResponse> {
+  setMockError(address: string, error: Error): void {
+    this.mockErrors.set(address, error);
+  }
+
+  protected override async fetchAddressRiskScore(address: string): Promise<RiskScoreResponse> {
+    const error = this.mockErrors.get(address);
+    if (error) throw error;
+
     const mock = this.mockResponses.get(address);
     if (mock) return mock;
 
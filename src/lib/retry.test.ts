@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'bun:test';
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import { retryWithBackoff, isRetryableError, getRetryAfterMs, computeBackoffDelay, RetryOptions } from './retry';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const response = {
+    status,
+    statusText: '',
+    data: null,
+    headers,
+    config: { headers: new AxiosHeaders() },
+  } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, undefined, response);
+}
+
+describe('retry', () => {
+  const sleeps: number[] = [];
+  const options: RetryOptions = {
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    random: () => 1,
+    sleep: async (ms) => { sleeps.push(ms); },
+  };
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits and server errors', () => {
+      expect(isRetryableError(httpError(429))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(httpError(401))).toBe(false);
+    });
+
+    it('should retry timeouts and network failures', () => {
+      expect(isRetryableError(new AxiosError('timeout', 'ECONNABORTED'))).toBe(true);
+      expect(isRetryableError(new AxiosError('reset', 'ECONNRESET'))).toBe(true);
+    });
+
+    it('should not retry non-HTTP errors', () => {
+      expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('should parse delay in seconds', () => {
+      expect(getRetryAfterMs(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+      const error = httpError(429, { 'retry-after': 'Mon, 19 Oct 2026 10:00:05 GMT' });
+
+      expect(getRetryAfterMs(error, now)).toBe(5000);
+    });
+
+    it('should return null without the header', () => {
+      expect(getRetryAfterMs(httpError(503))).toBeNull();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially up to the cap', () => {
+      expect(computeBackoffDelay(0, options)).toBe(100);
+      expect(computeBackoffDelay(2, options)).toBe(400);
+      expect(computeBackoffDelay(10, options)).toBe(1000);
+    });
+
+    it('should apply jitter', () => {
+      expect(computeBackoffDelay(2, { ...options, random: () => 0.5 })).toBe(200);
+    });
+  });
+
+  describe('retryWithBackoff', () => {
+    it('should retry until success', async () => {
+      sleeps.length = 0;
+      let calls = 0;
+      const result = await retryWithBackoff(async () => {
+        calls++;
+        if (calls < 3) throw httpError(503);
+        return 'ok';
+      }, options);
+
+      expect(result).toBe('ok');
+      expect(calls).toBe(3);
+      expect(sleeps).toEqual([100, 200]);
+    });
+
+    it('should honour Retry-After', async () => {
+      sleeps.length = 0;
+      let calls = 0;
+      await retryWithBackoff(async () => {
+        calls++;
+        if (calls === 1) throw httpError(429, { 'retry-after': '0.3' });
+        return 'ok';
+      }, options);
+
+      expect(sleeps).toEqual([300]);
+    });
+
+    it('should fail fast when Retry-After exceeds the maximum delay', async () => {
+      sleeps.length = 0;
+      let calls = 0;
+      await expect(retryWithBackoff(async () => {
+        calls++;
+        throw httpError(429, { 'retry-after': '5' });
+      }, options)).rejects.toThrow('status code 429');
+
+      expect(calls).toBe(1);
+      expect(sleeps).toEqual([]);
+    });
+
+    it('should give up after max retries', async () => {
+      let calls = 0;
+      await expect(retryWithBackoff(async () => {
+        calls++;
+        throw httpError(500);
+      }, options)).rejects.toThrow('status code 500');
+
+      expect(calls).toBe(4);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      let calls = 0;
+      await expect(retryWithBackoff(async () => {
+        calls++;
+        throw httpError(404);
+      }, options)).rejects.toThrow('status code 404');
+
+      expect(calls).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import axios from 'axios';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return error.code !== undefined && RETRYABLE_NETWORK_CODES.includes(error.code);
+  }
+  return status === 429 || status >= 500;
+}
+
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | null {
+  if (!axios.isAxiosError(error)) return null;
+
+  const header = error.response?.headers?.['retry-after'];
+  if (header === undefined || header === null) return null;
+
+  const value = String(header).trim();
+  const seconds = Number(value);
+  if (value !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+export function computeBackoffDelay(attempt: number, options: RetryOptions): number {
+  const random = options.random ?? Math.random;
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(random() * ceiling);
+}
+
+export async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(r => setTimeout(r, ms)));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      // Retrying before the server's Retry-After would only be rejected again
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== null && retryAfter > options.maxDelayMs) {
+        throw error;
+      }
+      await sleep(retryAfter ?? computeBackoffDelay(attempt, options));
+    }
+  }
+}
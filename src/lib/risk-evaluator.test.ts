@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test';
+import { evaluateRisk, findCategoryEvidence, parseCategoryRules } from './risk-evaluator';
+import { RiskScoreResponse } from './range-client';
+
+const SANCTION_CATEGORIES = ['ofac', 'sanctions', 'blacklist', 'hack_funds'];
+
+const LOW_SCORE_MIXER: RiskScoreResponse = {
+  riskScore: 3,
+  riskLevel: 'Low risk',
+  numHops: 2,
+  maliciousAddressesFound: [
+    { address: 'FarHack', distance: 4, name_tag: null, entity: 'Exploit 2025', category: 'hack_funds' },
+    { address: 'TornadoSol', distance: 1, name_tag: 'Mixer Pool', entity: null, category: 'mixer' },
+  ],
+  reasoning: 'Low overall exposure.',
+};
+
+describe('risk evaluator', () => {
+  describe('evaluateRisk', () => {
+    it('should pass low scores without category rules', () => {
+      const evaluation = evaluateRisk('Wallet', LOW_SCORE_MIXER, {
+        maxRiskThreshold: 5,
+        sanctionCategories: SANCTION_CATEGORIES,
+      });
+
+      expect(evaluation.isCompliant).toBe(true);
+      expect(evaluation.findings).toEqual([]);
+    });
+
+    it('should block category exposure within N hops despite a low score', () => {
+      const evaluation = evaluateRisk('Wallet', LOW_SCORE_MIXER, {
+        maxRiskThreshold: 5,
+        sanctionCategories: SANCTION_CATEGORIES,
+        categoryRules: [{ category: 'mixer', maxHops: 1 }, { category: 'hack_funds', maxHops: 2 }],
+      });
+
+      expect(evaluation.isCompliant).toBe(false);
+      expect(evaluation.isSanctioned).toBe(false);
+      expect(evaluation.findings).toEqual([{
+        rule: 'mixer_within_1_hops',
+        category: 'mixer',
+        distance: 1,
+        counterparty: 'TornadoSol',
+        nameTag: 'Mixer Pool',
+        entity: null,
+      }]);
+      expect(evaluation.reasons).toEqual(['mixer exposure 1 hop away via TornadoSol (Mixer Pool)']);
+    });
+
+    it('should flag direct sanctions evidence', () => {
+      const evaluation = evaluateRisk('Wallet', {
+        ...LOW_SCORE_MIXER,
+        maliciousAddressesFound: [
+          { address: 'Wallet', distance: 0, name_tag: 'OFAC', entity: null, category: 'ofac_sanctions' },
+        ],
+      }, { maxRiskThreshold: 5, sanctionCategories: SANCTION_CATEGORIES });
+
+      expect(evaluation.isSanctioned).toBe(true);
+      expect(evaluation.findings).toHaveLength(1);
+      expect(evaluation.findings[0].rule).toBe('sanctions');
+    });
+
+    it('should use the address attribution', () => {
+      const evaluation = evaluateRisk('MixerWallet', {
+        ...LOW_SCORE_MIXER,
+        maliciousAddressesFound: [],
+        attribution: { name_tag: 'Mixer Hot Wallet', entity: 'MixCo', category: 'mixer', address_role: 'hot_wallet' },
+      }, {
+        maxRiskThreshold: 5,
+        sanctionCategories: SANCTION_CATEGORIES,
+        categoryRules: [{ category: 'mixer', maxHops: 0 }],
+      });
+
+      expect(evaluation.isCompliant).toBe(false);
+      expect(evaluation.findings[0].counterparty).toBe('MixerWallet');
+      expect(evaluation.findings[0].entity).toBe('MixCo');
+    });
+
+    it('should treat a score of 10 as sanctioned', () => {
+      const evaluation = evaluateRisk('Wallet', { ...LOW_SCORE_MIXER, riskScore: 10 }, {
+        maxRiskThreshold: 5,
+        sanctionCategories: SANCTION_CATEGORIES,
+      });
+
+      expect(evaluation.isSanctioned).toBe(true);
+      expect(evaluation.reasons[0]).toBe('Risk score 10 exceeds threshold 5');
+    });
+  });
+
+  describe('findCategoryEvidence', () => {
+    it('should return matches ordered by distance', () => {
+      const evidence = findCategoryEvidence(LOW_SCORE_MIXER, ['mixer', 'hack']);
+
+      expect(evidence.map(e => e.address)).toEqual(['TornadoSol', 'FarHack']);
+    });
+  });
+
+  describe('parseCategoryRules', () => {
+    it('should parse category:maxHops pairs', () => {
+      expect(parseCategoryRules('mixer:1, hack_funds:2')).toEqual([
+        { category: 'mixer', maxHops: 1 },
+        { category: 'hack_funds', maxHops: 2 },
+      ]);
+      expect(parseCategoryRules('')).toEqual([]);
+    });
+
+    it('should reject malformed rules', () => {
+      expect(() => parseCategoryRules('mixer')).toThrow('Invalid category rule "mixer"');
+    });
+  });
+});
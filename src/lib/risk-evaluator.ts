@@ -0,0 +1,118 @@
+import type { Attribution, MaliciousEvidence, RiskScoreResponse } from './range-client';
+
+export interface CategoryRule {
+  category: string;
+  maxHops: number;
+}
+
+export interface RiskFinding {
+  rule: string;
+  category: string;
+  distance: number;
+  counterparty: string;
+  nameTag: string | null;
+  entity: string | null;
+}
+
+export interface RiskEvaluation {
+  isCompliant: boolean;
+  isSanctioned: boolean;
+  findings: RiskFinding[];
+  reasons: string[];
+}
+
+export interface RiskEvaluatorConfig {
+  maxRiskThreshold: number;
+  sanctionCategories: string[];
+  categoryRules?: CategoryRule[];
+}
+
+export function matchesCategory(category: string | null | undefined, wanted: string): boolean {
+  return !!category && category.toLowerCase().includes(wanted.toLowerCase());
+}
+
+export function findCategoryEvidence(
+  riskData: RiskScoreResponse,
+  categories: string[],
+  maxHops: number = Infinity
+): MaliciousEvidence[] {
+  return riskData.maliciousAddressesFound
+    .filter(m => m.distance <= maxHops && categories.some(c => matchesCategory(m.category, c)))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+export function parseCategoryRules(spec: string): CategoryRule[] {
+  return spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [category, hops] = part.split(':').map(p => p.trim());
+      const maxHops = Number(hops);
+      if (!category || !Number.isInteger(maxHops) || maxHops < 0) {
+        throw new Error(`Invalid category rule "${part}": expected category:maxHops`);
+      }
+      return { category, maxHops };
+    });
+}
+
+function evidenceFinding(rule: string, evidence: MaliciousEvidence): RiskFinding {
+  return {
+    rule,
+    category: evidence.category,
+    distance: evidence.distance,
+    counterparty: evidence.address,
+    nameTag: evidence.name_tag,
+    entity: evidence.entity,
+  };
+}
+
+function attributionFinding(rule: string, address: string, attribution: Attribution): RiskFinding {
+  return {
+    rule,
+    category: attribution.category,
+    distance: 0,
+    counterparty: address,
+    nameTag: attribution.name_tag,
+    entity: attribution.entity,
+  };
+}
+
+export function describeFinding(finding: RiskFinding): string {
+  const label = finding.nameTag ?? finding.entity ?? finding.category;
+  const hops = finding.distance === 0 ? 'directly' : `${finding.distance} hop${finding.distance === 1 ? '' : 's'} away`;
+  return `${finding.category} exposure ${hops} via ${finding.counterparty} (${label})`;
+}
+
+export function evaluateRisk(address: string, riskData: RiskScoreResponse, config: RiskEvaluatorConfig): RiskEvaluation {
+  const findings: RiskFinding[] = [];
+  const reasons: string[] = [];
+
+  findCategoryEvidence(riskData, config.sanctionCategories, 0)
+    .forEach(e => findings.push(evidenceFinding('sanctions', e)));
+  if (riskData.attribution && config.sanctionCategories.some(c => matchesCategory(riskData.attribution?.category, c))) {
+    findings.push(attributionFinding('sanctions', address, riskData.attribution));
+  }
+  const isSanctioned = findings.length > 0 || riskData.riskScore === 10;
+
+  for (const rule of config.categoryRules ?? []) {
+    const ruleName = `${rule.category}_within_${rule.maxHops}_hops`;
+    findCategoryEvidence(riskData, [rule.category], rule.maxHops)
+      .forEach(e => findings.push(evidenceFinding(ruleName, e)));
+    if (riskData.attribution && matchesCategory(riskData.attribution.category, rule.category)) {
+      findings.push(attributionFinding(ruleName, address, riskData.attribution));
+    }
+  }
+
+  if (riskData.riskScore > config.maxRiskThreshold) {
+    reasons.push(`Risk score ${riskData.riskScore} exceeds threshold ${config.maxRiskThreshold}`);
+  }
+  findings.forEach(f => reasons.push(describeFinding(f)));
+
+  return {
+    isCompliant: riskData.riskScore <= config.maxRiskThreshold && !isSanctioned && findings.length === 0,
+    isSanctioned,
+    findings,
+    reasons,
+  };
+}
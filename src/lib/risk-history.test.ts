@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileRiskHistoryStore, RiskHistory, riskTrend } from './risk-history';
+import { ComplianceCheckResult, MaliciousEvidence, RiskScoreResponse } from './range-client';
+
+function checkResult(
+  riskScore: RiskScoreResponse['riskScore'],
+  evidence: MaliciousEvidence[] = [],
+  attribution: RiskScoreResponse['attribution'] = null
+): ComplianceCheckResult {
+  const riskLevel = riskScore >= 6 ? 'High risk' : 'Very low risk';
+  return {
+    isCompliant: riskScore <= 5,
+    riskScore,
+    riskLevel,
+    isSanctioned: false,
+    reasoning: `Risk score ${riskScore}.`,
+    rawResponse: {
+      riskScore,
+      riskLevel,
+      numHops: evidence.length > 0 ? 2 : 0,
+      maliciousAddressesFound: evidence,
+      reasoning: `Risk score ${riskScore}.`,
+      attribution,
+    },
+  };
+}
+
+function evidence(address: string, category = 'mixer'): MaliciousEvidence {
+  return { address, distance: 2, name_tag: null, entity: null, category };
+}
+
+describe('RiskHistory', () => {
+  let now: number;
+  let history: RiskHistory;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    history = new RiskHistory({ now: () => now });
+  });
+
+  it('should record timestamped snapshots per address', async () => {
+    const entry = await history.record('WalletA', checkResult(2), 'quick_check');
+    await history.record('WalletB', checkResult(3));
+
+    const entries = await history.list('WalletA');
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toEqual(entry);
+    expect(entry.id).toMatch(/^rsk_/);
+    expect(entry.checkedAt).toBe(now);
+    expect(entry.context).toBe('quick_check');
+    expect(entry.rawResponse.riskScore).toBe(2);
+  });
+
+  it('should filter history by time and limit to the most recent entries', async () => {
+    for (const score of [1, 2, 3] as const) {
+      await history.record('WalletA', checkResult(score));
+      now += 1000;
+    }
+
+    const recent = await history.list('WalletA', { limit: 2 });
+    const since = await history.list('WalletA', { since: 1_700_000_001_000 });
+
+    expect(recent.map(e => e.riskScore)).toEqual([2, 3]);
+    expect(since.map(e => e.riskScore)).toEqual([2, 3]);
+  });
+
+  it('should diff score, level, evidence and attribution', async () => {
+    const first = await history.record('WalletA', checkResult(2, [evidence('MixerA'), evidence('ScamA', 'scam')]));
+    now += 60_000;
+    const second = await history.record('WalletA', checkResult(7, [evidence('MixerA'), evidence('MixerB')], {
+      name_tag: 'Exchange X',
+      entity: 'x',
+      category: 'exchange',
+      address_role: 'deposit',
+    }));
+
+    const diff = await history.diff('WalletA', first.id, second.id);
+
+    expect(diff.elapsedMs).toBe(60_000);
+    expect(diff.score).toEqual({ from: 2, to: 7, delta: 5 });
+    expect(diff.level.changed).toBe(true);
+    expect(diff.compliant).toEqual({ from: true, to: false, changed: true });
+    expect(diff.evidence.added.map(e => e.address)).toEqual(['MixerB']);
+    expect(diff.evidence.removed.map(e => e.address)).toEqual(['ScamA']);
+    expect(diff.attribution.changed).toBe(true);
+    expect(diff.attribution.to?.name_tag).toBe('Exchange X');
+  });
+
+  it('should diff the two latest snapshots by default', async () => {
+    await history.record('WalletA', checkResult(1));
+    now += 1000;
+    await history.record('WalletA', checkResult(4));
+    now += 1000;
+    await history.record('WalletA', checkResult(4));
+
+    const diff = await history.diff('WalletA');
+
+    expect(diff.score.delta).toBe(0);
+    expect(diff.level.changed).toBe(false);
+    expect(diff.attribution.changed).toBe(false);
+  });
+
+  it('should reject diffs without enough history or with unknown IDs', async () => {
+    await history.record('WalletA', checkResult(1));
+
+    await expect(history.diff('WalletA')).rejects.toThrow('Not enough risk history');
+    await expect(history.diff('WalletA', undefined, 'rsk_missing')).rejects.toThrow('Unknown risk snapshot');
+    await expect(history.diff('WalletB')).rejects.toThrow('Unknown risk snapshot');
+  });
+
+  it('should report the risk trend from the last two checks', async () => {
+    expect(await history.trend('WalletA')).toBe('new');
+
+    await history.record('WalletA', checkResult(3));
+    now += 1000;
+    await history.record('WalletA', checkResult(6));
+
+    expect(await history.trend('WalletA')).toBe('rising');
+  });
+});
+
+describe('riskTrend', () => {
+  it('should classify score movement', async () => {
+    const history = new RiskHistory();
+    const low = await history.record('WalletA', checkResult(2));
+    const high = await history.record('WalletA', checkResult(5));
+
+    expect(riskTrend([low])).toBe('new');
+    expect(riskTrend([low, high])).toBe('rising');
+    expect(riskTrend([high, low])).toBe('falling');
+    expect(riskTrend([low, low])).toBe('stable');
+  });
+});
+
+describe('FileRiskHistoryStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'risk-history-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist history across instances', async () => {
+    const writer = new RiskHistory({ store: new FileRiskHistoryStore(dir) });
+    const entry = await writer.record('WalletA', checkResult(4, [evidence('MixerA')]));
+
+    const reader = new RiskHistory({ store: new FileRiskHistoryStore(dir) });
+
+    expect(await reader.get('WalletA', entry.id)).toEqual(entry);
+    expect(await reader.list('WalletB')).toEqual([]);
+  });
+});
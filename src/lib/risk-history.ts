@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Attribution, ComplianceCheckResult, MaliciousEvidence, RiskLevel, RiskScoreResponse } from './range-client';
+
+export type RiskTrend = 'new' | 'rising' | 'falling' | 'stable';
+
+export interface RiskHistoryEntry {
+  id: string;
+  address: string;
+  checkedAt: number;
+  context?: string;
+  isCompliant: boolean;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  isSanctioned: boolean;
+  reasoning: string;
+  rawResponse: RiskScoreResponse;
+}
+
+export interface RiskHistoryDiff {
+  address: string;
+  from: string;
+  to: string;
+  elapsedMs: number;
+  score: { from: number; to: number; delta: number };
+  level: { from: RiskLevel; to: RiskLevel; changed: boolean };
+  sanctioned: { from: boolean; to: boolean; changed: boolean };
+  compliant: { from: boolean; to: boolean; changed: boolean };
+  evidence: { added: MaliciousEvidence[]; removed: MaliciousEvidence[] };
+  attribution: { from: Attribution | null; to: Attribution | null; changed: boolean };
+}
+
+export interface RiskHistoryQuery {
+  since?: number;
+  limit?: number;
+}
+
+export interface RiskHistoryStore {
+  append(entry: RiskHistoryEntry): Promise<void>;
+  list(address: string): Promise<RiskHistoryEntry[]>;
+}
+
+export interface RiskHistoryConfig {
+  store?: RiskHistoryStore;
+  now?: () => number;
+}
+
+export class MemoryRiskHistoryStore implements RiskHistoryStore {
+  private entries: Map<string, RiskHistoryEntry[]> = new Map();
+
+  async append(entry: RiskHistoryEntry): Promise<void> {
+    const existing = this.entries.get(entry.address) ?? [];
+    this.entries.set(entry.address, [...existing, entry]);
+  }
+
+  async list(address: string): Promise<RiskHistoryEntry[]> {
+    return [...(this.entries.get(address) ?? [])];
+  }
+}
+
+export class FileRiskHistoryStore implements RiskHistoryStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async append(entry: RiskHistoryEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.appendFile(this.fileFor(entry.address), `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+
+  async list(address: string): Promise<RiskHistoryEntry[]> {
+    try {
+      const raw = await fs.readFile(this.fileFor(address), 'utf8');
+      return raw
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as RiskHistoryEntry);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private fileFor(address: string): string {
+    return path.join(this.dir, `${encodeURIComponent(address)}.jsonl`);
+  }
+}
+
+function evidenceKey(evidence: MaliciousEvidence): string {
+  return `${evidence.address}:${evidence.category}`;
+}
+
+function sameAttribution(a: Attribution | null, b: Attribution | null): boolean {
+  if (!a || !b) return a === b;
+  return a.name_tag === b.name_tag && a.entity === b.entity && a.category === b.category && a.address_role === b.address_role;
+}
+
+export function diffRiskHistory(from: RiskHistoryEntry, to: RiskHistoryEntry): RiskHistoryDiff {
+  if (from.address !== to.address) {
+    throw new Error(`Cannot diff snapshots of different addresses: ${from.address} and ${to.address}`);
+  }
+
+  const fromEvidence = new Map(from.rawResponse.maliciousAddressesFound.map(e => [evidenceKey(e), e]));
+  const toEvidence = new Map(to.rawResponse.maliciousAddressesFound.map(e => [evidenceKey(e), e]));
+  const fromAttribution = from.rawResponse.attribution ?? null;
+  const toAttribution = to.rawResponse.attribution ?? null;
+
+  return {
+    address: to.address,
+    from: from.id,
+    to: to.id,
+    elapsedMs: to.checkedAt - from.checkedAt,
+    score: { from: from.riskScore, to: to.riskScore, delta: to.riskScore - from.riskScore },
+    level: { from: from.riskLevel, to: to.riskLevel, changed: from.riskLevel !== to.riskLevel },
+    sanctioned: { from: from.isSanctioned, to: to.isSanctioned, changed: from.isSanctioned !== to.isSanctioned },
+    compliant: { from: from.isCompliant, to: to.isCompliant, changed: from.isCompliant !== to.isCompliant },
+    evidence: {
+      added: [...toEvidence].filter(([key]) => !fromEvidence.has(key)).map(([, e]) => e),
+      removed: [...fromEvidence].filter(([key]) => !toEvidence.has(key)).map(([, e]) => e),
+    },
+    attribution: {
+      from: fromAttribution,
+      to: toAttribution,
+      changed: !sameAttribution(fromAttribution, toAttribution),
+    },
+  };
+}
+
+export function riskTrend(entries: RiskHistoryEntry[]): RiskTrend {
+  if (entries.length < 2) return 'new';
+  const delta = entries[entries.length - 1].riskScore - entries[entries.length - 2].riskScore;
+  if (delta > 0) return 'rising';
+  if (delta < 0) return 'falling';
+  return 'stable';
+}
+
+export class RiskHistory {
+  private store: RiskHistoryStore;
+  private now: () => number;
+
+  constructor(config?: RiskHistoryConfig) {
+    this.store = config?.store ?? new MemoryRiskHistoryStore();
+    this.now = config?.now ?? Date.now;
+  }
+
+  async record(address: string, result: ComplianceCheckResult, context?: string): Promise<RiskHistoryEntry> {
+    const entry: RiskHistoryEntry = {
+      id: this.generateEntryId(),
+      address,
+      checkedAt: this.now(),
+      context,
+      isCompliant: result.isCompliant,
+      riskScore: result.riskScore,
+      riskLevel: result.riskLevel,
+      isSanctioned: result.isSanctioned,
+      reasoning: result.reasoning,
+      rawResponse: result.rawResponse,
+    };
+    await this.store.append(entry);
+    return entry;
+  }
+
+  async list(address: string, query?: RiskHistoryQuery): Promise<RiskHistoryEntry[]> {
+    const entries = (await this.store.list(address))
+      .filter(e => query?.since === undefined || e.checkedAt >= query.since)
+      .sort((a, b) => a.checkedAt - b.checkedAt);
+    return query?.limit !== undefined ? entries.slice(-query.limit) : entries;
+  }
+
+  async get(address: string, entryId: string): Promise<RiskHistoryEntry | undefined> {
+    return (await this.store.list(address)).find(e => e.id === entryId);
+  }
+
+  async latest(address: string): Promise<RiskHistoryEntry | undefined> {
+    const entries = await this.list(address);
+    return entries[entries.length - 1];
+  }
+
+  async trend(address: string): Promise<RiskTrend> {
+    return riskTrend(await this.list(address, { limit: 2 }));
+  }
+
+  /**
+   * Diffs two snapshots of an address. Without explicit IDs, compares the
+   * two most recent checks.
+   */
+  async diff(address: string, fromId?: string, toId?: string): Promise<RiskHistoryDiff> {
+    const entries = await this.list(address);
+    const toIndex = toId ? entries.findIndex(e => e.id === toId) : entries.length - 1;
+    if (toIndex < 0) {
+      throw new Error(`Unknown risk snapshot for ${address}: ${toId ?? 'latest'}`);
+    }
+
+    const to = entries[toIndex];
+    const from = fromId ? entries.find(e => e.id === fromId) : entries[toIndex - 1];
+    if (!from) {
+      throw new Error(fromId
+        ? `Unknown risk snapshot for ${address}: ${fromId}`
+        : `Not enough risk history for ${address} to diff`);
+    }
+
+    return diffRiskHistory(from, to);
+  }
+
+  private generateEntryId(): string {
+    const timestamp = this.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 10);
+    return `rsk_${timestamp}_${random}`;
+  }
+}
+
+export function createRiskHistory(config?: RiskHistoryConfig): RiskHistory {
+  return new RiskHistory(config);
+}
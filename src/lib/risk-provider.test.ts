@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'bun:test';
+import { CompositeRiskProvider, RiskProvider, riskLevelForScore } from './risk-provider';
+import { ComplianceCheckResult, MockRangeClient } from './range-client';
+
+function staticProvider(name: string, riskScore: number, isSanctioned = false): RiskProvider {
+  return {
+    name,
+    async checkCompliance(): Promise<ComplianceCheckResult> {
+      return {
+        isCompliant: riskScore <= 5 && !isSanctioned,
+        riskScore,
+        riskLevel: riskLevelForScore(riskScore),
+        isSanctioned,
+        reasoning: `${name} scored ${riskScore}`,
+        rawResponse: {
+          riskScore: riskScore as ComplianceCheckResult['rawResponse']['riskScore'],
+          riskLevel: riskLevelForScore(riskScore),
+          numHops: 0,
+          maliciousAddressesFound: [],
+          reasoning: `${name} scored ${riskScore}`,
+        },
+      };
+    },
+  };
+}
+
+describe('CompositeRiskProvider', () => {
+  describe('max_score', () => {
+    it('should use the highest provider score', async () => {
+      const composite = new CompositeRiskProvider({
+        providers: [
+          { provider: staticProvider('a', 2) },
+          { provider: staticProvider('b', 7) },
+        ],
+      });
+
+      const result = await composite.checkCompliance('Addr1');
+
+      expect(result.riskScore).toBe(7);
+      expect(result.isCompliant).toBe(false);
+      expect(result.providerResults?.map(p => p.provider)).toEqual(['a', 'b']);
+    });
+
+    it('should pass through a single provider result', async () => {
+      const composite = new CompositeRiskProvider({
+        providers: [{ provider: new MockRangeClient() }],
+      });
+
+      const result = await composite.checkCompliance('Addr1');
+
+      expect(result.riskScore).toBe(1);
+      expect(result.riskLevel).toBe('Very low risk');
+      expect(result.reasoning).toBe('No suspicious paths found within 5 hops.');
+    });
+  });
+
+  describe('weighted_average', () => {
+    it('should weight provider scores', async () => {
+      const composite = new CompositeRiskProvider({
+        mode: 'weighted_average',
+        providers: [
+          { provider: staticProvider('a', 2), weight: 3 },
+          { provider: staticProvider('b', 10), weight: 1 },
+        ],
+      });
+
+      const result = await composite.checkCompliance('Addr1');
+
+      expect(result.riskScore).toBe(4);
+      expect(result.riskLevel).toBe('Medium risk');
+      expect(result.isCompliant).toBe(true);
+    });
+  });
+
+  describe('any_sanctioned', () => {
+    it('should block when any provider flags sanctions', async () => {
+      const composite = new CompositeRiskProvider({
+        mode: 'any_sanctioned',
+        providers: [
+          { provider: staticProvider('a', 1) },
+          { provider: staticProvider('b', 2, true) },
+        ],
+      });
+
+      const result = await composite.checkCompliance('Addr1');
+
+      expect(result.isSanctioned).toBe(true);
+      expect(result.isCompliant).toBe(false);
+      expect(result.reasoning).toContain('Sanctioned by b');
+    });
+
+    it('should still apply the score threshold', async () => {
+      const composite = new CompositeRiskProvider({
+        mode: 'any_sanctioned',
+        providers: [
+          { provider: staticProvider('a', 9) },
+          { provider: staticProvider('b', 1) },
+        ],
+      });
+
+      const result = await composite.checkCompliance('Addr1');
+
+      expect(result.riskScore).toBe(9);
+      expect(result.isSanctioned).toBe(false);
+      expect(result.isCompliant).toBe(false);
+    });
+
+    it('should block on findings from any provider', async () => {
+      const flagged: RiskProvider = {
+        name: 'flagged',
+        async checkCompliance() {
+          const result = await staticProvider('flagged', 2).checkCompliance('Addr1');
+          return {
+            ...result,
+            findings: [{ rule: 'mixer', category: 'Mixer', distance: 1, counterparty: 'Mix1', nameTag: null, entity: null }],
+          };
+        },
+      };
+      const composite = new CompositeRiskProvider({ mode: 'any_sanctioned', providers: [{ provider: flagged }] });
+
+      const result = await composite.checkCompliance('Addr1');
+
+      expect(result.isCompliant).toBe(false);
+    });
+  });
+
+  describe('register', () => {
+    it('should reject duplicate provider names', () => {
+      const composite = new CompositeRiskProvider();
+      composite.register(staticProvider('a', 1));
+
+      expect(() => composite.register(staticProvider('a', 2))).toThrow('already registered');
+    });
+
+    it('should reject non-positive weights', () => {
+      const composite = new CompositeRiskProvider();
+
+      expect(() => composite.register(staticProvider('a', 1), 0)).toThrow('Invalid weight');
+    });
+
+    it('should fail without providers', async () => {
+      const composite = new CompositeRiskProvider();
+
+      await expect(composite.checkCompliance('Addr1')).rejects.toThrow('No risk providers registered');
+    });
+
+    it('should name the failing provider', async () => {
+      const failing: RiskProvider = {
+        name: 'broken',
+        checkCompliance: async () => { throw new Error('timeout'); },
+      };
+      const composite = new CompositeRiskProvider({ providers: [{ provider: failing }] });
+
+      await expect(composite.checkCompliance('Addr1')).rejects.toThrow('Risk provider broken failed: timeout');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import type { ComplianceCheckResult, RiskLevel } from './range-client';
+
+export interface RiskProvider {
+  readonly name: string;
+  checkCompliance(address: string): Promise<ComplianceCheckResult>;
+  invalidateRiskScore?(address: string): Promise<void>;
+}
+
+/**
+ * How provider scores are combined. `any_sanctioned` takes the highest score,
+ * like `max_score`, and reports which providers flagged sanctions. Every mode
+ * applies the same threshold, sanctions and findings checks to the result.
+ */
+export type RiskCombinationMode = 'max_score' | 'weighted_average' | 'any_sanctioned';
+
+export interface RegisteredRiskProvider {
+  provider: RiskProvider;
+  weight?: number;
+}
+
+export interface ProviderCheckResult {
+  provider: string;
+  weight: number;
+  result: ComplianceCheckResult;
+}
+
+export interface CompositeRiskProviderConfig {
+  providers?: RegisteredRiskProvider[];
+  mode?: RiskCombinationMode;
+  maxRiskThreshold?: number;
+}
+
+const DEFAULT_MAX_RISK_THRESHOLD = 5;
+
+export function riskLevelForScore(score: number): RiskLevel {
+  if (score >= 10) return 'CRITICAL RISK (Directly malicious)';
+  if (score >= 8) return 'Extremely high risk';
+  if (score >= 6) return 'High risk';
+  if (score >= 4) return 'Medium risk';
+  if (score >= 2) return 'Low risk';
+  return 'Very low risk';
+}
+
+export class CompositeRiskProvider implements RiskProvider {
+  readonly name = 'composite';
+  private providers: Array<{ provider: RiskProvider; weight: number }> = [];
+  private mode: RiskCombinationMode;
+  private maxRiskThreshold: number;
+
+  constructor(config?: CompositeRiskProviderConfig) {
+    this.mode = config?.mode ?? 'max_score';
+    this.maxRiskThreshold = config?.maxRiskThreshold ?? DEFAULT_MAX_RISK_THRESHOLD;
+    config?.providers?.forEach(p => this.register(p.provider, p.weight));
+  }
+
+  register(provider: RiskProvider, weight: number = 1): void {
+    if (weight <= 0) {
+      throw new Error(`Invalid weight for provider ${provider.name}: must be positive`);
+    }
+    if (this.providers.some(p => p.provider.name === provider.name)) {
+      throw new Error(`Risk provider already registered: ${provider.name}`);
+    }
+    this.providers.push({ provider, weight });
+  }
+
+  getProviderNames(): string[] {
+    return this.providers.map(p => p.provider.name);
+  }
+
+  async invalidateRiskScore(address: string): Promise<void> {
+    await Promise.all(this.providers.map(p => p.provider.invalidateRiskScore?.(address)));
+  }
+
+  async checkCompliance(address: string): Promise<ComplianceCheckResult> {
+    if (this.providers.length === 0) {
+      throw new Error('No risk providers registered');
+    }
+
+    const providerResults = await Promise.all(
+      this.providers.map(async ({ provider, weight }): Promise<ProviderCheckResult> => {
+        try {
+          return { provider: provider.name, weight, result: await provider.checkCompliance(address) };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(`Risk provider ${provider.name} failed: ${message}`);
+        }
+      })
+    );
+
+    return this.combine(providerResults);
+  }
+
+  private combine(providerResults: ProviderCheckResult[]): ComplianceCheckResult {
+    const dominant = providerResults.reduce((worst, current) =>
+      current.result.riskScore > worst.result.riskScore ? current : worst
+    );
+    const isSanctioned = providerResults.some(p => p.result.isSanctioned);
+
+    const riskScore = this.mode === 'weighted_average'
+      ? this.weightedAverage(providerResults)
+      : dominant.result.riskScore;
+
+    const findings = providerResults.flatMap(p => p.result.findings ?? []);
+    const hasBlockingFindings = findings.some(f => f.rule !== 'sanctions');
+
+    const isCompliant = riskScore <= this.maxRiskThreshold && !isSanctioned && !hasBlockingFindings;
+
+    const sanctionsMatches = providerResults.flatMap(p => p.result.sanctionsMatches ?? []);
+    const sanctionsLists = providerResults.flatMap(p => p.result.sanctionsLists ?? []);
+    const flagged = providerResults.filter(p => p.result.isSanctioned).map(p => p.provider);
+    const reasoning = providerResults.length === 1
+      ? dominant.result.reasoning
+      : providerResults.map(p => `[${p.provider}] ${p.result.reasoning}`).join(' ');
+
+    return {
+      isCompliant,
+      riskScore,
+      riskLevel: riskScore === dominant.result.riskScore
+        ? dominant.result.riskLevel
+        : riskLevelForScore(riskScore),
+      isSanctioned,
+      reasoning: flagged.length > 0 && providerResults.length > 1
+        ? `Sanctioned by ${flagged.join(', ')}. ${reasoning}`
+        : reasoning,
+      rawResponse: dominant.result.rawResponse,
+      providerResults,
+      ...(sanctionsMatches.length > 0 && { sanctionsMatches }),
+      ...(sanctionsLists.length > 0 && { sanctionsLists }),
+      ...(findings.length > 0 && { findings }),
+    };
+  }
+
+  private weightedAverage(providerResults: ProviderCheckResult[]): number {
+    const totalWeight = providerResults.reduce((sum, p) => sum + p.weight, 0);
+    const weighted = providerResults.reduce((sum, p) => sum + p.result.riskScore * p.weight, 0);
+    return Math.round(weighted / totalWeight);
+  }
+}
+
+export function createCompositeRiskProvider(config?: CompositeRiskProviderConfig): CompositeRiskProvider {
+  return new CompositeRiskProvider(config);
+}
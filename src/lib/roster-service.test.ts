@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'bun:test';
+import { Keypair } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import nacl from 'tweetnacl';
+import { MERKLE_TREE_DEPTH, MerkleTree, computeMerkleRoot, poseidon2Hash } from './merkle-tree';
+import { NoirProofService, commitNullifierSecret, computeRosterNullifier } from './noir-proof-service';
+import {
+  FileNullifierStore,
+  FileRosterRootStore,
+  PayrollRoster,
+  RosterError,
+  RosterMember,
+  RosterService,
+  rosterPublicationMessage
+} from './roster-service';
+
+const SECRETS: Record<string, string> = {
+  WalletAlice: '0xa11ce',
+  WalletBob: '0xb0b',
+  WalletCarol: '0xca201',
+};
+
+let EMPLOYEES: Array<RosterMember & { id: string }>;
+
+beforeAll(async () => {
+  EMPLOYEES = await Promise.all(['WalletAlice', 'WalletBob', 'WalletCarol'].map(async (wallet, i) => ({
+    id: `emp00${i + 1}`,
+    wallet,
+    nullifierCommitment: await commitNullifierSecret(SECRETS[wallet]),
+  })));
+});
+
+function signRoster(employer: Keypair, rosterRoot: string) {
+  const message = new TextEncoder().encode(rosterPublicationMessage(rosterRoot));
+  return {
+    rosterRoot,
+    employer: employer.publicKey.toBase58(),
+    signature: Buffer.from(nacl.sign.detached(message, employer.secretKey)).toString('base64'),
+  };
+}
+
+describe('MerkleTree', () => {
+  it('should match the Noir Poseidon2 test vector', async () => {
+    expect(await poseidon2Hash([1, 2])).toBe('0x038682aa1cb5ae4e0a3f13da432a95c77c5c111f6f030faf9cad641ce1ed7383');
+  });
+
+  it('should produce paths that hash back to the root', async () => {
+    const tree = await MerkleTree.build(['0x01', '0x02', '0x03']);
+
+    for (let i = 0; i < tree.size; i++) {
+      const path = tree.getPath(i);
+      expect(path.siblings).toHaveLength(MERKLE_TREE_DEPTH);
+      expect(await computeMerkleRoot(`0x0${i + 1}`, path)).toBe(tree.root);
+    }
+  });
+
+  it('should change the root when any leaf changes', async () => {
+    const a = await MerkleTree.build(['0x01', '0x02', '0x03']);
+    const b = await MerkleTree.build(['0x01', '0x02', '0x04']);
+
+    expect(a.root).not.toBe(b.root);
+  });
+});
+
+describe('RosterService', () => {
+  const employer = Keypair.generate();
+  let service: RosterService;
+  let roster: PayrollRoster;
+
+  beforeEach(async () => {
+    service = new RosterService({
+      proofService: new NoirProofService({ allowMockProofs: true }),
+      employers: [employer.publicKey.toBase58()],
+    });
+    roster = await service.buildRoster(EMPLOYEES);
+    await service.publishRoot(signRoster(employer, roster.root));
+  });
+
+  it('should build a roster from the parsed employee list', async () => {
+    const again = await service.buildRoster([...EMPLOYEES].concat(EMPLOYEES[0]));
+
+    expect(roster.size).toBe(3);
+    expect(again.root).toBe(roster.root);
+  });
+
+  it('should prove membership without revealing the entry', async () => {
+    const proof = await service.proveMembership(roster, 'WalletBob', SECRETS.WalletBob, 202610);
+
+    expect(proof.publicInputs[0]).toBe(roster.root);
+    expect(proof.publicInputs[1]).toBe('202610');
+    expect(proof.publicInputs).toHaveLength(3);
+  });
+
+  it('should derive nullifiers from the employee secret rather than the roster entry', async () => {
+    const proof = await service.proveMembership(roster, 'WalletBob', SECRETS.WalletBob, 202610);
+    const bob = EMPLOYEES[1];
+
+    expect(proof.publicInputs[2]).toBe(await computeRosterNullifier(SECRETS.WalletBob, 202610));
+    expect(proof.publicInputs[2]).not.toBe(await computeRosterNullifier(bob.nullifierCommitment, 202610));
+  });
+
+  it('should accept a proof the employee builds from the published path alone', async () => {
+    const membership = await roster.getMembershipPath('WalletCarol');
+    const employeeProver = new NoirProofService({ allowMockProofs: true });
+    const proof = await employeeProver.generateRosterMembershipProof({
+      ...membership,
+      nullifierSecret: SECRETS.WalletCarol,
+      payPeriod: 202610,
+    });
+
+    expect(JSON.stringify(membership)).not.toContain(SECRETS.WalletCarol);
+    const record = await service.claim(membership.rosterRoot, 202610, proof);
+    expect(record.nullifier).toBe(await computeRosterNullifier(SECRETS.WalletCarol, 202610));
+  });
+
+  it('should refuse wallets that are not on the roster', async () => {
+    await expect(service.proveMembership(roster, 'WalletMallory', SECRETS.WalletBob, 202610)).rejects.toThrow(RosterError);
+  });
+
+  it('should refuse a secret the employee did not commit to', async () => {
+    await expect(service.proveMembership(roster, 'WalletBob', '0xf00', 202610)).rejects.toThrow('not on the roster');
+  });
+
+  it('should accept one claim per employee per pay period', async () => {
+    const october = await service.proveMembership(roster, 'WalletBob', SECRETS.WalletBob, 202610);
+    const november = await service.proveMembership(roster, 'WalletBob', SECRETS.WalletBob, 202611);
+
+    await service.claim(roster.root, 202610, october);
+    await service.claim(roster.root, 202611, november);
+
+    const again = service.claim(
+      roster.root,
+      202610,
+      await service.proveMembership(roster, 'WalletBob', SECRETS.WalletBob, 202610)
+    );
+    await expect(again).rejects.toThrow('already claimed for pay period 202610');
+  });
+
+  it('should accept only one of two concurrent claims', async () => {
+    const proof = await service.proveMembership(roster, 'WalletAlice', SECRETS.WalletAlice, 202610);
+
+    const results = await Promise.allSettled([
+      service.claim(roster.root, 202610, proof),
+      service.claim(roster.root, 202610, proof),
+    ]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('should reject claims against a different roster or period', async () => {
+    const proof = await service.proveMembership(roster, 'WalletBob', SECRETS.WalletBob, 202610);
+    const other = await service.buildRoster(EMPLOYEES.slice(0, 2));
+    await service.publishRoot(signRoster(employer, other.root));
+
+    await expect(service.claim(other.root, 202610, proof)).rejects.toThrow('Public input rosterRoot');
+    await expect(service.claim(roster.root, 202611, proof)).rejects.toThrow('Public input payPeriod');
+  });
+
+  it('should reject claims against rosters no employer published', async () => {
+    const forged = await service.buildRoster([
+      { wallet: 'WalletMallory', nullifierCommitment: await commitNullifierSecret('0xbad') },
+    ]);
+    const proof = await service.proveMembership(forged, 'WalletMallory', '0xbad', 202610);
+
+    await expect(service.claim(forged.root, 202610, proof)).rejects.toThrow('has not been published');
+  });
+
+  it('should only accept roots signed by a configured employer', async () => {
+    const stranger = Keypair.generate();
+    const signed = signRoster(employer, roster.root);
+
+    await expect(service.publishRoot(signRoster(stranger, roster.root))).rejects.toThrow('may not publish rosters');
+    await expect(service.publishRoot({ ...signed, rosterRoot: '0x1234' })).rejects.toThrow('invalid roster signature');
+  });
+});
+
+describe('FileNullifierStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'roster-nullifiers-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should remember claims and rosters across service instances', async () => {
+    const employer = Keypair.generate();
+    const config = {
+      proofService: new NoirProofService({ allowMockProofs: true }),
+      employers: [employer.publicKey.toBase58()],
+    };
+    const first = new RosterService({
+      ...config,
+      nullifiers: new FileNullifierStore(path.join(dir, 'nullifiers.json')),
+      roots: new FileRosterRootStore(path.join(dir, 'roots.json')),
+    });
+    const roster = await first.buildRoster(EMPLOYEES);
+    await first.publishRoot(signRoster(employer, roster.root));
+    const proof = await first.proveMembership(roster, 'WalletAlice', SECRETS.WalletAlice, 202610);
+    await first.claim(roster.root, 202610, proof);
+
+    const second = new RosterService({
+      ...config,
+      nullifiers: new FileNullifierStore(path.join(dir, 'nullifiers.json')),
+      roots: new FileRosterRootStore(path.join(dir, 'roots.json')),
+    });
+
+    await expect(second.claim(roster.root, 202610, proof)).rejects.toThrow('already claimed');
+  });
+
+  it('should store a nullifier only once under concurrent writers', async () => {
+    const filePath = path.join(dir, 'nullifiers.json');
+    const record = { nullifier: '0x01', rosterRoot: '0x02', payPeriod: 202610, claimedAt: 0 };
+
+    const inserted = await Promise.all([
+      new FileNullifierStore(filePath).putIfAbsent(record),
+      new FileNullifierStore(filePath).putIfAbsent({ ...record, claimedAt: 1 }),
+    ]);
+
+    expect(inserted.sort()).toEqual([false, true]);
+    expect(await new FileNullifierStore(filePath).get('0x01')).toEqual(record);
+  });
+});
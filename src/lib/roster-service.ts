@@ -0,0 +1,327 @@
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { readJsonFile, updateJsonFile } from './json-file';
+import { MerklePath, MerkleTree } from './merkle-tree';
+import {
+  GeneratedProof,
+  NoirProofService,
+  createNoirProofService,
+  getPublicInputClaims,
+  hashRosterMember,
+  hashWalletAddress,
+  isPayPeriod
+} from './noir-proof-service';
+
+/**
+ * An employee on the roster: their wallet and the commitment to the nullifier
+ * secret they generated (see `commitNullifierSecret`). The secret itself
+ * stays with the employee.
+ */
+export interface RosterMember {
+  wallet: string;
+  nullifierCommitment: string;
+}
+
+/**
+ * Everything an employee needs from the employer to prove roster membership,
+ * short of their own nullifier secret.
+ */
+export interface RosterMembershipPath {
+  walletHash: string;
+  path: MerklePath;
+  rosterRoot: string;
+}
+
+export interface NullifierRecord {
+  nullifier: string;
+  rosterRoot: string;
+  payPeriod: number;
+  claimedAt: number;
+}
+
+export interface NullifierStore {
+  get(nullifier: string): Promise<NullifierRecord | undefined>;
+  /** Stores the record unless its nullifier is already taken, in one step. Returns whether it was stored. */
+  putIfAbsent(record: NullifierRecord): Promise<boolean>;
+}
+
+/** A roster root an employer has published, and who published it. */
+export interface RosterRootRecord {
+  rosterRoot: string;
+  employer: string;
+  publishedAt: number;
+}
+
+export interface RosterRootStore {
+  get(rosterRoot: string): Promise<RosterRootRecord | undefined>;
+  put(record: RosterRootRecord): Promise<void>;
+}
+
+export interface RosterPublication {
+  rosterRoot: string;
+  /** Base58 Ed25519 public key of the employer. */
+  employer: string;
+  /** Base64 signature over `rosterPublicationMessage(rosterRoot)`. */
+  signature: string;
+}
+
+export interface RosterServiceConfig {
+  proofService?: NoirProofService;
+  nullifiers?: NullifierStore;
+  roots?: RosterRootStore;
+  /** Employer keys allowed to publish roster roots. */
+  employers?: string[];
+  now?: () => number;
+}
+
+export type RosterErrorCode =
+  | 'not_on_roster'
+  | 'invalid_pay_period'
+  | 'invalid_proof'
+  | 'already_claimed'
+  | 'unknown_roster'
+  | 'unauthorized_employer';
+
+export class RosterError extends Error {
+  readonly code: RosterErrorCode;
+
+  constructor(code: RosterErrorCode, message: string) {
+    super(`Roster claim rejected: ${message}`);
+    this.name = 'RosterError';
+    this.code = code;
+  }
+}
+
+export class MemoryNullifierStore implements NullifierStore {
+  private records: Map<string, NullifierRecord> = new Map();
+
+  async get(nullifier: string): Promise<NullifierRecord | undefined> {
+    const record = this.records.get(nullifier);
+    return record && { ...record };
+  }
+
+  async putIfAbsent(record: NullifierRecord): Promise<boolean> {
+    if (this.records.has(record.nullifier)) return false;
+    this.records.set(record.nullifier, { ...record });
+    return true;
+  }
+}
+
+export class FileNullifierStore implements NullifierStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(nullifier: string): Promise<NullifierRecord | undefined> {
+    return (await readJsonFile<Record<string, NullifierRecord>>(this.filePath, {}))[nullifier];
+  }
+
+  putIfAbsent(record: NullifierRecord): Promise<boolean> {
+    return updateJsonFile<Record<string, NullifierRecord>, boolean>(this.filePath, {}, records => {
+      if (records[record.nullifier]) return false;
+      records[record.nullifier] = record;
+      return true;
+    });
+  }
+}
+
+export class MemoryRosterRootStore implements RosterRootStore {
+  private records: Map<string, RosterRootRecord> = new Map();
+
+  async get(rosterRoot: string): Promise<RosterRootRecord | undefined> {
+    const record = this.records.get(normalizeRoot(rosterRoot));
+    return record && { ...record };
+  }
+
+  async put(record: RosterRootRecord): Promise<void> {
+    this.records.set(normalizeRoot(record.rosterRoot), { ...record });
+  }
+}
+
+export class FileRosterRootStore implements RosterRootStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(rosterRoot: string): Promise<RosterRootRecord | undefined> {
+    return (await readJsonFile<Record<string, RosterRootRecord>>(this.filePath, {}))[normalizeRoot(rosterRoot)];
+  }
+
+  async put(record: RosterRootRecord): Promise<void> {
+    await updateJsonFile<Record<string, RosterRootRecord>, void>(this.filePath, {}, records => {
+      records[normalizeRoot(record.rosterRoot)] = record;
+    });
+  }
+}
+
+/**
+ * An employer's approved payroll roster as a Poseidon2 Merkle tree of wallet
+ * commitments. Only the root needs to be published.
+ */
+export class PayrollRoster {
+  private tree: MerkleTree;
+  private walletHashes: string[];
+
+  private constructor(tree: MerkleTree, walletHashes: string[]) {
+    this.tree = tree;
+    this.walletHashes = walletHashes;
+  }
+
+  /** Builds the tree with one leaf per wallet; a repeated wallet keeps its first commitment. */
+  static async build(members: RosterMember[]): Promise<PayrollRoster> {
+    const commitments = new Map<string, string>();
+    for (const member of members) {
+      if (!commitments.has(member.wallet)) commitments.set(member.wallet, member.nullifierCommitment);
+    }
+
+    const walletHashes = await Promise.all([...commitments.keys()].map(wallet => hashWalletAddress(wallet)));
+    const leaves = await Promise.all(
+      [...commitments.values()].map((commitment, i) => hashRosterMember(walletHashes[i], commitment))
+    );
+    return new PayrollRoster(await MerkleTree.build(leaves), walletHashes);
+  }
+
+  get root(): string {
+    return this.tree.root;
+  }
+
+  get size(): number {
+    return this.tree.size;
+  }
+
+  async getPath(walletAddress: string): Promise<MerklePath> {
+    const index = this.walletHashes.indexOf(await hashWalletAddress(walletAddress));
+    if (index < 0) {
+      throw new RosterError('not_on_roster', `${walletAddress} is not on the roster`);
+    }
+    return this.tree.getPath(index);
+  }
+
+  async getMembershipPath(walletAddress: string): Promise<RosterMembershipPath> {
+    return {
+      walletHash: await hashWalletAddress(walletAddress),
+      path: await this.getPath(walletAddress),
+      rosterRoot: this.root,
+    };
+  }
+}
+
+/**
+ * Builds payroll rosters, proves membership for employees and records
+ * nullifiers so each employee can claim at most once per pay period.
+ * Claims are only accepted against roots an authorised employer published.
+ */
+export class RosterService {
+  private proofService: NoirProofService;
+  private nullifiers: NullifierStore;
+  private roots: RosterRootStore;
+  private employers: string[];
+  private now: () => number;
+
+  constructor(config?: RosterServiceConfig) {
+    this.proofService = config?.proofService ?? createNoirProofService();
+    this.nullifiers = config?.nullifiers ?? new MemoryNullifierStore();
+    this.roots = config?.roots ?? new MemoryRosterRootStore();
+    this.employers = config?.employers ?? [];
+    this.now = config?.now ?? Date.now;
+  }
+
+  async buildRoster(members: RosterMember[]): Promise<PayrollRoster> {
+    return PayrollRoster.build(members);
+  }
+
+  /** Records a roster root signed by one of the configured employers. */
+  async publishRoot(publication: RosterPublication): Promise<RosterRootRecord> {
+    if (!this.employers.includes(publication.employer)) {
+      throw new RosterError('unauthorized_employer', `${publication.employer} may not publish rosters`);
+    }
+    if (!verifyPublicationSignature(publication)) {
+      throw new RosterError('unauthorized_employer', 'invalid roster signature');
+    }
+
+    const record: RosterRootRecord = {
+      rosterRoot: publication.rosterRoot,
+      employer: publication.employer,
+      publishedAt: this.now(),
+    };
+    await this.roots.put(record);
+    return record;
+  }
+
+  /**
+   * Proves membership with the employee's nullifier secret. Call this where
+   * the secret lives, on the employee's device: whoever sees the secret can
+   * link every claim back to the roster entry.
+   */
+  async proveMembership(
+    roster: PayrollRoster,
+    walletAddress: string,
+    nullifierSecret: string,
+    payPeriod: number
+  ): Promise<GeneratedProof> {
+    return this.proofService.generateRosterMembershipProof({
+      ...(await roster.getMembershipPath(walletAddress)),
+      nullifierSecret,
+      payPeriod,
+    });
+  }
+
+  /**
+   * Verifies a membership proof against a published roster root and
+   * records its nullifier. A second claim for the same period is rejected.
+   */
+  async claim(rosterRoot: string, payPeriod: number, proof: GeneratedProof): Promise<NullifierRecord> {
+    if (!isPayPeriod(payPeriod)) {
+      throw new RosterError('invalid_pay_period', `invalid pay period ${payPeriod}`);
+    }
+    if (!(await this.roots.get(rosterRoot))) {
+      throw new RosterError('unknown_roster', `roster ${rosterRoot} has not been published`);
+    }
+
+    const verification = await this.proofService.verifyProof('roster_membership', proof, {
+      expectedPublicInputs: { rosterRoot, payPeriod },
+    });
+    if (!verification.isValid) {
+      throw new RosterError('invalid_proof', verification.error ?? 'invalid membership proof');
+    }
+
+    const nullifier = proof.publicInputs[getPublicInputClaims('roster_membership').indexOf('nullifier')];
+    const record: NullifierRecord = { nullifier, rosterRoot, payPeriod, claimedAt: this.now() };
+    if (!(await this.nullifiers.putIfAbsent(record))) {
+      throw new RosterError('already_claimed', `already claimed for pay period ${payPeriod}`);
+    }
+    return record;
+  }
+}
+
+export function createRosterService(config?: RosterServiceConfig): RosterService {
+  return new RosterService(config);
+}
+
+export function rosterPublicationMessage(rosterRoot: string): string {
+  return `Publish ShadowPay payroll roster ${normalizeRoot(rosterRoot)}`;
+}
+
+function verifyPublicationSignature(publication: RosterPublication): boolean {
+  try {
+    const publicKey = new PublicKey(publication.employer).toBytes();
+    const signature = new Uint8Array(Buffer.from(publication.signature, 'base64'));
+    const message = new TextEncoder().encode(rosterPublicationMessage(publication.rosterRoot));
+    return signature.length === nacl.sign.signatureLength && nacl.sign.detached.verify(message, signature, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+// Roots are field elements, so 0x0ab and 0xab name the same roster
+function normalizeRoot(rosterRoot: string): string {
+  try {
+    return `0x${BigInt(rosterRoot).toString(16).padStart(64, '0')}`;
+  } catch {
+    return rosterRoot;
+  }
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SanctionsScreener,
+  createSanctionsScreener,
+  createSanctionsSnapshot,
+  loadSanctionsListFile,
+  loadSanctionsLists,
+  saveSanctionsSnapshot,
+  readSanctionsSnapshot,
+  parseSanctionsCsv,
+  parseSanctionsJson,
+  parseOfacSdnCsv,
+} from './sanctions-list';
+import { CompositeRiskProvider } from './risk-provider';
+import { MockRangeClient } from './range-client';
+
+const SDN_CSV = [
+  '36216,"LAZARUS GROUP","-0-","DPRK3","-0-","-0-","-0-","-0-","-0-","-0-","-0-","Digital Currency Address - ETH 0x098B716B8Aaf21512996dC57EB0615e2383E2f96; alt. Digital Currency Address - SOL SanctionedSol1111111111111111111111111111"',
+  '12345,"SOMEONE ELSE","individual","SDGT","-0-","-0-","-0-","-0-","-0-","-0-","-0-","DOB 1970."',
+].join('\n');
+
+describe('Sanctions lists', () => {
+  describe('parsers', () => {
+    it('should parse CSV with a header row', () => {
+      const entries = parseSanctionsCsv('id,address,name\nD-1,BadWallet111,"Doe, John"\n');
+
+      expect(entries).toEqual([{
+        entryId: 'D-1',
+        address: 'BadWallet111',
+        name: 'Doe, John',
+        program: undefined,
+        currency: undefined,
+      }]);
+    });
+
+    it('should parse a headerless list of addresses', () => {
+      const entries = parseSanctionsCsv('BadWallet111\nBadWallet222\n');
+
+      expect(entries.map(e => e.address)).toEqual(['BadWallet111', 'BadWallet222']);
+    });
+
+    it('should parse JSON arrays of strings and objects', () => {
+      expect(parseSanctionsJson('["A1", "A2"]').map(e => e.address)).toEqual(['A1', 'A2']);
+
+      const entries = parseSanctionsJson('{"entries":[{"id":7,"address":"A3","name":"Bad Actor"}]}');
+      expect(entries[0].entryId).toBe('7');
+      expect(entries[0].name).toBe('Bad Actor');
+    });
+
+    it('should reject JSON entries without an address', () => {
+      expect(() => parseSanctionsJson('[{"name":"nobody"}]')).toThrow('missing address');
+    });
+
+    it('should extract digital currency addresses from OFAC SDN rows', () => {
+      const entries = parseOfacSdnCsv(SDN_CSV);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toEqual({
+        entryId: '36216',
+        address: '0x098b716b8aaf21512996dc57eb0615e2383e2f96',
+        name: 'LAZARUS GROUP',
+        program: 'DPRK3',
+        currency: 'ETH',
+      });
+      expect(entries[1].address).toBe('SanctionedSol1111111111111111111111111111');
+    });
+  });
+
+  describe('SanctionsScreener', () => {
+    let screener: SanctionsScreener;
+
+    beforeEach(() => {
+      screener = new SanctionsScreener();
+      screener.addSnapshot(createSanctionsSnapshot(SDN_CSV, {
+        listName: 'ofac_sdn',
+        format: 'ofac_sdn_csv',
+        version: '2026-10-01',
+      }));
+    });
+
+    it('should match addresses exactly', () => {
+      expect(screener.screen('SanctionedSol1111111111111111111111111111')).toHaveLength(1);
+      expect(screener.screen('sanctionedsol1111111111111111111111111111')).toHaveLength(0);
+    });
+
+    it('should match EVM addresses case-insensitively', () => {
+      const matches = screener.screen('0x098B716B8AAF21512996DC57EB0615E2383E2F96');
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].listName).toBe('ofac_sdn');
+      expect(matches[0].listVersion).toBe('2026-10-01');
+      expect(matches[0].entry.entryId).toBe('36216');
+    });
+
+    it('should screen against a recorded list version', () => {
+      screener.addSnapshot(createSanctionsSnapshot('[]', { listName: 'ofac_sdn', version: '2026-10-15' }));
+
+      expect(screener.screen('SanctionedSol1111111111111111111111111111')).toHaveLength(0);
+      expect(screener.screen('SanctionedSol1111111111111111111111111111', { ofac_sdn: '2026-10-01' })).toHaveLength(1);
+      expect(screener.listVersions('ofac_sdn')).toEqual(['2026-10-01', '2026-10-15']);
+    });
+
+    it('should reject duplicate versions', () => {
+      expect(() => screener.addSnapshot(createSanctionsSnapshot('[]', {
+        listName: 'ofac_sdn',
+        version: '2026-10-01',
+      }))).toThrow('already has version');
+    });
+
+    it('should report list and entry on compliance results', async () => {
+      const result = await screener.checkCompliance('SanctionedSol1111111111111111111111111111');
+
+      expect(result.isSanctioned).toBe(true);
+      expect(result.isCompliant).toBe(false);
+      expect(result.sanctionsMatches?.[0].entry.name).toBe('LAZARUS GROUP');
+      expect(result.reasoning).toContain('ofac_sdn@2026-10-01 (entry 36216)');
+    });
+
+    it('should report the list versions screened against', async () => {
+      const result = await screener.checkCompliance('CleanWallet');
+      const snapshot = screener.getSnapshot('ofac_sdn')!;
+
+      expect(result.sanctionsLists).toEqual([
+        { listName: 'ofac_sdn', version: '2026-10-01', contentHash: snapshot.contentHash },
+      ]);
+    });
+
+    it('should pass unlisted addresses', async () => {
+      const result = await screener.checkCompliance('CleanWallet');
+
+      expect(result.isCompliant).toBe(true);
+      expect(result.sanctionsMatches).toEqual([]);
+    });
+
+    it('should carry matches through a composite provider', async () => {
+      const composite = new CompositeRiskProvider({
+        providers: [{ provider: new MockRangeClient() }, { provider: screener }],
+      });
+
+      const result = await composite.checkCompliance('SanctionedSol1111111111111111111111111111');
+
+      expect(result.isSanctioned).toBe(true);
+      expect(result.sanctionsMatches?.[0].listName).toBe('ofac_sdn');
+      expect(result.sanctionsLists?.map(l => l.version)).toEqual(['2026-10-01']);
+    });
+  });
+
+  describe('files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sanctions-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load lists by file extension', async () => {
+      const filePath = path.join(dir, 'denylist.csv');
+      await fs.writeFile(filePath, 'address,name\nBadWallet111,Internal denylist\n');
+
+      const snapshot = await loadSanctionsListFile(filePath, { listName: 'denylist' });
+
+      expect(snapshot.entries[0].address).toBe('BadWallet111');
+      expect(snapshot.source).toBe(filePath);
+      expect(snapshot.version).toBe(snapshot.contentHash.slice(0, 16));
+    });
+
+    it('should load every list named in a spec', async () => {
+      await fs.writeFile(path.join(dir, 'sdn.csv'), SDN_CSV);
+      await fs.writeFile(path.join(dir, 'internal.json'), '["BadWallet111"]');
+
+      const snapshots = await loadSanctionsLists(
+        `ofac_sdn:ofac_sdn_csv=${path.join(dir, 'sdn.csv')}, denylist=${path.join(dir, 'internal.json')}`
+      );
+
+      expect(snapshots.map(s => s.listName)).toEqual(['ofac_sdn', 'denylist']);
+      expect(snapshots[0].entries).toHaveLength(2);
+      expect(snapshots[1].entries[0].address).toBe('BadWallet111');
+      await expect(loadSanctionsLists('ofac_sdn:xml=./sdn.xml')).rejects.toThrow('expected name[:format]=path');
+    });
+
+    it('should round-trip saved snapshots', async () => {
+      const snapshot = createSanctionsSnapshot('["A1"]', { listName: 'denylist', version: 'v1' });
+      await saveSanctionsSnapshot(dir, snapshot);
+
+      const restored = await readSanctionsSnapshot(dir, 'denylist', 'v1');
+
+      expect(restored).toEqual(snapshot);
+    });
+
+    it('should save loaded versions so a recorded decision can be reproduced', async () => {
+      const snapshotDir = path.join(dir, 'snapshots');
+      await fs.writeFile(path.join(dir, 'internal.json'), '["BadWallet111"]');
+      const screener = createSanctionsScreener(await loadSanctionsLists(`denylist=${path.join(dir, 'internal.json')}`, snapshotDir));
+
+      const decision = await screener.checkCompliance('BadWallet111');
+      const [recorded] = decision.sanctionsLists ?? [];
+      const restored = await readSanctionsSnapshot(snapshotDir, recorded.listName, recorded.version);
+
+      expect(restored.contentHash).toBe(recorded.contentHash);
+      expect(restored.entries.map(e => e.address)).toEqual(['BadWallet111']);
+    });
+
+    it('should refuse to save a different list under a saved version', async () => {
+      await saveSanctionsSnapshot(dir, createSanctionsSnapshot('["A1"]', { listName: 'denylist', version: 'v1' }));
+
+      const changed = createSanctionsSnapshot('["A1","B2"]', { listName: 'denylist', version: 'v1' });
+
+      await expect(saveSanctionsSnapshot(dir, changed)).rejects.toThrow('already saved with different content');
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readJsonFile, writeJsonFile } from './json-file';
+import type { ComplianceCheckResult } from './range-client';
+import type { RiskProvider } from './risk-provider';
+
+export type SanctionsListFormat = 'csv' | 'json' | 'ofac_sdn_csv';
+
+export interface SanctionsListEntry {
+  entryId: string;
+  address: string;
+  name?: string;
+  program?: string;
+  currency?: string;
+}
+
+export interface SanctionsListSnapshot {
+  listName: string;
+  version: string;
+  contentHash: string;
+  loadedAt: number;
+  source?: string;
+  entries: SanctionsListEntry[];
+}
+
+export interface SanctionsMatch {
+  listName: string;
+  listVersion: string;
+  contentHash: string;
+  entry: SanctionsListEntry;
+}
+
+/** A list version an address was screened against. */
+export interface SanctionsListVersion {
+  listName: string;
+  version: string;
+  contentHash: string;
+}
+
+export interface LoadSanctionsListOptions {
+  listName: string;
+  format?: SanctionsListFormat;
+  version?: string;
+  source?: string;
+}
+
+const SANCTIONS_LIST_FORMATS: SanctionsListFormat[] = ['csv', 'json', 'ofac_sdn_csv'];
+const OFAC_ADDRESS_PATTERN = /Digital Currency Address - ([A-Z0-9]+)\s+([A-Za-z0-9]+)/g;
+
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  return /^0x[0-9a-fA-F]+$/.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export function parseSanctionsCsv(content: string): SanctionsListEntry[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const addressIdx = header.indexOf('address');
+
+  if (addressIdx === -1) {
+    return rows.map((r, idx) => ({ entryId: String(idx + 1), address: normalizeAddress(r[0]) }));
+  }
+
+  const column = (r: string[], name: string) => {
+    const idx = header.indexOf(name);
+    const value = idx === -1 ? undefined : r[idx]?.trim();
+    return value ? value : undefined;
+  };
+
+  return rows.slice(1).map((r, idx) => ({
+    entryId: column(r, 'id') ?? String(idx + 1),
+    address: normalizeAddress(r[addressIdx]),
+    name: column(r, 'name'),
+    program: column(r, 'program'),
+    currency: column(r, 'currency'),
+  }));
+}
+
+export function parseSanctionsJson(content: string): SanctionsListEntry[] {
+  const parsed = JSON.parse(content);
+  const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.entries;
+
+  if (!Array.isArray(items)) {
+    throw new Error('Invalid sanctions list: expected an array or an object with entries');
+  }
+
+  return items.map((item, idx) => {
+    if (typeof item === 'string') {
+      return { entryId: String(idx + 1), address: normalizeAddress(item) };
+    }
+
+    const entry = item as Partial<SanctionsListEntry> & { id?: string | number };
+    if (!entry || typeof entry.address !== 'string') {
+      throw new Error(`Invalid sanctions list entry at index ${idx}: missing address`);
+    }
+    return {
+      entryId: String(entry.entryId ?? entry.id ?? idx + 1),
+      address: normalizeAddress(entry.address),
+      name: entry.name,
+      program: entry.program,
+      currency: entry.currency,
+    };
+  });
+}
+
+export function parseOfacSdnCsv(content: string): SanctionsListEntry[] {
+  const entries: SanctionsListEntry[] = [];
+
+  for (const row of parseCsvRows(content)) {
+    const [entNum, sdnName, , program] = row;
+    const remarks = row[row.length - 1] ?? '';
+
+    for (const match of remarks.matchAll(OFAC_ADDRESS_PATTERN)) {
+      entries.push({
+        entryId: entNum.trim(),
+        address: normalizeAddress(match[2]),
+        name: sdnName?.trim(),
+        program: program?.trim(),
+        currency: match[1],
+      });
+    }
+  }
+
+  return entries;
+}
+
+export function createSanctionsSnapshot(content: string, options: LoadSanctionsListOptions): SanctionsListSnapshot {
+  const format = options.format ?? 'json';
+  const entries = format === 'csv'
+    ? parseSanctionsCsv(content)
+    : format === 'ofac_sdn_csv'
+      ? parseOfacSdnCsv(content)
+      : parseSanctionsJson(content);
+
+  const contentHash = createHash('sha256').update(content).digest('hex');
+
+  return {
+    listName: options.listName,
+    version: options.version ?? contentHash.slice(0, 16),
+    contentHash,
+    loadedAt: Date.now(),
+    source: options.source,
+    entries,
+  };
+}
+
+export async function loadSanctionsListFile(
+  filePath: string,
+  options: LoadSanctionsListOptions
+): Promise<SanctionsListSnapshot> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const format = options.format ?? (path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json');
+  return createSanctionsSnapshot(content, { ...options, format, source: options.source ?? filePath });
+}
+
+/**
+ * Loads the lists named in a `name[:format]=path` spec, e.g.
+ * `ofac_sdn:ofac_sdn_csv=./lists/sdn.csv,denylist=./lists/internal.json`.
+ * Without a format, CSV or JSON is picked by file extension. With
+ * `snapshotDir`, each loaded version is saved there, so the list behind a
+ * recorded screening decision can be read back in an audit.
+ */
+export async function loadSanctionsLists(spec: string, snapshotDir?: string): Promise<SanctionsListSnapshot[]> {
+  const lists = spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [name, filePath] = part.split('=').map(p => p.trim());
+      const [listName, format] = (name ?? '').split(':');
+      if (!listName || !filePath || (format !== undefined && !SANCTIONS_LIST_FORMATS.includes(format as SanctionsListFormat))) {
+        throw new Error(`Invalid sanctions list "${part}": expected name[:format]=path`);
+      }
+      return { listName, format: format as SanctionsListFormat | undefined, filePath };
+    });
+
+  const snapshots = await Promise.all(lists.map(({ listName, format, filePath }) =>
+    loadSanctionsListFile(filePath, { listName, format })
+  ));
+  if (snapshotDir) {
+    await Promise.all(snapshots.map(snapshot => saveSanctionsSnapshot(snapshotDir, snapshot)));
+  }
+  return snapshots;
+}
+
+/**
+ * Saves a list version to `<dir>/<listName>/<version>.json`. A version is
+ * saved once: the first copy is kept, and a different list under the same
+ * version is refused so the saved copy always matches recorded decisions.
+ */
+export async function saveSanctionsSnapshot(dir: string, snapshot: SanctionsListSnapshot): Promise<string> {
+  const filePath = path.join(dir, snapshot.listName, `${snapshot.version}.json`);
+  const saved = await readJsonFile<SanctionsListSnapshot | null>(filePath, null);
+  if (saved && saved.contentHash !== snapshot.contentHash) {
+    throw new Error(`Sanctions list ${snapshot.listName}@${snapshot.version} was already saved with different content`);
+  }
+  if (!saved) {
+    await writeJsonFile(filePath, snapshot);
+  }
+  return filePath;
+}
+
+export async function readSanctionsSnapshot(
+  dir: string,
+  listName: string,
+  version: string
+): Promise<SanctionsListSnapshot> {
+  const raw = await fs.readFile(path.join(dir, listName, `${version}.json`), 'utf8');
+  return JSON.parse(raw) as SanctionsListSnapshot;
+}
+
+export class SanctionsScreener implements RiskProvider {
+  readonly name = 'sanctions-list';
+  private snapshots: Map<string, SanctionsListSnapshot[]> = new Map();
+  private activeVersions: Map<string, string> = new Map();
+  private indexes: Map<string, Map<string, SanctionsListEntry[]>> = new Map();
+
+  addSnapshot(snapshot: SanctionsListSnapshot, activate: boolean = true): void {
+    const versions = this.snapshots.get(snapshot.listName) ?? [];
+    if (versions.some(v => v.version === snapshot.version)) {
+      throw new Error(`Sanctions list ${snapshot.listName} already has version ${snapshot.version}`);
+    }
+
+    versions.push(snapshot);
+    this.snapshots.set(snapshot.listName, versions);
+    this.indexes.set(this.indexKey(snapshot.listName, snapshot.version), this.buildIndex(snapshot));
+
+    if (activate || !this.activeVersions.has(snapshot.listName)) {
+      this.activeVersions.set(snapshot.listName, snapshot.version);
+    }
+  }
+
+  activateVersion(listName: string, version: string): void {
+    if (!this.getSnapshot(listName, version)) {
+      throw new Error(`Unknown sanctions list version: ${listName}@${version}`);
+    }
+    this.activeVersions.set(listName, version);
+  }
+
+  getSnapshot(listName: string, version?: string): SanctionsListSnapshot | undefined {
+    const wanted = version ?? this.activeVersions.get(listName);
+    return this.snapshots.get(listName)?.find(v => v.version === wanted);
+  }
+
+  listVersions(listName: string): string[] {
+    return (this.snapshots.get(listName) ?? []).map(v => v.version);
+  }
+
+  getActiveVersions(): Record<string, string> {
+    return Object.fromEntries(this.activeVersions);
+  }
+
+  getActiveLists(): SanctionsListVersion[] {
+    return Array.from(this.activeVersions.keys()).flatMap(listName => {
+      const snapshot = this.getSnapshot(listName);
+      return snapshot ? [{ listName, version: snapshot.version, contentHash: snapshot.contentHash }] : [];
+    });
+  }
+
+  screen(address: string, versions?: Record<string, string>): SanctionsMatch[] {
+    const normalized = normalizeAddress(address);
+    const matches: SanctionsMatch[] = [];
+
+    for (const listName of this.snapshots.keys()) {
+      const snapshot = this.getSnapshot(listName, versions?.[listName]);
+      if (!snapshot) continue;
+
+      const index = this.indexes.get(this.indexKey(listName, snapshot.version));
+      for (const entry of index?.get(normalized) ?? []) {
+        matches.push({
+          listName,
+          listVersion: snapshot.version,
+          contentHash: snapshot.contentHash,
+          entry,
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  async checkCompliance(address: string): Promise<ComplianceCheckResult> {
+    const matches = this.screen(address);
+    const isSanctioned = matches.length > 0;
+    const sanctionsLists = this.getActiveLists();
+    const lists = sanctionsLists.map(l => `${l.listName}@${l.version}`);
+
+    const reasoning = isSanctioned
+      ? `Address listed on ${matches.map(m => `${m.listName}@${m.listVersion} (entry ${m.entry.entryId})`).join(', ')}.`
+      : `No match in sanctions lists: ${lists.join(', ') || 'none loaded'}.`;
+
+    return {
+      isCompliant: !isSanctioned,
+      riskScore: isSanctioned ? 10 : 1,
+      riskLevel: isSanctioned ? 'CRITICAL RISK (Directly malicious)' : 'Very low risk',
+      isSanctioned,
+      reasoning,
+      rawResponse: {
+        riskScore: isSanctioned ? 10 : 1,
+        riskLevel: isSanctioned ? 'CRITICAL RISK (Directly malicious)' : 'Very low risk',
+        numHops: 0,
+        maliciousAddressesFound: matches.map(m => ({
+          address: m.entry.address,
+          distance: 0,
+          name_tag: m.entry.name ?? null,
+          entity: m.entry.program ?? null,
+          category: 'sanctions',
+        })),
+        reasoning,
+      },
+      sanctionsMatches: matches,
+      sanctionsLists,
+    };
+  }
+
+  private indexKey(listName: string, version: string): string {
+    return `${listName}@${version}`;
+  }
+
+  private buildIndex(snapshot: SanctionsListSnapshot): Map<string, SanctionsListEntry[]> {
+    const index = new Map<string, SanctionsListEntry[]>();
+    for (const entry of snapshot.entries) {
+      const key = normalizeAddress(entry.address);
+      index.set(key, [...(index.get(key) ?? []), entry]);
+    }
+    return index;
+  }
+}
+
+export function createSanctionsScreener(snapshots?: SanctionsListSnapshot[]): SanctionsScreener {
+  const screener = new SanctionsScreener();
+  snapshots?.forEach(s => screener.addSnapshot(s));
+  return screener;
+}
@@ -0,0 +1,213 @@
+import os from 'os';
+import path from 'path';
+import { loadIssuerKeyFile } from './attestation-document';
+import { FileAttestationStore, createAttestationRegistry } from './attestation-registry';
+import { FileCacheStore } from './cache-store';
+import { ComplianceService, createComplianceService } from './compliance-service';
+import { FileAuditSink, createOverrideRegistry, loadOverridesFile } from './compliance-overrides';
+import { loadPolicyFile } from './compliance-policy';
+import { loadKycIssuersFile } from './kyc-credential';
+import { SolanaCluster, parseCluster } from './network';
+import { NoirProofService, createNoirProofService } from './noir-proof-service';
+import { createProvingPool } from './proving-pool';
+import { parseCategoryRules } from './risk-evaluator';
+import { FileRiskHistoryStore, createRiskHistory } from './risk-history';
+import { FileNullifierStore, FileRosterRootStore, RosterService, createRosterService } from './roster-service';
+import { SanctionsScreener, createSanctionsScreener, loadSanctionsLists } from './sanctions-list';
+import {
+  AlertSink,
+  FileAlertSink,
+  FileMonitorStateStore,
+  LogAlertSink,
+  WalletMonitor,
+  WebhookAlertSink,
+  createWalletMonitor
+} from './wallet-monitor';
+import { WalletChallenge, createWalletOwnershipVerifier } from './wallet-ownership';
+import type { RiskScoreResponse } from './range-client';
+
+const DATA_DIR = process.env.SHADOWPAY_DATA_DIR ?? path.join(os.tmpdir(), 'shadowpay');
+
+const rangeCacheStore = new FileCacheStore<RiskScoreResponse>(
+  process.env.RANGE_CACHE_PATH ?? path.join(DATA_DIR, 'range-risk-cache.json')
+);
+
+const overrideAuditSink = new FileAuditSink(
+  process.env.OVERRIDE_AUDIT_PATH ?? path.join(DATA_DIR, 'override-audit.jsonl')
+);
+
+const riskHistory = createRiskHistory({
+  store: new FileRiskHistoryStore(process.env.RISK_HISTORY_DIR ?? path.join(DATA_DIR, 'risk-history')),
+});
+
+// Loaded once, so every request screens against the same list versions
+let sanctionsScreener: Promise<SanctionsScreener> | null = null;
+
+const sanctionsSnapshotDir = process.env.SANCTIONS_SNAPSHOT_DIR ?? path.join(DATA_DIR, 'sanctions-snapshots');
+
+function getSanctionsScreener(spec: string): Promise<SanctionsScreener> {
+  sanctionsScreener ??= loadSanctionsLists(spec, sanctionsSnapshotDir).then(createSanctionsScreener);
+  // A list that failed to load is retried on the next request
+  sanctionsScreener.catch(() => { sanctionsScreener = null; });
+  return sanctionsScreener;
+}
+
+const attestationTtlMs = Number(process.env.ATTESTATION_TTL_MS) || undefined;
+
+/**
+ * Documents only verify while the key that signed them exists, so the key is
+ * never kept in the temporary directory the other data falls back to.
+ */
+function issuerKeyPath(): string {
+  const configured = process.env.ATTESTATION_ISSUER_KEY_PATH
+    ?? (process.env.SHADOWPAY_DATA_DIR && path.join(process.env.SHADOWPAY_DATA_DIR, 'attestation-issuer.json'));
+  if (!configured) {
+    throw new Error('Set ATTESTATION_ISSUER_KEY_PATH or SHADOWPAY_DATA_DIR to a persistent location for the attestation issuer key');
+  }
+  return configured;
+}
+
+const attestationRegistry = createAttestationRegistry({
+  store: new FileAttestationStore(process.env.ATTESTATION_REGISTRY_PATH ?? path.join(DATA_DIR, 'attestations.json')),
+  defaultTtlMs: attestationTtlMs,
+});
+
+const walletOwnership = createWalletOwnershipVerifier({
+  store: new FileCacheStore<WalletChallenge>(
+    process.env.WALLET_CHALLENGE_PATH ?? path.join(DATA_DIR, 'wallet-challenges.json')
+  ),
+  ttlMs: Number(process.env.WALLET_CHALLENGE_TTL_MS) || undefined,
+});
+
+const rosterNullifierStore = new FileNullifierStore(
+  process.env.ROSTER_NULLIFIER_PATH ?? path.join(DATA_DIR, 'roster-nullifiers.json')
+);
+
+const rosterRootStore = new FileRosterRootStore(
+  process.env.ROSTER_ROOTS_PATH ?? path.join(DATA_DIR, 'roster-roots.json')
+);
+
+const provingWorkers = process.env.PROVING_WORKERS;
+
+const proverConfig = {
+  proofCacheTtlMs: process.env.PROOF_CACHE_TTL_MS ? Number(process.env.PROOF_CACHE_TTL_MS) : undefined,
+  proofCacheMaxEntries: Number(process.env.PROOF_CACHE_MAX_ENTRIES) || undefined,
+  // PROVING_WORKERS=0 proves on the request thread
+  provingPool: provingWorkers === '0' ? null : createProvingPool({ size: Number(provingWorkers) || undefined }),
+  proofTimeoutMs: Number(process.env.PROOF_TIMEOUT_MS) || undefined,
+};
+
+// Module-level so proofs cached by one request are reused by the next
+const complianceProofService = createNoirProofService({
+  requireRealProofs: process.env.REQUIRE_REAL_PROOFS === 'true',
+  circuitsDir: process.env.CIRCUITS_DIR,
+  allowMockProofs: process.env.ALLOW_MOCK_PROOFS === 'true',
+  ...proverConfig,
+});
+
+const proofService = createNoirProofService({
+  circuitsDir: process.env.CIRCUITS_DIR,
+  allowMockProofs: process.env.ALLOW_MOCK_PROOFS === 'true',
+  ...proverConfig,
+});
+
+export async function createServerComplianceService(network?: SolanaCluster): Promise<ComplianceService> {
+  const rangeApiKey = process.env.RANGE_API_KEY;
+  const overridesPath = process.env.COMPLIANCE_OVERRIDES_PATH;
+  const policyPath = process.env.COMPLIANCE_POLICY_PATH;
+  const trustedIssuers = process.env.ATTESTATION_TRUSTED_ISSUERS;
+  const revokers = process.env.ATTESTATION_REVOKERS;
+  const kycIssuersPath = process.env.KYC_ISSUERS_PATH;
+  const sanctionsLists = process.env.SANCTIONS_LISTS;
+
+  return createComplianceService({
+    rangeApiKey: rangeApiKey ?? 'mock',
+    useMockRange: !rangeApiKey || process.env.USE_MOCK_RANGE === 'true',
+    maxRiskThreshold: Number(process.env.MAX_RISK_THRESHOLD) || 5,
+    defaultMinimumAge: Number(process.env.DEFAULT_MINIMUM_AGE) || 18,
+    defaultMinBalanceUsd: Number(process.env.DEFAULT_MIN_BALANCE) || 0,
+    rangeCacheTtlMs: Number(process.env.RANGE_CACHE_TTL_MS) || undefined,
+    rangeCacheStore,
+    riskProviders: sanctionsLists ? [{ provider: await getSanctionsScreener(sanctionsLists) }] : undefined,
+    overrideRegistry: createOverrideRegistry({
+      overrides: overridesPath ? await loadOverridesFile(overridesPath) : [],
+      filePath: overridesPath,
+      auditSink: overrideAuditSink,
+    }),
+    policies: policyPath ? await loadPolicyFile(policyPath) : undefined,
+    riskCategoryRules: parseCategoryRules(process.env.RISK_CATEGORY_RULES ?? ''),
+    riskHistory,
+    network: network ?? parseCluster(process.env.SOLANA_CLUSTER ?? process.env.NEXT_PUBLIC_SOLANA_CLUSTER),
+    rangeNetwork: process.env.RANGE_NETWORK,
+    shadowWireApiUrl: process.env.SHADOWWIRE_API_URL,
+    proofService: complianceProofService,
+    issuerSecretKey: await loadIssuerKeyFile(issuerKeyPath()),
+    attestationTtlMs,
+    trustedIssuers: trustedIssuers ? trustedIssuers.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+    attestationRevokers: revokers ? revokers.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+    attestationRegistry,
+    walletOwnership,
+    requireWalletOwnership: process.env.REQUIRE_WALLET_OWNERSHIP !== 'false',
+    kycIssuers: kycIssuersPath ? await loadKycIssuersFile(kycIssuersPath) : [],
+    requireKycCredential: process.env.REQUIRE_KYC_CREDENTIAL === 'true',
+  });
+}
+
+export function createServerNoirProofService(): NoirProofService {
+  return proofService;
+}
+
+export function createServerRosterService(): RosterService {
+  const employers = process.env.ROSTER_EMPLOYERS;
+
+  return createRosterService({
+    proofService: createServerNoirProofService(),
+    nullifiers: rosterNullifierStore,
+    roots: rosterRootStore,
+    employers: employers ? employers.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+  });
+}
+
+const DEFAULT_MONITOR_INTERVAL_MS = 60 * 60 * 1000;
+
+// One monitor per process, so scheduled runs never overlap across requests
+let walletMonitor: Promise<WalletMonitor> | null = null;
+
+/**
+ * Returns the process-wide wallet monitor, starting its schedule on first use.
+ * `MONITOR_INTERVAL_MS=0` leaves re-screening to `POST /api/monitoring/run`.
+ */
+export function createServerWalletMonitor(): Promise<WalletMonitor> {
+  walletMonitor ??= buildServerWalletMonitor();
+  walletMonitor.catch(() => { walletMonitor = null; });
+  return walletMonitor;
+}
+
+async function buildServerWalletMonitor(): Promise<WalletMonitor> {
+  const service = await createServerComplianceService();
+  const sinks: AlertSink[] = [
+    new LogAlertSink(),
+    new FileAlertSink(process.env.MONITOR_ALERTS_PATH ?? path.join(DATA_DIR, 'monitor-alerts.jsonl')),
+  ];
+  if (process.env.MONITOR_WEBHOOK_URL) {
+    sinks.push(new WebhookAlertSink(process.env.MONITOR_WEBHOOK_URL));
+  }
+
+  const monitor = createWalletMonitor({
+    provider: service.getRiskProvider(),
+    sinks,
+    store: new FileMonitorStateStore(process.env.MONITOR_STATE_PATH ?? path.join(DATA_DIR, 'monitor-state.json')),
+    scoreChangeThreshold: Number(process.env.MONITOR_SCORE_CHANGE_THRESHOLD) || undefined,
+    onSnapshot: async (address, result) => {
+      await riskHistory.record(address, result, 'monitor');
+    },
+  });
+
+  const intervalMs = process.env.MONITOR_INTERVAL_MS !== undefined
+    ? Number(process.env.MONITOR_INTERVAL_MS)
+    : DEFAULT_MONITOR_INTERVAL_MS;
+  if (intervalMs > 0) {
+    monitor.start(intervalMs);
+  }
+  return monitor;
+}
@@ -1,4 +1,5 @@
 import { ShadowWireClient } from '@radr/shadowwire';
+import { DEFAULT_CLUSTER, SolanaCluster } from './network';
 
 export type TransferType = 'internal' | 'external';
 
@@ -32,6 +33,7 @@ export interface BalanceResult {
 
 export interface ShadowWireConfig {
   apiBaseUrl?: string;
+  network?: SolanaCluster;
   debug?: boolean;
 }
 
@@ -55,14 +57,23 @@ const TOKEN_FEE_PERCENT: Record<SupportedToken, number> = {
 
 export class ShadowWireService {
   private client: ShadowWireClient;
+  private network: SolanaCluster;
 
   constructor(config?: ShadowWireConfig) {
+    this.network = config?.network ?? DEFAULT_CLUSTER;
     this.client = new ShadowWireClient({
       apiBaseUrl: config?.apiBaseUrl,
+      // The SDK only knows mainnet-beta; other clusters rely on apiBaseUrl
+      // pointing at a matching ShadowWire deployment.
+      network: this.network === 'mainnet-beta' ? this.network : undefined,
       debug: config?.debug ?? false,
     });
   }
 
+  getNetwork(): SolanaCluster {
+    return this.network;
+  }
+
   async getBalance(wallet: string, token: SupportedToken = 'SOL'): Promise<BalanceResult> {
     const balance = await this.client.getBalance(wallet, token) as { available?: number; pending?: number } | null;
     return {
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AlertSink,
+  FileAlertSink,
+  FileMonitorStateStore,
+  MonitorAlert,
+  WalletMonitor,
+} from './wallet-monitor';
+import { MockRangeClient, RiskScoreResponse } from './range-client';
+
+class CollectingSink implements AlertSink {
+  alerts: MonitorAlert[] = [];
+
+  async send(alerts: MonitorAlert[]): Promise<void> {
+    this.alerts.push(...alerts);
+  }
+}
+
+function riskResponse(riskScore: RiskScoreResponse['riskScore'], counterparties: string[] = [], category = 'scam'): RiskScoreResponse {
+  return {
+    riskScore,
+    riskLevel: riskScore >= 10 ? 'CRITICAL RISK (Directly malicious)' : riskScore >= 6 ? 'High risk' : 'Very low risk',
+    numHops: counterparties.length > 0 ? 2 : 0,
+    maliciousAddressesFound: counterparties.map(address => ({
+      address,
+      distance: 2,
+      name_tag: null,
+      entity: null,
+      category,
+    })),
+    reasoning: `Risk score ${riskScore}.`,
+  };
+}
+
+describe('WalletMonitor', () => {
+  let client: MockRangeClient;
+  let sink: CollectingSink;
+  let monitor: WalletMonitor;
+
+  beforeEach(async () => {
+    client = new MockRangeClient({ cacheTtlMs: 60_000 });
+    sink = new CollectingSink();
+    monitor = new WalletMonitor({ provider: client, sinks: [sink] });
+    await monitor.addWallet('EmployeeWallet', 'employee', 'Alice');
+  });
+
+  it('should not alert on the first screening of a healthy wallet', async () => {
+    const result = await monitor.runOnce();
+
+    expect(result.checked).toBe(1);
+    expect(result.alerts).toHaveLength(0);
+    expect((await monitor.getSnapshot('EmployeeWallet'))?.riskScore).toBe(1);
+  });
+
+  it('should bypass cached scores and alert on risk score changes', async () => {
+    await monitor.runOnce();
+    client.setMockResponse('EmployeeWallet', riskResponse(4));
+
+    const result = await monitor.runOnce();
+
+    expect(result.alerts).toHaveLength(1);
+    expect(result.alerts[0].type).toBe('risk_score_changed');
+    expect(result.alerts[0].severity).toBe('warning');
+    expect(result.alerts[0].label).toBe('Alice');
+    expect(sink.alerts).toHaveLength(1);
+  });
+
+  it('should raise a critical alert when a wallet becomes sanctioned', async () => {
+    await monitor.runOnce();
+    client.setMockResponse('EmployeeWallet', riskResponse(10));
+
+    const { alerts } = await monitor.runOnce();
+
+    expect(alerts.map(a => a.type)).toContain('newly_sanctioned');
+    expect(alerts.find(a => a.type === 'newly_sanctioned')?.severity).toBe('critical');
+  });
+
+  it('should alert on new malicious counterparties', async () => {
+    client.setMockResponse('EmployeeWallet', riskResponse(3, ['ScamA']));
+    await monitor.runOnce();
+    client.setMockResponse('EmployeeWallet', riskResponse(3, ['ScamA', 'ScamB']));
+
+    const { alerts } = await monitor.runOnce();
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].type).toBe('new_malicious_evidence');
+    expect(alerts[0].message).toContain('ScamB');
+    expect(alerts[0].message).not.toContain('ScamA');
+  });
+
+  it('should report screening failures without dropping other wallets', async () => {
+    await monitor.addWallet('VendorWallet', 'counterparty');
+    client.setMockError('EmployeeWallet', new Error('Range API unavailable'));
+
+    const result = await monitor.runOnce();
+
+    expect(result.checked).toBe(2);
+    expect(result.failures).toEqual(['EmployeeWallet']);
+    expect(result.alerts[0].type).toBe('screening_failed');
+    expect(await monitor.getSnapshot('VendorWallet')).toBeDefined();
+  });
+
+  it('should deliver alerts to the other sinks when one fails', async () => {
+    const failing: AlertSink = {
+      async send() {
+        throw new Error('Webhook returned 502');
+      },
+    };
+    monitor = new WalletMonitor({ provider: client, sinks: [failing, sink] });
+    await monitor.addWallet('EmployeeWallet', 'employee');
+    client.setMockResponse('EmployeeWallet', riskResponse(10));
+
+    const result = await monitor.runOnce();
+
+    expect(result.sinkErrors).toEqual(['Webhook returned 502']);
+    expect(sink.alerts.map(a => a.type)).toContain('newly_sanctioned');
+    expect((await monitor.getSnapshot('EmployeeWallet'))?.isSanctioned).toBe(true);
+  });
+
+  it('should pass each result to the snapshot hook', async () => {
+    const seen: string[] = [];
+    monitor = new WalletMonitor({
+      provider: client,
+      sinks: [sink],
+      onSnapshot: async (address, result) => {
+        seen.push(`${address}:${result.riskScore}`);
+      },
+    });
+    await monitor.addWallet('EmployeeWallet', 'employee');
+
+    await monitor.runOnce();
+
+    expect(seen).toEqual(['EmployeeWallet:1']);
+  });
+
+  it('should share a run that is already in progress', async () => {
+    const [first, second] = await Promise.all([monitor.runOnce(), monitor.runOnce()]);
+
+    expect(first).toBe(second);
+  });
+
+  it('should forget snapshots of removed wallets', async () => {
+    await monitor.runOnce();
+
+    expect(await monitor.removeWallet('EmployeeWallet')).toBe(true);
+    expect(await monitor.removeWallet('EmployeeWallet')).toBe(false);
+    expect(await monitor.getSnapshot('EmployeeWallet')).toBeUndefined();
+  });
+});
+
+describe('file-backed monitoring', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wallet-monitor-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist wallets and snapshots across monitor instances', async () => {
+    const client = new MockRangeClient();
+    const store = new FileMonitorStateStore(path.join(dir, 'state.json'));
+    const alertsPath = path.join(dir, 'alerts', 'alerts.jsonl');
+
+    const first = new WalletMonitor({ provider: client, store, sinks: [new FileAlertSink(alertsPath)] });
+    await first.addWallet('EmployeeWallet', 'employee');
+    await first.runOnce();
+
+    client.setMockResponse('EmployeeWallet', riskResponse(7));
+    const second = new WalletMonitor({ provider: client, store: new FileMonitorStateStore(path.join(dir, 'state.json')), sinks: [new FileAlertSink(alertsPath)] });
+    const { alerts } = await second.runOnce();
+
+    expect(alerts.map(a => a.type)).toEqual(['compliance_lost', 'risk_score_changed']);
+    const lines = (await fs.readFile(alertsPath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).address).toBe('EmployeeWallet');
+  });
+
+  it('should keep every wallet when instances add wallets concurrently', async () => {
+    const client = new MockRangeClient();
+    const first = new WalletMonitor({ provider: client, store: new FileMonitorStateStore(path.join(dir, 'state.json')) });
+    const second = new WalletMonitor({ provider: client, store: new FileMonitorStateStore(path.join(dir, 'state.json')) });
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      (i % 2 === 0 ? first : second).addWallet(`Wallet${i}`, 'employee')
+    ));
+
+    expect(await first.listWallets()).toHaveLength(10);
+    expect((await fs.readdir(dir)).filter(f => f.endsWith('.tmp'))).toEqual([]);
+  });
+});
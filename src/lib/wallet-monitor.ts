@@ -0,0 +1,351 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readJsonFile, updateJsonFile } from './json-file';
+import type { ComplianceCheckResult, RiskLevel } from './range-client';
+import type { RiskProvider } from './risk-provider';
+
+export type MonitoredWalletRole = 'employee' | 'counterparty';
+
+export type MonitorAlertType =
+  | 'risk_score_changed'
+  | 'newly_sanctioned'
+  | 'compliance_lost'
+  | 'new_malicious_evidence'
+  | 'screening_failed';
+
+export type MonitorAlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface MonitoredWallet {
+  address: string;
+  role: MonitoredWalletRole;
+  label?: string;
+  addedAt: number;
+}
+
+export interface WalletRiskSnapshot {
+  address: string;
+  checkedAt: number;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  isSanctioned: boolean;
+  isCompliant: boolean;
+  maliciousCounterparties: string[];
+}
+
+export interface MonitorAlert {
+  type: MonitorAlertType;
+  severity: MonitorAlertSeverity;
+  address: string;
+  label?: string;
+  role: MonitoredWalletRole;
+  detectedAt: number;
+  message: string;
+  previous?: WalletRiskSnapshot;
+  current?: WalletRiskSnapshot;
+}
+
+export interface MonitorState {
+  wallets: MonitoredWallet[];
+  snapshots: Record<string, WalletRiskSnapshot>;
+}
+
+export interface MonitorStateStore {
+  load(): Promise<MonitorState>;
+  /**
+   * Applies `update` to the current state and saves it in one step, so
+   * concurrent updates never lose each other's changes.
+   */
+  update<R>(update: (state: MonitorState) => R): Promise<R>;
+}
+
+export interface AlertSink {
+  send(alerts: MonitorAlert[]): Promise<void>;
+}
+
+export interface MonitorRunResult {
+  startedAt: number;
+  checked: number;
+  alerts: MonitorAlert[];
+  failures: string[];
+  /** Why alert sinks failed to deliver this run's alerts, if any did. */
+  sinkErrors: string[];
+}
+
+export interface WalletMonitorConfig {
+  provider: RiskProvider;
+  sinks?: AlertSink[];
+  store?: MonitorStateStore;
+  scoreChangeThreshold?: number;
+  onSnapshot?: (address: string, result: ComplianceCheckResult) => Promise<void>;
+  now?: () => number;
+}
+
+const DEFAULT_SCORE_CHANGE_THRESHOLD = 1;
+const MONITOR_CONCURRENCY = 5;
+
+export class MemoryMonitorStateStore implements MonitorStateStore {
+  private state: MonitorState = { wallets: [], snapshots: {} };
+
+  async load(): Promise<MonitorState> {
+    return structuredClone(this.state);
+  }
+
+  async update<R>(update: (state: MonitorState) => R): Promise<R> {
+    const state = structuredClone(this.state);
+    const result = update(state);
+    this.state = state;
+    return structuredClone(result);
+  }
+}
+
+export class FileMonitorStateStore implements MonitorStateStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  load(): Promise<MonitorState> {
+    return readJsonFile<MonitorState>(this.filePath, { wallets: [], snapshots: {} });
+  }
+
+  update<R>(update: (state: MonitorState) => R): Promise<R> {
+    return updateJsonFile<MonitorState, R>(this.filePath, { wallets: [], snapshots: {} }, update);
+  }
+}
+
+export class LogAlertSink implements AlertSink {
+  private logger: (message: string) => void;
+
+  constructor(logger: (message: string) => void = console.warn) {
+    this.logger = logger;
+  }
+
+  async send(alerts: MonitorAlert[]): Promise<void> {
+    alerts.forEach(a => this.logger(`[MONITOR] ${a.severity.toUpperCase()} ${a.type} ${a.address}: ${a.message}`));
+  }
+}
+
+export class WebhookAlertSink implements AlertSink {
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async send(alerts: MonitorAlert[]): Promise<void> {
+    if (alerts.length === 0) return;
+    await axios.post(this.url, { alerts }, { timeout: 10_000 });
+  }
+}
+
+export class FileAlertSink implements AlertSink {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async send(alerts: MonitorAlert[]): Promise<void> {
+    if (alerts.length === 0) return;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, alerts.map(a => JSON.stringify(a)).join('\n') + '\n', 'utf8');
+  }
+}
+
+export function toRiskSnapshot(address: string, result: ComplianceCheckResult, checkedAt: number): WalletRiskSnapshot {
+  return {
+    address,
+    checkedAt,
+    riskScore: result.riskScore,
+    riskLevel: result.riskLevel,
+    isSanctioned: result.isSanctioned,
+    isCompliant: result.isCompliant,
+    maliciousCounterparties: result.rawResponse.maliciousAddressesFound.map(m => m.address),
+  };
+}
+
+export class WalletMonitor {
+  private provider: RiskProvider;
+  private sinks: AlertSink[];
+  private store: MonitorStateStore;
+  private scoreChangeThreshold: number;
+  private onSnapshot?: (address: string, result: ComplianceCheckResult) => Promise<void>;
+  private now: () => number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<MonitorRunResult> | null = null;
+
+  constructor(config: WalletMonitorConfig) {
+    this.provider = config.provider;
+    this.sinks = config.sinks ?? [new LogAlertSink()];
+    this.store = config.store ?? new MemoryMonitorStateStore();
+    this.scoreChangeThreshold = config.scoreChangeThreshold ?? DEFAULT_SCORE_CHANGE_THRESHOLD;
+    this.onSnapshot = config.onSnapshot;
+    this.now = config.now ?? Date.now;
+  }
+
+  async addWallet(address: string, role: MonitoredWalletRole, label?: string): Promise<MonitoredWallet> {
+    return this.store.update(state => {
+      const existing = state.wallets.find(w => w.address === address);
+      if (existing) return existing;
+
+      const wallet: MonitoredWallet = { address, role, label, addedAt: this.now() };
+      state.wallets.push(wallet);
+      return wallet;
+    });
+  }
+
+  async removeWallet(address: string): Promise<boolean> {
+    return this.store.update(state => {
+      const remaining = state.wallets.filter(w => w.address !== address);
+      if (remaining.length === state.wallets.length) return false;
+
+      state.wallets = remaining;
+      delete state.snapshots[address];
+      return true;
+    });
+  }
+
+  async listWallets(): Promise<MonitoredWallet[]> {
+    return (await this.store.load()).wallets;
+  }
+
+  async getSnapshot(address: string): Promise<WalletRiskSnapshot | undefined> {
+    return (await this.store.load()).snapshots[address];
+  }
+
+  runOnce(): Promise<MonitorRunResult> {
+    if (!this.running) {
+      this.running = this.screenAll().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.warn('Wallet monitor run failed:', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async screenAll(): Promise<MonitorRunResult> {
+    const startedAt = this.now();
+    const state = await this.store.load();
+    const alerts: MonitorAlert[] = [];
+    const failures: string[] = [];
+    const snapshots: Record<string, WalletRiskSnapshot> = {};
+
+    for (let i = 0; i < state.wallets.length; i += MONITOR_CONCURRENCY) {
+      const batch = state.wallets.slice(i, i + MONITOR_CONCURRENCY);
+      const results = await Promise.allSettled(batch.map(w => this.screen(w.address)));
+
+      batch.forEach((wallet, idx) => {
+        const settled = results[idx];
+        if (settled.status === 'rejected') {
+          failures.push(wallet.address);
+          alerts.push(this.alert(wallet, 'screening_failed', 'warning',
+            `Re-screening failed: ${settled.reason instanceof Error ? settled.reason.message : 'Unknown error'}`));
+          return;
+        }
+
+        const current = toRiskSnapshot(wallet.address, settled.value, this.now());
+        alerts.push(...this.diff(wallet, state.snapshots[wallet.address], current));
+        snapshots[wallet.address] = current;
+      });
+    }
+
+    // Only wallets still monitored keep their snapshot, even if one was removed mid-run
+    await this.store.update(latest => {
+      for (const wallet of latest.wallets) {
+        if (snapshots[wallet.address]) {
+          latest.snapshots[wallet.address] = snapshots[wallet.address];
+        }
+      }
+    });
+
+    // Snapshots are already saved, so a failing sink must not fail the run or block the others
+    const sinkErrors: string[] = [];
+    if (alerts.length > 0) {
+      const delivered = await Promise.allSettled(this.sinks.map(sink => sink.send(alerts)));
+      for (const result of delivered) {
+        if (result.status === 'rejected') {
+          const message = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+          console.warn('Alert sink failed:', message);
+          sinkErrors.push(message);
+        }
+      }
+    }
+
+    return { startedAt, checked: state.wallets.length, alerts, failures, sinkErrors };
+  }
+
+  private async screen(address: string): Promise<ComplianceCheckResult> {
+    await this.provider.invalidateRiskScore?.(address);
+    const result = await this.provider.checkCompliance(address);
+    await this.onSnapshot?.(address, result);
+    return result;
+  }
+
+  private diff(wallet: MonitoredWallet, previous: WalletRiskSnapshot | undefined, current: WalletRiskSnapshot): MonitorAlert[] {
+    const alerts: MonitorAlert[] = [];
+    const wasSanctioned = previous?.isSanctioned ?? false;
+    const wasCompliant = previous?.isCompliant ?? true;
+
+    if (current.isSanctioned && !wasSanctioned) {
+      alerts.push(this.alert(wallet, 'newly_sanctioned', 'critical', 'Wallet is now sanctioned', previous, current));
+    } else if (!current.isCompliant && wasCompliant) {
+      alerts.push(this.alert(wallet, 'compliance_lost', 'critical',
+        `Wallet is no longer compliant (risk score ${current.riskScore})`, previous, current));
+    }
+
+    if (previous && Math.abs(current.riskScore - previous.riskScore) >= this.scoreChangeThreshold) {
+      alerts.push(this.alert(wallet, 'risk_score_changed',
+        current.riskScore > previous.riskScore ? 'warning' : 'info',
+        `Risk score changed from ${previous.riskScore} to ${current.riskScore}`, previous, current));
+    }
+
+    const known = new Set(previous?.maliciousCounterparties ?? []);
+    const added = current.maliciousCounterparties.filter(a => !known.has(a));
+    if (previous && added.length > 0) {
+      alerts.push(this.alert(wallet, 'new_malicious_evidence', 'warning',
+        `New malicious counterparties: ${added.join(', ')}`, previous, current));
+    }
+
+    return alerts;
+  }
+
+  private alert(
+    wallet: MonitoredWallet,
+    type: MonitorAlertType,
+    severity: MonitorAlertSeverity,
+    message: string,
+    previous?: WalletRiskSnapshot,
+    current?: WalletRiskSnapshot
+  ): MonitorAlert {
+    return {
+      type,
+      severity,
+      address: wallet.address,
+      label: wallet.label,
+      role: wallet.role,
+      detectedAt: this.now(),
+      message,
+      previous,
+      current,
+    };
+  }
+}
+
+export function createWalletMonitor(config: WalletMonitorConfig): WalletMonitor {
+  return new WalletMonitor(config);
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { FileCacheStore } from './cache-store';
+import { WalletChallenge, WalletOwnershipError, WalletOwnershipVerifier } from './wallet-ownership';
+
+function sign(challenge: WalletChallenge, keypair: Keypair): string {
+  const signature = nacl.sign.detached(new TextEncoder().encode(challenge.message), keypair.secretKey);
+  return Buffer.from(signature).toString('base64');
+}
+
+describe('WalletOwnershipVerifier', () => {
+  let now: number;
+  let verifier: WalletOwnershipVerifier;
+  let wallet: Keypair;
+  let address: string;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    verifier = new WalletOwnershipVerifier({ ttlMs: 60_000, now: () => now });
+    wallet = Keypair.generate();
+    address = wallet.publicKey.toBase58();
+  });
+
+  it('should issue a nonce bound to the wallet', async () => {
+    const challenge = await verifier.issueChallenge(address);
+
+    expect(challenge.walletAddress).toBe(address);
+    expect(challenge.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(challenge.message).toContain(address);
+    expect(challenge.message).toContain(challenge.nonce);
+    expect(challenge.expiresAt).toBe(now + 60_000);
+  });
+
+  it('should accept a signature from the wallet owner once', async () => {
+    const challenge = await verifier.issueChallenge(address);
+    const proof = { nonce: challenge.nonce, signature: sign(challenge, wallet) };
+
+    await verifier.verify(address, proof);
+
+    await expect(verifier.verify(address, proof)).rejects.toThrow('unknown or expired nonce');
+  });
+
+  it('should accept only one of several concurrent uses of a nonce', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wallet-ownership-'));
+    const filePath = path.join(dir, 'challenges.json');
+    const first = new WalletOwnershipVerifier({ store: new FileCacheStore(filePath, () => now), now: () => now });
+    const second = new WalletOwnershipVerifier({ store: new FileCacheStore(filePath, () => now), now: () => now });
+    const challenge = await first.issueChallenge(address);
+    const proof = { nonce: challenge.nonce, signature: sign(challenge, wallet) };
+
+    const results = await Promise.allSettled([first.verify(address, proof), second.verify(address, proof)]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reject signatures from another key', async () => {
+    const challenge = await verifier.issueChallenge(address);
+
+    const attempt = verifier.verify(address, { nonce: challenge.nonce, signature: sign(challenge, Keypair.generate()) });
+
+    await expect(attempt).rejects.toThrow(WalletOwnershipError);
+    await expect(attempt).rejects.toThrow('invalid signature');
+  });
+
+  it('should reject a nonce issued for a different wallet', async () => {
+    const other = Keypair.generate();
+    const challenge = await verifier.issueChallenge(other.publicKey.toBase58());
+
+    const attempt = verifier.verify(address, { nonce: challenge.nonce, signature: sign(challenge, other) });
+
+    await expect(attempt).rejects.toThrow('nonce was issued for a different wallet');
+  });
+
+  it('should reject expired nonces', async () => {
+    const challenge = await verifier.issueChallenge(address);
+    now += 60_000;
+
+    const attempt = verifier.verify(address, { nonce: challenge.nonce, signature: sign(challenge, wallet) });
+
+    await expect(attempt).rejects.toThrow('unknown or expired nonce');
+  });
+
+  it('should refuse challenges for invalid addresses', async () => {
+    await expect(verifier.issueChallenge('not-a-wallet')).rejects.toThrow('not a valid Solana address');
+  });
+});
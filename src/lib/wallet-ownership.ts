@@ -0,0 +1,115 @@
+import { randomBytes } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { CacheStore, TtlCache } from './cache-store';
+
+export interface WalletChallenge {
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface WalletOwnershipProof {
+  nonce: string;
+  signature: string;
+}
+
+export interface WalletOwnershipConfig {
+  store?: CacheStore<WalletChallenge>;
+  ttlMs?: number;
+  domain?: string;
+  now?: () => number;
+}
+
+export class WalletOwnershipError extends Error {
+  readonly walletAddress: string;
+
+  constructor(walletAddress: string, message: string) {
+    super(`Wallet ownership check failed for ${walletAddress}: ${message}`);
+    this.name = 'WalletOwnershipError';
+    this.walletAddress = walletAddress;
+  }
+}
+
+const DEFAULT_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_DOMAIN = 'ShadowPay';
+
+/**
+ * Issues single-use nonces that a wallet must sign to prove it controls the
+ * address it is requesting an attestation for.
+ */
+export class WalletOwnershipVerifier {
+  private challenges: TtlCache<WalletChallenge>;
+  private ttlMs: number;
+  private domain: string;
+  private now: () => number;
+
+  constructor(config?: WalletOwnershipConfig) {
+    this.ttlMs = config?.ttlMs ?? DEFAULT_CHALLENGE_TTL_MS;
+    this.domain = config?.domain ?? DEFAULT_DOMAIN;
+    this.now = config?.now ?? Date.now;
+    this.challenges = new TtlCache({ ttlMs: this.ttlMs, store: config?.store, now: this.now });
+  }
+
+  async issueChallenge(walletAddress: string): Promise<WalletChallenge> {
+    parsePublicKey(walletAddress);
+
+    const issuedAt = this.now();
+    const nonce = randomBytes(16).toString('hex');
+    const challenge: WalletChallenge = {
+      walletAddress,
+      nonce,
+      message: challengeMessage(this.domain, walletAddress, nonce, issuedAt),
+      issuedAt,
+      expiresAt: issuedAt + this.ttlMs,
+    };
+
+    await this.challenges.set(nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Checks a base64 Ed25519 signature over the challenge message. The nonce is
+   * consumed whether or not the signature is valid, so it cannot be retried.
+   */
+  async verify(walletAddress: string, proof: WalletOwnershipProof): Promise<void> {
+    const challenge = await this.challenges.take(proof.nonce);
+
+    if (!challenge) {
+      throw new WalletOwnershipError(walletAddress, 'unknown or expired nonce');
+    }
+    if (challenge.walletAddress !== walletAddress) {
+      throw new WalletOwnershipError(walletAddress, 'nonce was issued for a different wallet');
+    }
+
+    const publicKey = parsePublicKey(walletAddress);
+    const signature = new Uint8Array(Buffer.from(proof.signature, 'base64'));
+    const message = new TextEncoder().encode(challenge.message);
+    if (signature.length !== nacl.sign.signatureLength || !nacl.sign.detached.verify(message, signature, publicKey)) {
+      throw new WalletOwnershipError(walletAddress, 'invalid signature');
+    }
+  }
+}
+
+export function challengeMessage(domain: string, walletAddress: string, nonce: string, issuedAt: number): string {
+  return [
+    `${domain} wants you to prove ownership of ${walletAddress}`,
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+function parsePublicKey(walletAddress: string): Uint8Array {
+  try {
+    return new PublicKey(walletAddress).toBytes();
+  } catch {
+    throw new WalletOwnershipError(walletAddress, 'not a valid Solana address');
+  }
+}
+
+export function createWalletOwnershipVerifier(config?: WalletOwnershipConfig): WalletOwnershipVerifier {
+  return new WalletOwnershipVerifier(config);
+}